@@ -0,0 +1,23 @@
+type InputProps = {
+  handler?: (t: string) => void;
+  text?: string;
+  placeholder?: string;
+};
+
+const Input = (props: InputProps) => {
+  return (
+    <input
+      type="text"
+      value={props.text}
+      onChange={(e) => {
+        props.handler?.(e.target.value);
+      }}
+      className="my-input"
+      placeholder={props.placeholder}
+      spellCheck="false"
+      style={{ width: "100%", fontFamily: "monospace", fontSize: "20px" }}
+    />
+  );
+};
+
+export default Input;
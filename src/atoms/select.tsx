@@ -0,0 +1,25 @@
+type SelectProps = {
+  handler?: (value: string) => void;
+  value: string;
+  options: Array<{ value: string; label: string }>;
+};
+
+const Select = (props: SelectProps) => {
+  return (
+    <select
+      value={props.value}
+      onChange={(e) => {
+        props.handler?.(e.target.value);
+      }}
+      className="my-select"
+    >
+      {props.options.map((o) => (
+        <option key={o.value} value={o.value}>
+          {o.label}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default Select;
@@ -0,0 +1,23 @@
+import { BNFSet } from "./interface/bnf";
+import { ConstructionEvent, LRItemSet } from "./interface/itemSet";
+import { ParseTable } from "./interface/parseTable";
+import lr0 from "./lr0";
+import slr1 from "./slr1";
+import lr1 from "./lr1";
+import lalr1 from "./lalr1";
+
+// どの構築法でも、アイテム集合とgotoの構造、構文解析表を同じ形で返す
+export type LRAutomaton = {
+  itemSets: LRItemSet[];
+  table: ParseTable;
+  events: ConstructionEvent[]; // 構築の途中経過（JSONから読み込んだときは空）
+};
+
+export type AlgorithmName = "lr0" | "slr1" | "lalr1" | "lr1";
+
+export const algorithms: { [name in AlgorithmName]: { label: string; build: (bnfSet: BNFSet) => LRAutomaton } } = {
+  lr0: { label: "LR(0)", build: lr0 },
+  slr1: { label: "SLR(1)", build: slr1 },
+  lalr1: { label: "LALR(1)", build: lalr1 },
+  lr1: { label: "LR(1)", build: lr1 },
+};
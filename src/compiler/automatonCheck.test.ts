@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import { LRItemSet } from "./interface/itemSet";
+import { algorithms } from "./algorithms";
+import { isEquivalentAutomaton, matchStates, validateAutomaton } from "./automatonCheck";
+import { parseRawBnf } from "./parseBnf";
+
+// 核が2つの項からなる状態がある文法（E -> E • '+' T と E' -> E • $ など）
+const GRAMMAR = "E -> E '+' T | T\nT -> T '*' 'n' | 'n'";
+
+const build = (algorithm: keyof typeof algorithms = "lr0") => algorithms[algorithm].build(parseRawBnf(GRAMMAR)).itemSets;
+
+// 状態の番号を order の順に付け直し、核の項の順番も逆にしたオートマトン
+const renumber = (itemSets: LRItemSet[], order: number[]) => {
+  const newIndex = new Map(order.map((old, i) => [old, i]));
+  return order.map((old) => {
+    const original = itemSets[old];
+    const itemSet = new LRItemSet([...original.getKernelItems()].reverse());
+    original.getItems().slice(original.getKernelItems().length).forEach((item) => itemSet.addItem(item));
+    original.getGotos().forEach((to, symbol) => itemSet.addGoto(symbol, newIndex.get(to) ?? -1));
+    return itemSet;
+  });
+};
+
+describe("validateAutomaton", () => {
+  it.each(["lr0", "lalr1", "lr1"] as const)("%s で作ったオートマトンには問題がない", (algorithm) => {
+    expect(validateAutomaton(build(algorithm))).toEqual([]);
+  });
+
+  it("核の項の順番だけが違う状態を、同じ状態として報告する", () => {
+    const itemSets = build();
+    const twoItems = itemSets.findIndex((s) => s.getKernelItems().length === 2);
+    const duplicated = [...itemSets, renumber(itemSets, [twoItems])[0]];
+    expect(validateAutomaton(duplicated)).toContainEqual({
+      state: itemSets.length,
+      message: `状態 I${itemSets.length} の核が状態 I${twoItems} と同じです。`,
+    });
+  });
+
+  it("存在しない状態への遷移と、核が合わない遷移を報告する", () => {
+    const itemSets = build();
+    itemSets[0].addGoto("n", 99);
+    itemSets[0].addGoto("T", 0);
+    expect(validateAutomaton(itemSets)).toEqual([
+      { state: 0, message: "状態 I0 から 'T' での遷移先 I0 の核が、ドットを進めた項と一致しません。" },
+      { state: 0, message: "状態 I0 から 'n' での遷移先 I99 がありません。" },
+    ]);
+  });
+});
+
+describe("matchStates", () => {
+  it("番号の付け方と核の項の順番だけが違うオートマトンを、同じものとして対応付ける", () => {
+    const ours = build();
+    const order = ours.map((_, i) => i).reverse();
+    const theirs = renumber(ours, order);
+    expect(matchStates(ours, theirs)).toEqual({ mapping: ours.map((_, i) => order.indexOf(i)), unmatched: [], gotoMismatches: [] });
+    expect(isEquivalentAutomaton(ours, theirs)).toBe(true);
+  });
+
+  it("遷移先が対応しない遷移と、対応しない状態を返す", () => {
+    const ours = build();
+    const theirs = renumber(ours, ours.map((_, i) => i));
+    theirs[0].addGoto("n", 1);
+    expect(matchStates(ours, theirs).gotoMismatches).toEqual([{ state: 0, symbol: "n" }]);
+    expect(isEquivalentAutomaton(ours, theirs)).toBe(false);
+    expect(matchStates(ours.slice(1), theirs).unmatched).toEqual([0]);
+  });
+});
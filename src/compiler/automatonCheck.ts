@@ -0,0 +1,104 @@
+/**
+ * 構築したLRオートマトンの検査と、別のオートマトンとの状態の対応付け
+ *
+ * 状態は核となる項の集合（順番によらない）で同一視する
+ * 項のIDは構造から決まるので、別々にパースした文法から作ったオートマトンどうしでも比べられる
+ */
+
+import { LRItem } from "./interface/lrItem";
+import { LRItemSet } from "./interface/itemSet";
+
+export type AutomatonProblem = {
+  state: number;
+  message: string;
+};
+
+// 先読みを除いた核のキー gotoの整合性の検査に使う（LALR(1)では併合で先読みが増えるため）
+const getKernelCoreKey = (items: LRItem[]) =>
+  Array.from(new Set(items.map((item) => item.getCoreId())))
+    .sort((a, b) => a - b)
+    .join(",");
+
+/**
+ * オートマトンが正しく作られているかを検査する 問題がなければ空の配列を返す
+ * - 核が同じ状態が2つ以上ない
+ * - gotoの遷移先の状態が存在する
+ * - 遷移先の核が、遷移元でドットの直後がその記号の項のドットを進めたものと一致する
+ */
+export const validateAutomaton = (itemSets: LRItemSet[]): AutomatonProblem[] => {
+  const problems: AutomatonProblem[] = [];
+
+  const stateByKernel = new Map<string, number>();
+  itemSets.forEach((itemSet, state) => {
+    const key = itemSet.getKernelKey();
+    const same = stateByKernel.get(key);
+    if (same !== undefined) {
+      problems.push({ state, message: `状態 I${state} の核が状態 I${same} と同じです。` });
+      return;
+    }
+    stateByKernel.set(key, state);
+  });
+
+  itemSets.forEach((itemSet, state) => {
+    itemSet.getGotos().forEach((to, symbol) => {
+      const target = itemSets[to];
+      if (target === undefined) {
+        problems.push({ state, message: `状態 I${state} から '${symbol}' での遷移先 I${to} がありません。` });
+        return;
+      }
+      const advanced = itemSet
+        .getItems()
+        .filter((item) => item.getDotNextElement()?.getValue() === symbol)
+        .map((item) => item.advance());
+      if (getKernelCoreKey(advanced) !== getKernelCoreKey(target.getKernelItems())) {
+        problems.push({ state, message: `状態 I${state} から '${symbol}' での遷移先 I${to} の核が、ドットを進めた項と一致しません。` });
+      }
+    });
+  });
+
+  return problems;
+};
+
+export type StateCorrespondence = {
+  mapping: Array<number | null>; // 自分の状態番号 -> 相手の状態番号（対応する状態がなければnull）
+  unmatched: number[]; // どの状態とも対応しなかった相手の状態番号
+  gotoMismatches: Array<{ state: number; symbol: string }>; // 対応する状態どうしで遷移先が対応しない遷移（自分の状態番号）
+};
+
+/**
+ * 2つのオートマトンの状態を核で対応付ける 教科書の状態番号と見比べるのに使う
+ * 対応する状態どうしの遷移先も対応していれば、2つのオートマトンは番号の付け方が違うだけで同じもの
+ */
+export const matchStates = (ours: LRItemSet[], theirs: LRItemSet[]): StateCorrespondence => {
+  const theirStateByKernel = new Map(theirs.map((itemSet, state) => [itemSet.getKernelKey(), state]));
+  const mapping = ours.map((itemSet) => theirStateByKernel.get(itemSet.getKernelKey()) ?? null);
+  const matched = new Set(mapping);
+  const unmatched = theirs.map((_, state) => state).filter((state) => !matched.has(state));
+
+  const gotoMismatches: StateCorrespondence["gotoMismatches"] = [];
+  ours.forEach((itemSet, state) => {
+    const their = mapping[state];
+    if (their === null) {
+      return;
+    }
+    itemSet.getGotos().forEach((to, symbol) => {
+      if (theirs[their].getGoto(symbol) !== mapping[to] || mapping[to] === null) {
+        gotoMismatches.push({ state, symbol });
+      }
+    });
+  });
+
+  return { mapping, unmatched, gotoMismatches };
+};
+
+// 2つのオートマトンが状態番号の付け方を除いて同じか
+export const isEquivalentAutomaton = (ours: LRItemSet[], theirs: LRItemSet[]) => {
+  const { mapping, unmatched, gotoMismatches } = matchStates(ours, theirs);
+  return (
+    ours.length === theirs.length &&
+    mapping.every((state) => state !== null) &&
+    unmatched.length === 0 &&
+    gotoMismatches.length === 0 &&
+    theirs.every((itemSet, state) => itemSet.getGotos().size === ours[mapping.indexOf(state)].getGotos().size)
+  );
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import { formatParseAction, ParseTable } from "./interface/parseTable";
+import { algorithms } from "./algorithms";
+import { parseRawBnf } from "./parseBnf";
+import { ParseTreeNode, parseTokens, tokenizeInput } from "./parser";
+
+const buildTable = (grammar: string, algorithm: keyof typeof algorithms = "lr0") => algorithms[algorithm].build(parseRawBnf(grammar)).table;
+
+// 状態ごとの行を "a:s2 b:s3 $: | S:1" のような文字列にする
+const rowsOf = (table: ParseTable) =>
+  Array.from({ length: table.getStateCount() }, (_, state) => {
+    const action = table.getActionSymbols().map((s) => `${s}:${table.getActions(state, s).map(formatParseAction).join("/")}`);
+    const goto = table.getGotoSymbols().map((s) => `${s}:${table.getGoto(state, s) ?? ""}`);
+    return `${action.join(" ")} | ${goto.join(" ")}`;
+  });
+
+describe("buildParseTable", () => {
+  it("LR(0)オートマトンからACTION表とGOTO表を作る", () => {
+    const table = buildTable("S -> 'a' S | 'b'");
+    expect(table.getProductions().map((p) => p.toString())).toEqual(["S' -> S $", "S -> 'a' S", "S -> 'b'"]);
+    expect(rowsOf(table)).toEqual([
+      "a:s2 b:s3 $: | S:1",
+      "a: b: $:acc | S:",
+      "a:s2 b:s3 $: | S:4",
+      "a:r2 b:r2 $:r2 | S:",
+      "a:r1 b:r1 $:r1 | S:",
+    ]);
+    expect(table.getConflicts()).toEqual([]);
+  });
+
+  it.each(["lr0", "slr1"] as const)("%s: constructor のようにObjectのプロパティと同じ名前の終端記号でも作れる", (algorithm) => {
+    const table = buildTable("S -> 'constructor' 'toString' | 'hasOwnProperty'", algorithm);
+    expect(table.getStateCount()).toBe(5);
+    expect(table.getConflicts()).toEqual([]);
+  });
+
+  it("シフト還元衝突を、衝突した規則と一緒に返す", () => {
+    const table = buildTable("E -> T '+' E | T\nT -> 'n'");
+    expect(table.getConflicts()).toEqual([
+      {
+        state: 2,
+        symbol: "+",
+        type: "shift/reduce",
+        actions: [
+          { type: "shift", state: 4 },
+          { type: "reduce", production: 2 },
+        ],
+        productions: ["E -> T"],
+      },
+    ]);
+  });
+
+  it("還元還元衝突を、先読み記号ごとに返す", () => {
+    const conflicts = buildTable("S -> A | B\nA -> 'x'\nB -> 'x'").getConflicts();
+    expect(conflicts.map((c) => `${c.type} ${c.symbol}`)).toEqual(["reduce/reduce x", "reduce/reduce $"]);
+    expect(conflicts[0].productions).toEqual(["A -> 'x'", "B -> 'x'"]);
+  });
+});
+
+describe("優先順位による衝突の解決", () => {
+  const OPERATORS = `%left '+'
+%left '*'
+%right '^'
+%nonassoc '<'
+E -> E '+' E | E '*' E | E '^' E | E '<' E | '-' E %prec '*' | 'n'`;
+
+  // 構文木を括弧で表す 例: ((n + n) + n)
+  const showTree = (node: ParseTreeNode): string =>
+    node.terminal ? node.symbol : node.children.length === 1 ? showTree(node.children[0]) : `(${node.children.map(showTree).join(" ")})`;
+  const parse = (input: string) => {
+    const result = parseTokens(buildTable(OPERATORS, "lalr1"), tokenizeInput(input));
+    return result.accepted ? showTree(result.tree) : null;
+  };
+
+  it("すべてのシフト還元衝突を解決し、衝突を残さない", () => {
+    const table = buildTable(OPERATORS, "lalr1");
+    expect(table.getConflicts()).toEqual([]);
+    expect(table.getResolvedConflicts()).toHaveLength(20);
+  });
+
+  it("強い方を選び、同じ強さなら結合性で決める", () => {
+    expect(parse("n + n * n")).toBe("(n + (n * n))");
+    expect(parse("n * n + n")).toBe("((n * n) + n)");
+    expect(parse("n + n + n")).toBe("((n + n) + n)");
+    expect(parse("n ^ n ^ n")).toBe("(n ^ (n ^ n))");
+  });
+
+  it("%prec を書いた規則は、その記号の優先順位を使う", () => {
+    expect(parse("- n * n")).toBe("((- n) * n)");
+    expect(parse("- n ^ n")).toBe("(- (n ^ n))");
+  });
+
+  it("%nonassoc の記号が続くとエラーにし、解決した理由を残す", () => {
+    expect(parse("n < n < n")).toBeNull();
+    const resolved = buildTable(OPERATORS, "lalr1")
+      .getResolvedConflicts()
+      .find((r) => r.chosen === null);
+    expect(resolved).toMatchObject({ symbol: "<", reason: "'<'（優先順位 4） と 規則 E -> E '<' E（優先順位 4） が同じ強さで、%nonassoc なのでエラー" });
+  });
+
+  it("優先順位のない記号の衝突は、衝突のまま残す", () => {
+    const table = buildTable("%left '+'\nE -> E '+' E | E '-' E | 'n'", "lalr1");
+    expect(table.getConflicts().map((c) => c.symbol)).toEqual(["-", "+", "-"]);
+  });
+});
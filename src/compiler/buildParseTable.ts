@@ -0,0 +1,95 @@
+import { BNFConcatenation, BNFSet, END_MARKER, quoteTerminal } from "./interface/bnf";
+import { LRItem } from "./interface/lrItem";
+import { LRItemSet } from "./interface/itemSet";
+import { ParseTable } from "./interface/parseTable";
+
+/**
+ * LRオートマトン（アイテム集合とgoto）からACTION表・GOTO表を作る
+ *
+ * - gotoの遷移記号が終端記号ならシフト、非終端記号ならGOTO
+ * - 完了項があれば還元 どの先読み記号に還元を置くかはgetReduceSymbolsで決める（LR(0)なら全終端記号）
+ * - 拡大文法の規則 S' -> S • $ があれば、END_MARKERで受理
+ *
+ * 衝突はParseTable側で、複数の動作が入ったセルとして検出する
+ * 優先順位の宣言があれば、シフト還元衝突をresolveByPrecedenceで解決してから返す
+ */
+export const buildParseTable = (
+  bnfSet: BNFSet,
+  itemSets: LRItemSet[],
+  startConcatenation: BNFConcatenation,
+  getReduceSymbols: (item: LRItem) => string[]
+): ParseTable => {
+  const productions = bnfSet.getProductions();
+  const productionIndex = new Map(productions.map((concat, index) => [concat, index]));
+  // 拡大文法の左辺 S' へのGOTOは起こらないので、列に入れない
+  const nonterminals = bnfSet.getNonterminals().filter((nt) => nt !== startConcatenation.getLeft());
+  const terminals = bnfSet.getTerminals();
+  const terminalSet = new Set(terminals);
+  const table = new ParseTable(terminals, nonterminals, productions, startConcatenation, itemSets.length);
+
+  itemSets.forEach((itemSet, state) => {
+    // シフトを先に入れておく（衝突時はセルの先頭がシフトになる）
+    itemSet.getGotos().forEach((nextState, symbol) => {
+      if (terminalSet.has(symbol)) {
+        table.addAction(state, symbol, { type: "shift", state: nextState });
+      } else {
+        table.setGoto(state, symbol, nextState);
+      }
+    });
+
+    itemSet.getItems().forEach((item) => {
+      if (item.getConcatenation() === startConcatenation && item.getDotNextElement()?.isEndMarker()) {
+        table.addAction(state, END_MARKER, { type: "accept" });
+        return;
+      }
+      if (!item.isComplete()) {
+        return;
+      }
+      const production = productionIndex.get(item.getConcatenation()) ?? -1;
+      getReduceSymbols(item).forEach((symbol) => {
+        table.addAction(state, symbol, { type: "reduce", production });
+      });
+    });
+  });
+
+  if (bnfSet.hasPrecedences()) {
+    resolveByPrecedence(bnfSet, table);
+  }
+  return table;
+};
+
+/**
+ * シフト1つと還元1つのセルを、yaccと同じ規則で解決する
+ * - 先読み記号と還元する規則の両方に優先順位があるときだけ解決する
+ * - 優先順位の高い方を選ぶ 同じなら先読み記号の結合性で、%leftは還元、%rightはシフト、%nonassocはエラー（空のセル）
+ * 還元が2つ以上あるセルや優先順位のない記号のセルは、衝突のまま残す
+ */
+const resolveByPrecedence = (bnfSet: BNFSet, table: ParseTable) => {
+  table.getConflicts().forEach(({ state, symbol, actions }) => {
+    const shift = actions.find((a) => a.type === "shift");
+    const reduce = actions.find((a) => a.type === "reduce");
+    if (actions.length !== 2 || shift === undefined || reduce === undefined) {
+      return;
+    }
+    const production = table.getProduction(reduce.production);
+    const symbolPrecedence = bnfSet.getPrecedence(symbol);
+    const productionPrecedence = bnfSet.getProductionPrecedence(production);
+    if (symbolPrecedence === null || productionPrecedence === null) {
+      return;
+    }
+
+    const rule = `規則 ${production.toString()}（優先順位 ${productionPrecedence.level}）`;
+    const lookahead = `${quoteTerminal(symbol)}（優先順位 ${symbolPrecedence.level}）`;
+    if (symbolPrecedence.level > productionPrecedence.level) {
+      table.resolveConflict(state, symbol, shift, `${lookahead} が ${rule} より強いのでシフト`);
+    } else if (symbolPrecedence.level < productionPrecedence.level) {
+      table.resolveConflict(state, symbol, reduce, `${rule} が ${lookahead} より強いので還元`);
+    } else if (symbolPrecedence.associativity === "left") {
+      table.resolveConflict(state, symbol, reduce, `${lookahead} と ${rule} が同じ強さで、%left なので還元`);
+    } else if (symbolPrecedence.associativity === "right") {
+      table.resolveConflict(state, symbol, shift, `${lookahead} と ${rule} が同じ強さで、%right なのでシフト`);
+    } else {
+      table.resolveConflict(state, symbol, null, `${lookahead} と ${rule} が同じ強さで、%nonassoc なのでエラー`);
+    }
+  });
+};
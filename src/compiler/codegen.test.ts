@@ -0,0 +1,67 @@
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import { generateParser } from "./codegen";
+import { parseRawBnf } from "./parseBnf";
+
+type GeneratedNode = { kind: string; terminal: boolean; children?: GeneratedNode[] };
+type GeneratedModule = {
+  parse: (tokens: Array<string | { kind: string; text: string }>) => GeneratedNode;
+  ParseError: new (...args: never[]) => Error & { position: number; token: string; expected: string[] };
+};
+
+// 生成したTypeScriptをJavaScriptに変換して読み込む
+const loadParser = (grammar: string): GeneratedModule => {
+  const bnfSet = parseRawBnf(grammar);
+  const source = generateParser(bnfSet, algorithms.lalr1.build(bnfSet), algorithms.lalr1.label);
+  const { outputText, diagnostics } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    reportDiagnostics: true,
+  });
+  expect(diagnostics).toEqual([]);
+  const exports = {} as GeneratedModule;
+  new Function("exports", outputText)(exports);
+  return exports;
+};
+
+const showTree = (node: GeneratedNode): string => (node.terminal ? node.kind : `(${[node.kind, ...(node.children ?? []).map(showTree)].join(" ")})`);
+
+const LIST = "S -> LIST\nLIST -> 'LPAR' SEQ 'RPAR' | 'NUM'\nSEQ -> LIST | SEQ 'COMMA' LIST";
+
+describe("generateParser", () => {
+  it("生成したパーサは、このプロジェクトのパーサと同じ構文木を返す", () => {
+    const { parse } = loadParser(LIST);
+    expect(showTree(parse(["LPAR", "NUM", "COMMA", { kind: "NUM", text: "2" }, "RPAR"]))).toBe(
+      "(S (LIST LPAR (SEQ (SEQ (LIST NUM)) COMMA (LIST NUM)) RPAR))"
+    );
+  });
+
+  it("受け付けられないトークンでは、位置と期待されるトークンを持ったParseErrorを投げる", () => {
+    const { parse, ParseError } = loadParser(LIST);
+    const error = (() => {
+      try {
+        parse(["LPAR", "NUM", "NUM"]);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(ParseError);
+    expect(error).toMatchObject({ position: 2, token: "NUM" });
+    // LALR(1)では LIST -> 'NUM' • の状態が併合されているので、$ でも還元する
+    expect((error as InstanceType<typeof ParseError>).expected.sort()).toEqual(["$", "COMMA", "RPAR"]);
+    expect(() => parse(["X"])).toThrow(/未知のトークン 'X'/);
+  });
+
+  it("constructor のようにObjectのプロパティと同じ名前のトークンも、表に無ければParseErrorにする", () => {
+    const { parse, ParseError } = loadParser("S -> 'a' | 'constructor' 'a'");
+    expect(showTree(parse(["constructor", "a"]))).toBe("(S constructor a)");
+    expect(() => parse(["a", "constructor"])).toThrow(ParseError);
+    expect(() => parse(["a", "toString"])).toThrow(/未知のトークン 'toString'/);
+  });
+
+  it("衝突のある表からは生成しない", () => {
+    const bnfSet = parseRawBnf("E -> E '+' E | 'n'");
+    expect(() => generateParser(bnfSet, algorithms.lalr1.build(bnfSet), "LALR(1)")).toThrow(/衝突/);
+  });
+});
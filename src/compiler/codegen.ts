@@ -0,0 +1,137 @@
+/**
+ * 構文解析表を埋め込んだ、単体で動くTypeScriptのパーサを生成する
+ * 生成したモジュールはこのプロジェクトに依存せず、parse(tokens) で型付きの構文木を返す
+ */
+
+import { BNFSet, END_MARKER } from "./interface/bnf";
+import { LRAutomaton } from "./algorithms";
+
+// 文字列リテラルの型の合併 例: "S" | "LIST"
+const unionOf = (names: string[]) => (names.length === 0 ? "never" : names.map((n) => JSON.stringify(n)).join(" | "));
+
+// 状態ごとの行を1行ずつ、状態番号のコメント付きで並べる
+const tableLiteral = (rows: object[]) => ["[", ...rows.map((row, state) => `  ${JSON.stringify(row)}, // ${state}`), "]"].join("\n");
+
+// 衝突があるとパーサの動作が決まらないので、生成しない
+export const generateParser = (bnfSet: BNFSet, automaton: LRAutomaton, algorithm: string): string => {
+  const { table } = automaton;
+  if (table.getConflicts().length > 0) {
+    throw new Error("構文解析表に衝突があるため、パーサを生成できません");
+  }
+
+  const terminals = table.getActionSymbols().filter((s) => s !== END_MARKER);
+  const nonterminals = table.getGotoSymbols();
+  const productions = table.getProductions();
+  const startSymbol = bnfSet.getStartSymbol();
+
+  // ACTION表 [状態][終端記号] = シフト先の状態 s / 還元する規則 r / 受理
+  const action = Array.from({ length: table.getStateCount() }, (_, state) => {
+    const row: { [symbol: string]: ["s" | "r", number] | ["a"] } = {};
+    table.getActionSymbols().forEach((symbol) => {
+      const a = table.getActions(state, symbol)[0];
+      if (a === undefined) return;
+      row[symbol] = a.type === "shift" ? ["s", a.state] : a.type === "reduce" ? ["r", a.production] : ["a"];
+    });
+    return row;
+  });
+  const goto = Array.from({ length: table.getStateCount() }, (_, state) => {
+    const row: { [symbol: string]: number } = {};
+    nonterminals.forEach((nt) => {
+      const to = table.getGoto(state, nt);
+      if (to !== undefined) row[nt] = to;
+    });
+    return row;
+  });
+
+  const lines: string[] = [];
+  lines.push(
+    `// lr-learning で生成した ${algorithm} パーサ このファイルは単体で動き、他のモジュールに依存しない`,
+    "",
+    "// 終端記号の種類",
+    `export type TerminalKind = ${unionOf(terminals)};`,
+    "// 非終端記号の種類（構文木の節の種類）",
+    `export type NonterminalKind = ${unionOf(nonterminals)};`,
+    "",
+    "export type Token = { kind: TerminalKind; text: string };",
+    "",
+    "export type TerminalNode = { kind: TerminalKind; terminal: true; token: Token };",
+    "// 非終端記号ごとに kind で区別できる節 productionは還元に使った生成規則の番号",
+    "export type NonterminalNode = {",
+    "  [K in NonterminalKind]: { kind: K; terminal: false; production: number; children: ParseNode[] };",
+    "}[NonterminalKind];",
+    "export type ParseNode = TerminalNode | NonterminalNode;",
+    "",
+    "export class ParseError extends Error {",
+    "  constructor(message: string, readonly position: number, readonly token: string, readonly expected: string[]) {",
+    "    super(message);",
+    '    this.name = "ParseError";',
+    "  }",
+    "}",
+    "",
+    "// 生成規則 [左辺, 右辺の記号の数]",
+    "const PRODUCTIONS: Array<[string, number]> = ["
+  );
+  productions.forEach((p, i) => lines.push(`  [${JSON.stringify(p.getLeft())}, ${p.getElements().length}], // ${i}: ${p.toString().replace(/\r?\n/g, "\\n")}`));
+  lines.push(
+    "];",
+    "",
+    `const END_MARKER = ${JSON.stringify(END_MARKER)};`,
+    "",
+    '// ACTION表 "s": シフトして状態へ、"r": 生成規則で還元、"a": 受理',
+    `const ACTION: Array<{ [symbol: string]: ["s" | "r", number] | ["a"] }> = ${tableLiteral(action)};`,
+    "",
+    "// GOTO表",
+    `const GOTO: Array<{ [nonterminal: string]: number }> = ${tableLiteral(goto)};`,
+    "",
+    `const TERMINALS = new Set<string>(${JSON.stringify(terminals)});`,
+    "",
+    "/**",
+    ` * トークン列を解析して、開始記号 ${startSymbol} の節を根とする構文木を返す`,
+    " * トークンは種類だけの文字列でも、{ kind, text } でもよい 解析できなければParseErrorを投げる",
+    " */",
+    "export const parse = (tokens: Array<TerminalKind | Token>): NonterminalNode => {",
+    '  const input: Token[] = tokens.map((t) => (typeof t === "string" ? { kind: t, text: t } : t));',
+    "  input.forEach((t, i) => {",
+    "    if (!TERMINALS.has(t.kind)) {",
+    "      throw new ParseError(`未知のトークン '${t.kind}' があります`, i, t.kind, Array.from(TERMINALS));",
+    "    }",
+    "  });",
+    "  const stateStack = [0];",
+    "  const nodeStack: ParseNode[] = [];",
+    "  let position = 0;",
+    "",
+    "  for (;;) {",
+    "    const state = stateStack[stateStack.length - 1];",
+    "    const token = position < input.length ? input[position].kind : END_MARKER;",
+    "    // constructor のようなトークンでObjectのプロパティを拾わないよう、表に書いたキーだけを見る",
+    "    const action = Object.prototype.hasOwnProperty.call(ACTION[state], token) ? ACTION[state][token] : undefined;",
+    "    if (action === undefined) {",
+    "      const expected = Object.keys(ACTION[state]);",
+    "      throw new ParseError(`${position} 番目のトークン '${token}' を受け付けられません（期待: ${expected.join(\", \")}）`, position, token, expected);",
+    "    }",
+    "",
+    "    switch (action[0]) {",
+    '      case "s":',
+    "        nodeStack.push({ kind: input[position].kind, terminal: true, token: input[position] });",
+    "        stateStack.push(action[1]);",
+    "        position++;",
+    "        break;",
+    '      case "r": {',
+    "        const [left, length] = PRODUCTIONS[action[1]];",
+    "        stateStack.splice(stateStack.length - length, length);",
+    "        const children = nodeStack.splice(nodeStack.length - length, length);",
+    "        nodeStack.push({ kind: left, terminal: false, production: action[1], children } as NonterminalNode);",
+    "        stateStack.push(GOTO[stateStack[stateStack.length - 1]][left]);",
+    "        break;",
+    "      }",
+    '      case "a":',
+    "        return nodeStack[0] as NonterminalNode;",
+    "      default:",
+    "        throw new Error(`ACTION表の状態 ${state} に不正な動作があります`);",
+    "    }",
+    "  }",
+    "};",
+    ""
+  );
+  return lines.join("\n");
+};
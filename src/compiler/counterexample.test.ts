@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import { explainConflict, findShortestPrefix, formatDerivation } from "./counterexample";
+import { parseRawBnf } from "./parseBnf";
+
+const explainFirst = (grammar: string) => {
+  const bnfSet = parseRawBnf(grammar);
+  const { table, itemSets } = algorithms.lalr1.build(bnfSet);
+  return explainConflict(bnfSet, itemSets, table, table.getConflicts()[0]);
+};
+
+describe("findShortestPrefix", () => {
+  it("状態0から各状態までの最短の記号列を返す", () => {
+    const { itemSets } = algorithms.lalr1.build(parseRawBnf("E -> E '+' E | 'n'"));
+    expect(itemSets.map((_, state) => findShortestPrefix(itemSets, state))).toEqual([[], ["E"], ["n"], ["E", "+"], ["E", "+", "E"]]);
+  });
+});
+
+describe("explainConflict", () => {
+  it("あいまいな文法では、接頭辞の例と、2通りの構文木を持つ統合反例を返す", () => {
+    const explanation = explainFirst("E -> E '+' E | 'n'");
+    expect(explanation.prefix).toEqual(["E", "+", "E"]);
+    expect(explanation.examplePrefix).toEqual(["n", "+", "n"]);
+    expect(explanation.items.map((i) => i.item)).toEqual(["[E -> E • '+' E, $/+]", "[E -> E '+' E •, $/+]"]);
+    expect(explanation.unifying?.input).toEqual(["n", "+", "n", "+", "n"]);
+    expect(explanation.unifying?.derivations.map((d) => `${d.action.type} ${formatDerivation(d.tree)}`)).toEqual([
+      "shift (E (E 'n') '+' (E (E 'n') '+' (E 'n')))",
+      "reduce (E (E (E 'n') '+' (E 'n')) '+' (E 'n'))",
+    ]);
+  });
+
+  it("あいまいでない文法の衝突では、統合反例はnullになる", () => {
+    const explanation = explainFirst("S -> A 'x' 'y' | B 'x' 'z'\nA -> 'a'\nB -> 'a'");
+    expect(explanation.items.map((i) => i.item)).toEqual(["[A -> 'a' •, x]", "[B -> 'a' •, x]"]);
+    expect(explanation.unifying).toBeNull();
+  });
+});
+
+describe("formatDerivation", () => {
+  it("空の導出は ε と書く", () => {
+    expect(formatDerivation({ symbol: "S", terminal: false, children: [{ symbol: "A", terminal: false, children: [] }, { symbol: "x", terminal: true, children: [] }] })).toBe(
+      "(S (A ε) 'x')"
+    );
+  });
+});
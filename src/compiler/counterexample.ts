@@ -0,0 +1,147 @@
+/**
+ * 構文解析表の衝突がなぜ起きるのかを、具体的な入力で説明する
+ *
+ * - 状態0からgotoをたどって衝突している状態に着く、最短の記号の列（接頭辞）
+ * - 衝突しているセルで別々の動作を選んでも、どちらも受理する入力（統合反例）
+ *   同じ入力に2通りの導出があるので、文法があいまいであることが分かる（BisonのCounterexamplesと同じ考え方）
+ *
+ * 統合反例は短い文から順に試して探すので、見つからなければnullになる（あいまいでない文法では必ずnull）
+ */
+
+import { BNFSet, END_MARKER, quoteTerminal } from "./interface/bnf";
+import { LRItemSet } from "./interface/itemSet";
+import { ParseAction, ParseConflict, ParseTable } from "./interface/parseTable";
+import { ParseTreeNode } from "./parser";
+import { enumerateSentences, getShortestYields } from "./sentenceGenerator";
+
+export type ConflictExplanation = {
+  prefix: string[]; // 状態0からその状態に着くまでの記号の列（最短）
+  examplePrefix: string[]; // prefixの非終端記号を、それぞれ最短の終端記号列に置き換えたもの
+  items: Array<{ action: ParseAction; item: string }>; // 衝突している動作と、その動作のもとになった項
+  unifying: {
+    input: string[];
+    derivations: Array<{ action: ParseAction; tree: ParseTreeNode }>; // 衝突しているセルで選んだ動作ごとの構文木
+  } | null;
+};
+
+// 1つの文を解析する手数の上限
+const MAX_STEPS = 10000;
+// 試す文の長さの上限は、接頭辞の例の長さにこの値を足したもの
+const EXTRA_LENGTH = 6;
+
+// 状態0からstateまでの最短の遷移の記号列 幅優先探索で、gotoを逆にたどって組み立てる
+export const findShortestPrefix = (itemSets: LRItemSet[], state: number): string[] | null => {
+  const parent = new Map<number, { from: number; symbol: string }>();
+  const visited = new Set([0]);
+  const queue = [0];
+  for (let i = 0; i < queue.length && !visited.has(state); i++) {
+    itemSets[queue[i]].getGotos().forEach((to, symbol) => {
+      if (visited.has(to)) return;
+      visited.add(to);
+      parent.set(to, { from: queue[i], symbol });
+      queue.push(to);
+    });
+  }
+  if (!visited.has(state)) {
+    return null;
+  }
+  const symbols: string[] = [];
+  for (let edge = parent.get(state); edge !== undefined; edge = parent.get(edge.from)) {
+    symbols.unshift(edge.symbol);
+  }
+  return symbols;
+};
+
+/**
+ * 衝突しているセル (state, symbol) に最初に来たときだけ forced を選び、それ以外は各セルの先頭の動作で解析する
+ * 受理すれば構文木を返す そのセルに来なかったか、受理しなければnull
+ */
+const parseWithChoice = (table: ParseTable, tokens: string[], conflict: ParseConflict, forced: ParseAction): ParseTreeNode | null => {
+  const input = [...tokens, END_MARKER];
+  const stateStack = [0];
+  const nodeStack: ParseTreeNode[] = [];
+  let position = 0;
+  let hit = false;
+
+  for (let steps = 0; steps < MAX_STEPS; steps++) {
+    const state = stateStack[stateStack.length - 1];
+    const token = input[position];
+    let action = table.getActions(state, token)[0];
+    if (!hit && state === conflict.state && token === conflict.symbol) {
+      hit = true;
+      action = forced;
+    }
+    if (action === undefined) {
+      return null;
+    }
+    switch (action.type) {
+      case "shift":
+        stateStack.push(action.state);
+        nodeStack.push({ symbol: token, terminal: true, children: [] });
+        position++;
+        break;
+      case "reduce": {
+        const production = table.getProduction(action.production);
+        const length = production.getElements().length;
+        stateStack.splice(stateStack.length - length, length);
+        const children = nodeStack.splice(nodeStack.length - length, length);
+        const next = table.getGoto(stateStack[stateStack.length - 1], production.getLeft());
+        if (next === undefined) {
+          return null;
+        }
+        stateStack.push(next);
+        nodeStack.push({ symbol: production.getLeft(), terminal: false, children });
+        break;
+      }
+      case "accept":
+        return hit ? nodeStack[0] : null;
+    }
+  }
+  return null;
+};
+
+export const explainConflict = (bnfSet: BNFSet, itemSets: LRItemSet[], table: ParseTable, conflict: ParseConflict): ConflictExplanation => {
+  const prefix = findShortestPrefix(itemSets, conflict.state) ?? [];
+  const yields = getShortestYields(bnfSet);
+  const nonterminals = new Set(table.getGotoSymbols());
+  const examplePrefix = prefix.flatMap((symbol) => (nonterminals.has(symbol) ? (yields.get(symbol) ?? [symbol]) : [symbol]));
+
+  // シフトは衝突している記号がドットの直後にある項、還元はその規則の完了項から来ている
+  const items = conflict.actions.flatMap((action) =>
+    itemSets[conflict.state]
+      .getItems()
+      .filter((item) =>
+        action.type === "shift"
+          ? item.getDotNextElement()?.getValue() === conflict.symbol
+          : action.type === "reduce"
+            ? item.isComplete() && item.getConcatenation() === table.getProduction(action.production)
+            : item.getConcatenation() === table.getStartConcatenation()
+      )
+      .map((item) => ({ action, item: item.toString() }))
+  );
+
+  let unifying: ConflictExplanation["unifying"] = null;
+  const { sentences } = enumerateSentences(bnfSet, examplePrefix.length + EXTRA_LENGTH);
+  for (const sentence of sentences) {
+    const [first, ...others] = conflict.actions;
+    const firstTree = parseWithChoice(table, sentence, conflict, first);
+    if (firstTree === null) continue;
+    const other = others.flatMap((action) => {
+      const tree = parseWithChoice(table, sentence, conflict, action);
+      return tree === null ? [] : [{ action, tree }];
+    })[0];
+    if (other !== undefined) {
+      unifying = { input: sentence, derivations: [{ action: first, tree: firstTree }, other] };
+      break;
+    }
+  }
+
+  return { prefix, examplePrefix, items, unifying };
+};
+
+// 構文木を括弧の入れ子で表す 例: (E (E 'n') '+' (E 'n'))
+export const formatDerivation = (node: ParseTreeNode): string => {
+  if (node.terminal) return quoteTerminal(node.symbol);
+  if (node.children.length === 0) return `(${node.symbol} ε)`;
+  return `(${node.symbol} ${node.children.map(formatDerivation).join(" ")})`;
+};
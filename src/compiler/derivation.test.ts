@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import { DerivationOrder, getDerivation } from "./derivation";
+import { parseRawBnf } from "./parseBnf";
+import { parseTokens, tokenizeInput } from "./parser";
+
+const derive = (grammar: string, input: string, order: DerivationOrder) => {
+  const { table, itemSets } = algorithms.lalr1.build(parseRawBnf(grammar));
+  return getDerivation(table, itemSets, parseTokens(table, tokenizeInput(input)), order);
+};
+
+const EXPR = "E -> E '+' T | T\nT -> 'n'";
+
+describe("getDerivation", () => {
+  it("最右導出は、還元を逆の順にたどった文形式の列になる", () => {
+    const forms = derive(EXPR, "n + n", "rightmost");
+    expect(forms?.map((f) => f.symbols.join(" "))).toEqual(["E", "E + T", "E + n", "T + n", "n + n"]);
+    expect(forms?.[1].expanded).toEqual({
+      start: 0,
+      length: 3,
+      left: "E",
+      reduction: { step: 6, state: 5, production: 1, item: "[E -> E '+' T •, $/+]" },
+    });
+  });
+
+  it("最左導出は、同じ構文木をいちばん左の非終端記号から展開する", () => {
+    const forms = derive(EXPR, "n + n", "leftmost");
+    expect(forms?.map((f) => f.symbols.join(" "))).toEqual(["E", "E + T", "T + T", "n + T", "n + n"]);
+    expect(forms?.map((f) => f.expanded?.reduction.step)).toEqual([undefined, 6, 2, 1, 5]);
+  });
+
+  it("ε の規則の展開は、長さ0の部分として返す", () => {
+    const forms = derive("S -> 'a' L\nL -> ε", "a", "rightmost");
+    expect(forms?.map((f) => f.symbols.join(" "))).toEqual(["S", "a L", "a"]);
+    expect(forms?.[2].expanded).toMatchObject({ start: 1, length: 0, left: "L" });
+  });
+
+  it("受理しなかった解析ではnullを返す", () => {
+    expect(derive(EXPR, "n +", "rightmost")).toBeNull();
+  });
+});
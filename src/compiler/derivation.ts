@@ -0,0 +1,91 @@
+/**
+ * 受理した入力の導出を、文形式の列として求める
+ *
+ * LR法の還元を逆の順にたどると、開始記号から入力までの最右導出になる
+ *   還元の直前の文形式 = 記号スタック + 残りの入力 で、還元した右辺（ハンドル）は記号スタックの末尾にある
+ * 還元の手順から構文木を組み立て直し、最右導出（還元の逆順）と最左導出（同じ構文木を左から展開）の両方を作る
+ */
+
+import { LRItemSet } from "./interface/itemSet";
+import { ParseTable } from "./interface/parseTable";
+import { ParseResult } from "./parser";
+
+export type DerivationOrder = "rightmost" | "leftmost";
+
+// その展開に対応する還元
+export type Reduction = {
+  step: number; // 構文解析の何手目の還元か
+  state: number; // 還元したときの状態（記号スタックの先頭の状態）
+  production: number; // 生成規則の番号
+  item: string; // その状態の完了項 例: E -> E '+' T •
+};
+
+export type DerivationForm = {
+  symbols: string[];
+  // 前の文形式の非終端記号を展開してできた部分 最初の文形式（開始記号だけ）はnull
+  expanded: { start: number; length: number; left: string; reduction: Reduction } | null;
+};
+
+type DerivationNode = {
+  symbol: string;
+  children: DerivationNode[];
+  reduction: Reduction | null; // 終端記号はnull
+};
+
+/**
+ * 還元の手順から構文木を組み立てる
+ * エラーから回復した解析は、error の節が導出に現れないので扱わない（null）
+ */
+const buildDerivationTree = (table: ParseTable, itemSets: LRItemSet[], result: ParseResult): DerivationNode | null => {
+  if (!result.accepted || result.errors.length > 0) {
+    return null;
+  }
+  const nodeStack: DerivationNode[] = [];
+  result.steps.forEach((step, i) => {
+    const action = step.action;
+    if (action?.type === "shift") {
+      nodeStack.push({ symbol: step.input[0], children: [], reduction: null });
+    } else if (action?.type === "reduce") {
+      const production = table.getProduction(action.production);
+      const state = step.stateStack[step.stateStack.length - 1];
+      // 還元した状態には、その規則の完了項がある（見つからなければ規則から表記を作る）
+      const item = itemSets[state]
+        ?.getItems()
+        .find((item) => item.isComplete() && item.getConcatenation() === production);
+      const length = production.getElements().length;
+      const children = nodeStack.splice(nodeStack.length - length, length);
+      nodeStack.push({
+        symbol: production.getLeft(),
+        children,
+        reduction: { step: i, state, production: action.production, item: item?.toString() ?? `${production.toString()} •` },
+      });
+    }
+  });
+  return nodeStack.length === 1 ? nodeStack[0] : null;
+};
+
+/**
+ * 受理した解析の導出を、開始記号から入力までの文形式の列で返す 受理していない・回復した解析ならnull
+ * rightmost では毎回いちばん右の非終端記号を、leftmost ではいちばん左の非終端記号を展開する
+ */
+export const getDerivation = (table: ParseTable, itemSets: LRItemSet[], result: ParseResult, order: DerivationOrder): DerivationForm[] | null => {
+  const root = buildDerivationTree(table, itemSets, result);
+  if (root === null) {
+    return null;
+  }
+  let form: DerivationNode[] = [root];
+  const forms: DerivationForm[] = [{ symbols: [root.symbol], expanded: null }];
+  const isNonterminal = (node: DerivationNode) => node.reduction !== null;
+  for (;;) {
+    const index = order === "rightmost" ? form.findLastIndex(isNonterminal) : form.findIndex(isNonterminal);
+    // 見つからなければ index は -1 で、node は undefined になる
+    const node: DerivationNode | undefined = form[index];
+    if (node === undefined || node.reduction === null) break;
+    form = [...form.slice(0, index), ...node.children, ...form.slice(index + 1)];
+    forms.push({
+      symbols: form.map((n) => n.symbol),
+      expanded: { start: index, length: node.children.length, left: node.symbol, reduction: node.reduction },
+    });
+  }
+  return forms;
+};
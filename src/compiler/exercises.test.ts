@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+
+import { BUILTIN_GRAMMARS, checkExerciseAnswer, ExerciseKind, generateExercise } from "./exercises";
+
+// 常に同じ問題を作るための乱数
+const first = () => 0;
+
+const generate = (grammar: string, kind: ExerciseKind) => {
+  const exercise = generateExercise(grammar, kind, first);
+  if (exercise === null) throw new Error(`${kind} の問題を作れません`);
+  return exercise;
+};
+
+describe("generateExercise", () => {
+  it("組み込みの文法から、すべての種類の問題を作れる", () => {
+    BUILTIN_GRAMMARS.forEach(({ text }) => {
+      expect(generateExercise(text, "goto", first)).not.toBeNull();
+      expect(generateExercise(text, "actionRow", first)).not.toBeNull();
+      expect(generateExercise(text, "isLR0", first)).not.toBeNull();
+    });
+  });
+
+  it("LR(0)文法かどうかを答えにする", () => {
+    expect(generateExercise("S -> 'a' S 'b' | 'c'", "isLR0", first)?.answer).toEqual(["はい"]);
+    expect(generateExercise("E -> T '+' E | T\nT -> 'n'", "isLR0", first)?.answer).toEqual(["いいえ"]);
+  });
+
+  it("クオーテーションを含む終端記号を、構文定義と同じ書き方で表す", () => {
+    const exercise = generate("S -> 'it\\'s' S | 'a\\\\b'", "actionRow");
+    expect(exercise.answer).toEqual(["'it\\'s' s2", "'a\\\\b' s3"]);
+    expect(checkExerciseAnswer(exercise, exercise.answer.join("\n")).correct).toBe(true);
+  });
+
+  it("空白を含む終端記号のセルを、クオーテーションの中で区切らずに採点する", () => {
+    const exercise = generate("S -> 'else if' S | 'b'", "actionRow");
+    expect(exercise.answer).toEqual(["'else if' s2", "'b' s3"]);
+    expect(checkExerciseAnswer(exercise, "'else if'  S2\nb s3").correct).toBe(true);
+    expect(checkExerciseAnswer(exercise, "'else if' s3\n'b' s3")).toEqual({ correct: false, missing: ["'else if' s2"], extra: ["'else if' s3"] });
+  });
+
+  it("優先順位の宣言で衝突を解決した文法も、LR(0)文法ではない", () => {
+    expect(generateExercise("%left '+'\nE -> E '+' E | 'n'", "isLR0", first)?.answer).toEqual(["いいえ"]);
+  });
+});
+
+describe("checkExerciseAnswer", () => {
+  it("項の表記の違い（空白、ドットの . と •）を無視して採点する", () => {
+    const exercise = generate("S -> 'a' S | 'b'", "closure");
+    const answer = exercise.answer.map((a) => a.replace("•", ".").replace(/ /g, "  ")).join("\n");
+    expect(checkExerciseAnswer(exercise, answer)).toEqual({ correct: true, missing: [], extra: [] });
+  });
+
+  it("足りないものと余分なものを返す", () => {
+    const exercise = generate("S -> 'a' S | 'b'", "isLR0");
+    expect(checkExerciseAnswer(exercise, "no")).toEqual({ correct: false, missing: ["はい"], extra: ["no"] });
+    expect(checkExerciseAnswer(exercise, "yes")).toEqual({ correct: true, missing: [], extra: [] });
+  });
+});
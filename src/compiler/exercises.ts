@@ -0,0 +1,154 @@
+/**
+ * 練習問題 文法から作ったLR(0)の状態と構文解析表をもとに問題を作り、入力された答えを採点する
+ *
+ * - closure: カーネルの項から閉包を求める
+ * - goto: goto(I, X) の行き先の状態を答える
+ * - actionRow: ACTION表の1行を埋める
+ * - isLR0: 文法がLR(0)かを答える
+ *
+ * 答えは1行に1つずつ書き、正解の集合と行ごとに比べて、足りないものと余分なものを返す
+ */
+
+import { BNFSet, END_MARKER, quoteTerminal } from "./interface/bnf";
+import { formatParseAction } from "./interface/parseTable";
+import { algorithms } from "./algorithms";
+import { parseRawBnf } from "./parseBnf";
+
+export type ExerciseKind = "closure" | "goto" | "actionRow" | "isLR0";
+
+export type Exercise = {
+  kind: ExerciseKind;
+  question: string;
+  context: string[]; // 問題を解くのに必要な情報（カーネルの項や生成規則の一覧など）
+  format: string; // 答えの書き方の説明
+  answer: string[]; // 正解（表示用の表記）
+};
+
+export type ExerciseFeedback = {
+  correct: boolean;
+  missing: string[]; // 正解にあって答えにないもの
+  extra: string[]; // 答えにあって正解にないもの
+};
+
+// 組み込みの文法 練習用に、LR(0)のもの・そうでないもの・εを含むものを用意する
+export const BUILTIN_GRAMMARS: Array<{ name: string; text: string }> = [
+  { name: "リスト", text: "S -> LIST 'EoF'\nLIST -> 'LPAR' SEQ 'RPAR' | 'NUM'\nSEQ -> LIST\nSEQ -> SEQ 'COMMA' LIST" },
+  { name: "足し算", text: "S -> E 'EoF'\nE -> E '+' T | T\nT -> 'n' | '(' E ')'" },
+  { name: "四則演算", text: "E -> E '+' T | T\nT -> T '*' F | F\nF -> 'n' | '(' E ')'" },
+  { name: "括弧の列（ε）", text: "S -> S '(' S ')' | ε" },
+  { name: "代入文", text: "S -> L '=' R | R\nL -> '*' R | 'id'\nR -> L" },
+];
+
+export const EXERCISE_KINDS: Array<{ value: ExerciseKind; label: string }> = [
+  { value: "closure", label: "閉包を求める" },
+  { value: "goto", label: "goto の行き先" },
+  { value: "actionRow", label: "ACTION表の1行" },
+  { value: "isLR0", label: "LR(0)文法か" },
+];
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+/**
+ * 問題を作る 構文定義に誤りがあればBNFParseErrorを投げる
+ * その種類の問題が作れない文法（閉包で項が増える状態がない、など）ではnull
+ */
+export const generateExercise = (grammar: string, kind: ExerciseKind, random: () => number = Math.random): Exercise | null => {
+  const bnfSet: BNFSet = parseRawBnf(grammar);
+  const { itemSets, table } = algorithms.lr0.build(bnfSet);
+  const productions = table.getProductions().map((p, i) => `${i}: ${p.toString()}`);
+
+  switch (kind) {
+    case "closure": {
+      // 閉包で項が増える状態を選ぶ
+      const candidates = itemSets.filter((s) => s.getItems().length > s.getKernelItems().length);
+      if (candidates.length === 0) return null;
+      const itemSet = pick(candidates, random);
+      return {
+        kind,
+        question: "次のカーネルの項の集合の閉包を求めてください（カーネルの項も含めます）。",
+        context: itemSet.getKernelItems().map((item) => item.toString()),
+        format: "項を1行に1つずつ書きます。例: E -> E • '+' T   ドットは • か . で、終端記号はクオーテーションで囲みます。",
+        answer: itemSet.getItems().map((item) => item.toString()),
+      };
+    }
+    case "goto": {
+      const candidates = itemSets.flatMap((s, state) => Array.from(s.getGotos()).map(([symbol, to]) => ({ state, symbol, to })));
+      if (candidates.length === 0) return null;
+      const { state, symbol, to } = pick(candidates, random);
+      const isTerminal = table.getActionSymbols().includes(symbol);
+      return {
+        kind,
+        question: `goto(I${state}, ${isTerminal ? quoteTerminal(symbol) : symbol}) はどの状態になりますか。`,
+        context: itemSets.map((s, i) => `I${i}: ${s.getKernelItems().map((item) => item.toString()).join(" ; ")}`),
+        format: "状態の番号を書きます。例: 3   （上の一覧は各状態のカーネルの項です）",
+        answer: [String(to)],
+      };
+    }
+    case "actionRow": {
+      const state = Math.floor(random() * table.getStateCount());
+      return {
+        kind,
+        question: `ACTION表の状態 ${state} の行を埋めてください。`,
+        context: [`I${state}: ${itemSets[state].getItems().map((item) => item.toString()).join(" ; ")}`, ...productions],
+        format: "動作のあるセルを1行に1つずつ「記号 動作」で書きます。例: 'NUM' s3 / $ r2 / $ acc   衝突しているセルは動作ごとに1行ずつ書きます。",
+        answer: table
+          .getActionSymbols()
+          .flatMap((symbol) =>
+            table.getActions(state, symbol).map((action) => `${symbol === END_MARKER ? symbol : quoteTerminal(symbol)} ${formatParseAction(action)}`)
+          ),
+      };
+    }
+    case "isLR0": {
+      // 優先順位の宣言で解決した衝突も、LR(0)文法でないことに変わりはないので数える
+      const conflicts = [...table.getConflicts(), ...table.getResolvedConflicts()];
+      return {
+        kind,
+        question: "この文法はLR(0)文法ですか（LR(0)の構文解析表に衝突がありませんか）。",
+        context: productions,
+        format: "はい か いいえ で答えます（yes / no でもよい）。",
+        answer: [conflicts.length === 0 ? "はい" : "いいえ"],
+      };
+    }
+  }
+};
+
+// クオーテーションで囲んだ終端記号 中に空白やエスケープした ' があっても1つの字句にする
+const QUOTED_TERMINAL = String.raw`'(?:\\.|[^'\\])*'`;
+
+// 項の表記をそろえる 空白の有無、ドットの . と •、ε の有無の違いを無視する
+const normalizeItem = (text: string) =>
+  (text.match(new RegExp(String.raw`${QUOTED_TERMINAL}|->|•|\.|[^\s'•.\->]+|\S`, "g")) ?? [])
+    .map((token) => (token === "." ? "•" : token))
+    .filter((token) => token !== "ε")
+    .join(" ");
+
+// ACTION表のセルの表記をそろえる 記号のクオーテーションと、動作の大文字小文字を無視する
+const normalizeCell = (text: string) => {
+  const [symbol = "", action = ""] = text.match(new RegExp(String.raw`${QUOTED_TERMINAL}|\S+`, "g")) ?? [];
+  const unquoted = symbol.length >= 2 && symbol.startsWith("'") && symbol.endsWith("'") ? symbol.slice(1, -1) : symbol;
+  return `${unquoted} ${action.toLowerCase() === "accept" ? "acc" : action.toLowerCase()}`;
+};
+
+const normalizeYesNo = (text: string) => (/^(はい|yes|y)$/i.test(text.trim()) ? "はい" : /^(いいえ|no|n)$/i.test(text.trim()) ? "いいえ" : text.trim());
+
+const NORMALIZERS: { [kind in ExerciseKind]: (text: string) => string } = {
+  closure: normalizeItem,
+  goto: (text) => text.trim().replace(/^I/i, ""),
+  actionRow: normalizeCell,
+  isLR0: normalizeYesNo,
+};
+
+// 答えを採点する 空行は無視し、同じ答えを2回書いても1つとして数える
+export const checkExerciseAnswer = (exercise: Exercise, input: string): ExerciseFeedback => {
+  const normalize = NORMALIZERS[exercise.kind];
+  const expected = new Map(exercise.answer.map((a) => [normalize(a), a]));
+  const given = new Map(
+    input
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => [normalize(line), line.trim()])
+  );
+  const missing = Array.from(expected).flatMap(([key, a]) => (given.has(key) ? [] : [a]));
+  const extra = Array.from(given).flatMap(([key, line]) => (expected.has(key) ? [] : [line]));
+  return { correct: missing.length === 0 && extra.length === 0, missing, extra };
+};
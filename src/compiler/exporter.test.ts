@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+
+import { ParseTable } from "./interface/parseTable";
+import { algorithms } from "./algorithms";
+import { AutomatonJsonError, exportJson, exportLatex, importJson } from "./exporter";
+import { parseRawBnf } from "./parseBnf";
+
+// 表のすべてのセルを比べられる形にする
+const tableCells = (table: ParseTable) => {
+  const states = Array.from({ length: table.getStateCount() }, (_, state) => state);
+  return {
+    productions: table.getProductions().map((p) => p.toString()),
+    action: states.map((state) => table.getActionSymbols().map((symbol) => table.getActions(state, symbol))),
+    goto: states.map((state) => table.getGotoSymbols().map((symbol) => table.getGoto(state, symbol))),
+    conflicts: table.getConflicts(),
+    resolved: table.getResolvedConflicts(),
+  };
+};
+
+// 優先順位の宣言・%prec・%start をすべて使う文法
+const GRAMMAR = `%start PROGRAM
+%left '+' '-'
+%left '*'
+%right '^'
+%nonassoc '<'
+UNUSED -> 'u'
+PROGRAM -> E
+E -> E '+' E { $$ = $1 + $3 } | E '-' E { $$ = $1 - $3 } | E '*' E | E '^' E | E '<' E
+E -> '-' E %prec '*' { $$ = -$2 }
+E -> 'n' { $$ = Number($1) }`;
+
+describe("exportJson / importJson", () => {
+  it.each(["lr0", "slr1", "lalr1", "lr1"] as const)("読み込んだ文法から %s の表を作り直すと、元の表と同じになる", (name) => {
+    const bnfSet = parseRawBnf(GRAMMAR);
+    const automaton = algorithms[name].build(bnfSet);
+    const imported = importJson(exportJson(bnfSet, automaton, algorithms[name].label));
+    const rebuilt = algorithms[name].build(imported.bnfSet);
+
+    expect(imported.bnfSet.getStartSymbol()).toBe("PROGRAM");
+    expect(imported.bnfSet.getPrecedenceLevels()).toEqual(bnfSet.getPrecedenceLevels());
+    expect(tableCells(rebuilt.table)).toEqual(tableCells(automaton.table));
+    expect(tableCells(imported.automaton.table)).toEqual(tableCells(automaton.table));
+  });
+
+  it("優先順位で衝突を解決した表は、読み込み直しても衝突が残らない", () => {
+    const bnfSet = parseRawBnf(GRAMMAR);
+    const automaton = algorithms.lalr1.build(bnfSet);
+    expect(automaton.table.getResolvedConflicts().length).toBeGreaterThan(0);
+
+    const imported = importJson(exportJson(bnfSet, automaton, algorithms.lalr1.label));
+    const rebuilt = algorithms.lalr1.build(imported.bnfSet);
+    expect(rebuilt.table.getConflicts()).toEqual([]);
+    expect(rebuilt.table.getResolvedConflicts()).toEqual(automaton.table.getResolvedConflicts());
+  });
+
+  it("選択肢ごとの動作を読み込み直せる", () => {
+    const bnfSet = parseRawBnf(GRAMMAR);
+    const imported = importJson(exportJson(bnfSet, algorithms.lalr1.build(bnfSet), algorithms.lalr1.label));
+    expect(imported.bnfSet.getProductions().map((p) => p.getAction()?.code ?? null)).toEqual(
+      bnfSet.getProductions().map((p) => p.getAction()?.code ?? null)
+    );
+  });
+});
+
+describe("exportJson の省略", () => {
+  it("%token / %skip の宣言や解決した衝突が無ければ、tokens と resolved を書き出さない", () => {
+    const bnfSet = parseRawBnf("S -> 'a' S | 'b'");
+    const json = JSON.parse(exportJson(bnfSet, algorithms.lalr1.build(bnfSet), algorithms.lalr1.label));
+    expect(json).not.toHaveProperty("tokens");
+    expect(json.table).not.toHaveProperty("resolved");
+  });
+
+  it("%token の宣言があれば tokens に書き出し、読み込み直せる", () => {
+    const bnfSet = parseRawBnf("%token NUM /[0-9]+/\n%skip /\\s+/\nS -> NUM S | NUM");
+    const imported = importJson(exportJson(bnfSet, algorithms.lalr1.build(bnfSet), algorithms.lalr1.label));
+    expect(imported.bnfSet.getTokenSpecs()).toEqual(bnfSet.getTokenSpecs());
+  });
+});
+
+describe("exportLatex", () => {
+  it("GOTOの列が無ければ、GOTOの見出しと列の指定を出さない", () => {
+    const [production] = parseRawBnf("S -> 'a'").getProductions();
+    const table = new ParseTable(["a"], [], [production], production, 1);
+    table.addAction(0, "a", { type: "shift", state: 0 });
+    const [begin, , header] = exportLatex(table).split("\n");
+    expect(begin).toBe("\\begin{tabular}{|c|cc|}");
+    expect(header).toBe("状態 & \\multicolumn{2}{c|}{ACTION} \\\\");
+  });
+});
+
+describe("importJson の検査", () => {
+  // 書き出したJSONの一部を書き換えて読み込む
+  const importEdited = (edit: (json: Record<string, any>) => void) => {
+    const bnfSet = parseRawBnf("S -> 'a' S | 'b'");
+    const json = JSON.parse(exportJson(bnfSet, algorithms.lalr1.build(bnfSet), algorithms.lalr1.label));
+    edit(json);
+    return () => importJson(JSON.stringify(json));
+  };
+  const problemsOf = (run: () => unknown) => {
+    try {
+      run();
+    } catch (err) {
+      expect(err).toBeInstanceOf(AutomatonJsonError);
+      return (err as AutomatonJsonError).problems;
+    }
+    throw new Error("エラーになりませんでした");
+  };
+
+  it("JSONとして読めなければ、そのことを返す", () => {
+    expect(problemsOf(() => importJson("{"))[0]).toMatch(/^JSONとして読めません/);
+  });
+
+  it("形式や版が違えば、対応していない形式とする", () => {
+    expect(problemsOf(importEdited((json) => (json.version = 2)))[0]).toMatch(/^対応していない形式のJSONです/);
+  });
+
+  it("形の合わないフィールドを、場所つきでまとめて返す", () => {
+    const problems = problemsOf(
+      importEdited((json) => {
+        json.grammar[1].alternatives[0][0].type = "token";
+        json.tokens = [{ name: "NUM", pattern: 1 }];
+      })
+    );
+    expect(problems).toEqual([
+      'grammar[1].alternatives[0][0].type: "terminal" か "nonterminal"である必要があります',
+      "tokens[0].pattern: 文字列である必要があります",
+      "tokens[0].isRegex: 真偽値である必要があります",
+      "tokens[0].range: null か { line, column, endLine, endColumn }である必要があります",
+    ]);
+  });
+
+  it("範囲外の生成規則・状態の番号や、表に無い記号を返す", () => {
+    let cell = 0;
+    const problems = problemsOf(
+      importEdited((json) => {
+        json.states[0].kernel[0].production = 99;
+        json.states[0].gotos.S = 99;
+        cell = json.table.action.push({ state: 0, symbol: "x", actions: [{ type: "reduce", production: 99 }] }) - 1;
+      })
+    );
+    expect(problems).toEqual([
+      "states[0].kernel[0].production: 生成規則の番号である必要があります",
+      "states[0].gotos.S: 状態の番号である必要があります",
+      `table.action[${cell}].symbol: 表の列にある記号である必要があります`,
+      `table.action[${cell}].actions[0].production: 生成規則の番号である必要があります`,
+    ]);
+  });
+});
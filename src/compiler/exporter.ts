@@ -0,0 +1,479 @@
+/**
+ * 文法・オートマトン・構文解析表を、講義資料やレポートに貼れる形式で書き出す
+ *
+ * - Graphviz DOT: 状態遷移図
+ * - JSON: すべて（読み込み直して再計算せずに表示できる）
+ * - Markdown / LaTeX: ACTION表・GOTO表
+ */
+
+import { Associativity, BNF, BNFConcatenation, BNFElement, BNFSet, END_MARKER, TokenSpec, quoteTerminal } from "./interface/bnf";
+import { LRItem } from "./interface/lrItem";
+import { LRItemSet } from "./interface/itemSet";
+import { ParseAction, ParseTable, ResolvedConflict, formatParseAction } from "./interface/parseTable";
+import { LRAutomaton } from "./algorithms";
+
+/**
+ * JSONの形式（version 1）
+ *
+ * {
+ *   "format": "lr-learning/automaton",
+ *   "version": 1,
+ *   "algorithm": "LR(0)",                       // 構築法の表示名
+ *   "grammar": [                                // BNFSetのBNFを定義順に
+ *     { "left": "LIST", "line": 1, "generatedFrom": null, "augmented": false,  // augmentedは拡大文法の S' -> S $ の規則
+ *       "alternatives": [[{ "type": "terminal", "value": "NUM" }], ...],
+ *       "precedenceSymbols": [null, "UMINUS", ...],                       // 選択肢ごとの %prec の記号（無ければ省略）
+ *       "actions": [null, "$$ = $1 + $3", ...] }                          // 選択肢ごとの { } の動作の中身（無ければ省略）
+ *   ],
+ *   "tokens": [{ "name": "NUM", "pattern": "[0-9]+", "isRegex": true, "range": null }],  // %token / %skip の宣言（無ければ省略）
+ *   "start": "LIST",                            // 開始記号（%start で指定したもの、なければ最初の規則の左辺）
+ *   "precedences": [{ "associativity": "left", "symbols": ["+", "-"] }],  // %left / %right / %nonassoc を弱い順に（無ければ省略）
+ *   "startProduction": 0,                       // 受理の基準となる拡大文法の規則の番号
+ *   "states": [                                 // 状態番号の順
+ *     { "kernel": [{ "production": 0, "dot": 0, "lookaheads": [] }],
+ *       "items":  [{ "production": 0, "dot": 0, "lookaheads": [] }, ...],  // クロージャ後の全項（kernelを含む）
+ *       "gotos":  { "LIST": 1, "NUM": 3 } }
+ *   ],
+ *   "table": {
+ *     "terminals": ["LPAR", ...],               // END_MARKERは含めない
+ *     "nonterminals": ["S", ...],
+ *     "action": [{ "state": 0, "symbol": "NUM", "actions": [{ "type": "shift", "state": 3 }] }],
+ *     "goto": [{ "state": 0, "symbol": "LIST", "to": 1 }],
+ *     "resolved": [{ "state": 5, "symbol": "+", "actions": [...], "chosen": { "type": "reduce", "production": 2 }, "reason": "..." }]
+ *                                               // 優先順位の宣言で解決した衝突（無ければ省略）
+ *   }
+ * }
+ *
+ * 生成規則の番号は、grammarの各BNFのalternativesを順に並べたときの位置（BNFSet.getProductions()と同じ）
+ * 読み込んだ文法から表を作り直しても同じ表になるように、優先順位の宣言と %prec も保存する
+ * 動作は中身だけを保存し、読み込んだ動作には構文定義の中の位置がない
+ */
+export type AutomatonJson = {
+  format: "lr-learning/automaton";
+  version: 1;
+  algorithm: string;
+  grammar: Array<{
+    left: string;
+    line: number;
+    generatedFrom: string | null;
+    augmented?: boolean;
+    alternatives: Array<Array<{ type: "terminal" | "nonterminal"; value: string }>>;
+    precedenceSymbols?: Array<string | null>;
+    actions?: Array<string | null>;
+  }>;
+  tokens?: TokenSpec[];
+  start?: string;
+  precedences?: Array<{ associativity: Associativity; symbols: string[] }>;
+  startProduction: number;
+  states: Array<{
+    kernel: ItemJson[];
+    items: ItemJson[];
+    gotos: { [symbol: string]: number };
+  }>;
+  table: {
+    terminals: string[];
+    nonterminals: string[];
+    action: Array<{ state: number; symbol: string; actions: ParseAction[] }>;
+    goto: Array<{ state: number; symbol: string; to: number }>;
+    resolved?: ResolvedConflict[];
+  };
+};
+
+type ItemJson = { production: number; dot: number; lookaheads: string[] };
+
+const AUTOMATON_FORMAT = "lr-learning/automaton";
+
+// DOTの文字列リテラル用のエスケープ
+const escapeDot = (s: string) => s.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+// 状態遷移図をGraphviz DOTで書き出す 受理状態は二重枠、衝突を含む状態は赤で塗る
+export const exportDot = (automaton: LRAutomaton): string => {
+  const { itemSets, table } = automaton;
+  const gotoSymbols = new Set(table.getGotoSymbols());
+  const conflictStates = new Set(table.getConflicts().map((c) => c.state));
+  const lines = ["digraph LR {", "  rankdir=LR;", '  node [shape=box, fontname="monospace"];'];
+
+  itemSets.forEach((itemSet, i) => {
+    const label = [`I${i}`, ...itemSet.getItems().map((item) => item.toString())].map((l) => escapeDot(l)).join("\\l") + "\\l";
+    const accept = table.getActionSymbols().some((s) => table.getActions(i, s).some((a) => a.type === "accept"));
+    const attrs = [`label="${label}"`];
+    if (accept) attrs.push("peripheries=2");
+    if (conflictStates.has(i)) attrs.push('style=filled, fillcolor="#ffdddd"');
+    lines.push(`  I${i} [${attrs.join(", ")}];`);
+  });
+  itemSets.forEach((itemSet, i) => {
+    itemSet.getGotos().forEach((to, symbol) => {
+      const label = gotoSymbols.has(symbol) ? symbol : quoteTerminal(symbol);
+      lines.push(`  I${i} -> I${to} [label="${escapeDot(label)}"];`);
+    });
+  });
+  lines.push("}");
+  return lines.join("\n");
+};
+
+export const exportJson = (bnfSet: BNFSet, automaton: LRAutomaton, algorithm: string): string => {
+  const { itemSets, table } = automaton;
+  const productions = bnfSet.getProductions();
+  const itemToJson = (item: LRItem): ItemJson => ({
+    production: productions.indexOf(item.getConcatenation()),
+    dot: item.getDotPosition(),
+    lookaheads: [...item.getLookaheads()],
+  });
+
+  const json: AutomatonJson = {
+    format: AUTOMATON_FORMAT,
+    version: 1,
+    algorithm,
+    grammar: bnfSet.getBNFs().map((bnf) => ({
+      left: bnf.getLeft(),
+      line: bnf.getLine(),
+      generatedFrom: bnf.getGeneratedFrom(),
+      augmented: bnf.isAugmented(),
+      alternatives: bnf.getRight().map((concat) =>
+        concat.getElements().map((e) => ({ type: e.getType() ?? "nonterminal", value: e.getValue() }))
+      ),
+      precedenceSymbols: bnf.getRight().some((concat) => concat.getPrecedenceSymbol() !== null)
+        ? bnf.getRight().map((concat) => concat.getPrecedenceSymbol())
+        : undefined,
+      actions: bnf.getRight().some((concat) => concat.getAction() !== null)
+        ? bnf.getRight().map((concat) => concat.getAction()?.code ?? null)
+        : undefined,
+    })),
+    tokens: bnfSet.getTokenSpecs().length > 0 ? bnfSet.getTokenSpecs() : undefined,
+    start: bnfSet.getStartSymbol(),
+    precedences: bnfSet.hasPrecedences() ? bnfSet.getPrecedenceLevels() : undefined,
+    startProduction: productions.indexOf(table.getStartConcatenation()),
+    states: itemSets.map((itemSet) => ({
+      kernel: itemSet.getKernelItems().map(itemToJson),
+      items: itemSet.getItems().map(itemToJson),
+      gotos: Object.fromEntries(itemSet.getGotos()),
+    })),
+    table: {
+      terminals: table.getActionSymbols().slice(0, -1),
+      nonterminals: table.getGotoSymbols(),
+      action: itemSets.flatMap((_, state) =>
+        table
+          .getActionSymbols()
+          .map((symbol) => ({ state, symbol, actions: table.getActions(state, symbol) }))
+          .filter((cell) => cell.actions.length > 0)
+      ),
+      goto: itemSets.flatMap((_, state) =>
+        table.getGotoSymbols().flatMap((symbol) => {
+          const to = table.getGoto(state, symbol);
+          return to === undefined ? [] : [{ state, symbol, to }];
+        })
+      ),
+      resolved: table.getResolvedConflicts().length > 0 ? table.getResolvedConflicts() : undefined,
+    },
+  };
+  return JSON.stringify(json, null, 2);
+};
+
+// 読み込んだJSONの形が合わないときのエラー problemsにはフィールドごとの問題を入れる
+export class AutomatonJsonError extends Error {
+  constructor(readonly problems: string[]) {
+    super(problems.join("\n"));
+    this.name = "AutomatonJsonError";
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+const isString = (v: unknown): v is string => typeof v === "string";
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(isString);
+const isIndex = (v: unknown, length: number): v is number => Number.isInteger(v) && (v as number) >= 0 && (v as number) < length;
+
+/**
+ * JSONがAutomatonJsonの形になっているかを調べ、問題を "grammar[2].alternatives[0][1].type: ..." の形で返す
+ * 番号（生成規則・状態）が範囲内か、表の記号が列にあるかも調べる
+ * 手で編集したファイルで、BNFSetや表を作る途中に落ちないようにするため
+ */
+const checkAutomatonJson = (json: unknown): string[] => {
+  const problems: string[] = [];
+  const check = (ok: boolean, path: string, expected: string) => {
+    if (!ok) problems.push(`${path}: ${expected}である必要があります`);
+    return ok;
+  };
+  const checkArray = (v: unknown, path: string): v is unknown[] => check(Array.isArray(v), path, "配列");
+  const checkObject = (v: unknown, path: string): v is Record<string, unknown> => check(isObject(v), path, "オブジェクト");
+
+  if (!checkObject(json, "JSON")) return problems;
+  if (json.format !== AUTOMATON_FORMAT || json.version !== 1) {
+    return [`対応していない形式のJSONです（format: "${AUTOMATON_FORMAT}", version: 1 のみ読み込めます）`];
+  }
+  check(isString(json.algorithm), "algorithm", "文字列");
+
+  // 生成規則の番号を調べるために、grammarから生成規則の右辺の長さを集める
+  const productionLengths: number[] = [];
+  if (checkArray(json.grammar, "grammar")) {
+    json.grammar.forEach((rule, r) => {
+      const path = `grammar[${r}]`;
+      if (!checkObject(rule, path)) return;
+      check(isString(rule.left), `${path}.left`, "文字列");
+      check(typeof rule.line === "number", `${path}.line`, "数");
+      check(rule.generatedFrom === null || isString(rule.generatedFrom), `${path}.generatedFrom`, "文字列か null");
+      check(rule.augmented === undefined || typeof rule.augmented === "boolean", `${path}.augmented`, "真偽値");
+      if (!checkArray(rule.alternatives, `${path}.alternatives`)) return;
+      rule.alternatives.forEach((elements, i) => {
+        if (!checkArray(elements, `${path}.alternatives[${i}]`)) return;
+        productionLengths.push(elements.length);
+        elements.forEach((e, j) => {
+          const elementPath = `${path}.alternatives[${i}][${j}]`;
+          if (!checkObject(e, elementPath)) return;
+          check(e.type === "terminal" || e.type === "nonterminal", `${elementPath}.type`, '"terminal" か "nonterminal"');
+          check(isString(e.value), `${elementPath}.value`, "文字列");
+        });
+      });
+      if (rule.augmented === true) {
+        const first = rule.alternatives[0];
+        check(Array.isArray(first) && isObject(first[0]), `${path}.alternatives[0]`, "開始記号から始まる右辺");
+      }
+      (["precedenceSymbols", "actions"] as const).forEach((key) => {
+        const values = rule[key];
+        if (values === undefined || !checkArray(values, `${path}.${key}`)) return;
+        check(values.length === (rule.alternatives as unknown[]).length, `${path}.${key}`, "選択肢と同じ長さの配列");
+        values.forEach((v, i) => check(v === null || isString(v), `${path}.${key}[${i}]`, "文字列か null"));
+      });
+    });
+  }
+
+  if (json.tokens !== undefined && checkArray(json.tokens, "tokens")) {
+    json.tokens.forEach((spec, i) => {
+      const path = `tokens[${i}]`;
+      if (!checkObject(spec, path)) return;
+      check(spec.name === null || isString(spec.name), `${path}.name`, "文字列か null");
+      check(isString(spec.pattern), `${path}.pattern`, "文字列");
+      check(typeof spec.isRegex === "boolean", `${path}.isRegex`, "真偽値");
+      const range = spec.range;
+      check(
+        range === null || (isObject(range) && ["line", "column", "endLine", "endColumn"].every((key) => typeof range[key] === "number")),
+        `${path}.range`,
+        "null か { line, column, endLine, endColumn }"
+      );
+    });
+  }
+  check(json.start === undefined || isString(json.start), "start", "文字列");
+  if (json.precedences !== undefined && checkArray(json.precedences, "precedences")) {
+    json.precedences.forEach((level, i) => {
+      const path = `precedences[${i}]`;
+      if (!checkObject(level, path)) return;
+      check(["left", "right", "nonassoc"].includes(level.associativity as string), `${path}.associativity`, '"left"・"right"・"nonassoc" のどれか');
+      check(isStringArray(level.symbols), `${path}.symbols`, "文字列の配列");
+    });
+  }
+  check(isIndex(json.startProduction, productionLengths.length), "startProduction", "生成規則の番号");
+
+  const stateCount = Array.isArray(json.states) ? json.states.length : 0;
+  const checkItems = (items: unknown, path: string) => {
+    if (!checkArray(items, path)) return;
+    items.forEach((item, i) => {
+      const itemPath = `${path}[${i}]`;
+      if (!checkObject(item, itemPath)) return;
+      const { production, dot, lookaheads } = item;
+      if (check(isIndex(production, productionLengths.length), `${itemPath}.production`, "生成規則の番号")) {
+        check(isIndex(dot, productionLengths[production as number] + 1), `${itemPath}.dot`, "右辺の長さ以下の数");
+      }
+      check(isStringArray(lookaheads), `${itemPath}.lookaheads`, "文字列の配列");
+    });
+  };
+  if (checkArray(json.states, "states")) {
+    json.states.forEach((state, s) => {
+      const path = `states[${s}]`;
+      if (!checkObject(state, path)) return;
+      checkItems(state.kernel, `${path}.kernel`);
+      checkItems(state.items, `${path}.items`);
+      if (Array.isArray(state.kernel) && Array.isArray(state.items)) {
+        check(state.items.length >= state.kernel.length, `${path}.items`, "kernelを含む配列");
+      }
+      if (checkObject(state.gotos, `${path}.gotos`)) {
+        Object.entries(state.gotos).forEach(([symbol, to]) => check(isIndex(to, stateCount), `${path}.gotos.${symbol}`, "状態の番号"));
+      }
+    });
+  }
+
+  if (!checkObject(json.table, "table")) return problems;
+  const { terminals, nonterminals } = json.table;
+  check(isStringArray(terminals), "table.terminals", "文字列の配列");
+  check(isStringArray(nonterminals), "table.nonterminals", "文字列の配列");
+  const actionSymbols = new Set([...(isStringArray(terminals) ? terminals : []), END_MARKER]);
+  const gotoSymbols = new Set(isStringArray(nonterminals) ? nonterminals : []);
+  const checkAction = (action: unknown, path: string) => {
+    if (!checkObject(action, path)) return;
+    if (action.type === "shift") check(isIndex(action.state, stateCount), `${path}.state`, "状態の番号");
+    else if (action.type === "reduce") check(isIndex(action.production, productionLengths.length), `${path}.production`, "生成規則の番号");
+    else check(action.type === "accept", `${path}.type`, '"shift"・"reduce"・"accept" のどれか');
+  };
+  const checkCell = (cell: unknown, path: string, symbols: Set<string>): cell is Record<string, unknown> => {
+    if (!checkObject(cell, path)) return false;
+    check(isIndex(cell.state, stateCount), `${path}.state`, "状態の番号");
+    check(isString(cell.symbol) && symbols.has(cell.symbol), `${path}.symbol`, "表の列にある記号");
+    return true;
+  };
+  if (checkArray(json.table.action, "table.action")) {
+    json.table.action.forEach((cell, i) => {
+      const path = `table.action[${i}]`;
+      if (!checkCell(cell, path, actionSymbols) || !checkArray(cell.actions, `${path}.actions`)) return;
+      cell.actions.forEach((a, j) => checkAction(a, `${path}.actions[${j}]`));
+    });
+  }
+  if (checkArray(json.table.goto, "table.goto")) {
+    json.table.goto.forEach((cell, i) => {
+      const path = `table.goto[${i}]`;
+      if (!checkCell(cell, path, gotoSymbols)) return;
+      check(isIndex(cell.to, stateCount), `${path}.to`, "状態の番号");
+    });
+  }
+  if (json.table.resolved !== undefined && checkArray(json.table.resolved, "table.resolved")) {
+    json.table.resolved.forEach((resolved, i) => {
+      const path = `table.resolved[${i}]`;
+      if (!checkCell(resolved, path, actionSymbols)) return;
+      if (checkArray(resolved.actions, `${path}.actions`)) {
+        resolved.actions.forEach((a, j) => checkAction(a, `${path}.actions[${j}]`));
+      }
+      if (resolved.chosen !== null) checkAction(resolved.chosen, `${path}.chosen`);
+      check(isString(resolved.reason), `${path}.reason`, "文字列");
+    });
+  }
+  return problems;
+};
+
+/**
+ * exportJsonで書き出したJSONを読み込み、BNFSetとオートマトンを復元する
+ * クロージャや表は計算し直さず、保存されたものをそのまま使う
+ * JSONとして読めないときや形が合わないときは、問題の一覧を持ったAutomatonJsonErrorを投げる
+ */
+export const importJson = (text: string): { bnfSet: BNFSet; automaton: LRAutomaton; algorithm: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new AutomatonJsonError([`JSONとして読めません: ${(err as Error).message}`]);
+  }
+  const problems = checkAutomatonJson(parsed);
+  if (problems.length > 0) {
+    throw new AutomatonJsonError(problems);
+  }
+  const json = parsed as AutomatonJson;
+
+  const bnfSet = new BNFSet();
+  json.grammar.forEach((rule) => {
+    const bnf = new BNF();
+    bnf.setLeft(rule.left);
+    bnf.setLine(rule.line);
+    if (rule.generatedFrom !== null) {
+      bnf.setGeneratedFrom(rule.generatedFrom);
+    }
+    bnf.setAugmented(rule.augmented ?? false);
+    if (rule.augmented) {
+      // 拡大文法の規則 S' -> start $ の右辺の先頭が開始記号
+      bnfSet.setStartSymbol(rule.alternatives[0][0].value);
+    }
+    rule.alternatives.forEach((elements, i) => {
+      const concat = new BNFConcatenation(rule.left);
+      elements.forEach((e) => concat.addElement(new BNFElement(e.type, e.value)));
+      const precedenceSymbol = rule.precedenceSymbols?.[i] ?? null;
+      if (precedenceSymbol !== null) {
+        concat.setPrecedenceSymbol(precedenceSymbol);
+      }
+      const action = rule.actions?.[i] ?? null;
+      if (action !== null) {
+        concat.setAction({ code: action, range: null });
+      }
+      bnf.addRight(concat);
+    });
+    bnfSet.addBNF(bnf);
+  });
+
+  json.tokens?.forEach((spec) => bnfSet.addTokenSpec(spec));
+  if (json.start !== undefined) {
+    bnfSet.setStartSymbol(json.start);
+  }
+  json.precedences?.forEach((level) => bnfSet.addPrecedence(level.associativity, level.symbols));
+
+  const productions = bnfSet.getProductions();
+  const itemFromJson = (item: ItemJson) => new LRItem(productions[item.production], item.dot, item.lookaheads);
+
+  const itemSets = json.states.map((state) => {
+    const itemSet = new LRItemSet(state.kernel.map(itemFromJson));
+    // itemsにはkernelも含まれているので、kernel以外を追加する
+    state.items.slice(state.kernel.length).forEach((item) => itemSet.addItem(itemFromJson(item)));
+    Object.entries(state.gotos).forEach(([symbol, to]) => itemSet.addGoto(symbol, to));
+    return itemSet;
+  });
+
+  const table = new ParseTable(json.table.terminals, json.table.nonterminals, productions, productions[json.startProduction], itemSets.length);
+  json.table.action.forEach((cell) => cell.actions.forEach((a) => table.addAction(cell.state, cell.symbol, a)));
+  json.table.goto.forEach((cell) => table.setGoto(cell.state, cell.symbol, cell.to));
+  json.table.resolved?.forEach((resolved) => table.addResolvedConflict(resolved));
+
+  return { bnfSet, automaton: { itemSets, table, events: [] }, algorithm: json.algorithm };
+};
+
+// 表のセルの中身 衝突していれば "s3 / r2"
+const formatCell = (table: ParseTable, state: number, symbol: string) =>
+  table
+    .getActions(state, symbol)
+    .map((a) => formatParseAction(a))
+    .join(" / ");
+
+const escapeMarkdown = (s: string) => s.replace(/\|/g, "\\|");
+
+// 生成規則の一覧とACTION表・GOTO表をMarkdownで書き出す
+export const exportMarkdown = (table: ParseTable): string => {
+  const actionSymbols = table.getActionSymbols();
+  const gotoSymbols = table.getGotoSymbols();
+  const lines: string[] = [];
+
+  lines.push("| 番号 | 生成規則 |", "| --- | --- |");
+  table.getProductions().forEach((p, i) => lines.push(`| ${i} | ${escapeMarkdown(p.toString())} |`));
+  lines.push("");
+
+  lines.push(`| 状態 | ${[...actionSymbols, ...gotoSymbols].map(escapeMarkdown).join(" | ")} |`);
+  lines.push(`| --- | ${[...actionSymbols, ...gotoSymbols].map(() => ":---:").join(" | ")} |`);
+  for (let state = 0; state < table.getStateCount(); state++) {
+    const action = actionSymbols.map((s) => formatCell(table, state, s));
+    const goto = gotoSymbols.map((s) => `${table.getGoto(state, s) ?? ""}`);
+    lines.push(`| ${state} | ${[...action, ...goto].join(" | ")} |`);
+  }
+  return lines.join("\n");
+};
+
+const escapeLatex = (s: string) =>
+  s.replace(/[\\{}$&%#_^~]/g, (c) => {
+    switch (c) {
+      case "\\":
+        return "\\textbackslash{}";
+      case "^":
+        return "\\textasciicircum{}";
+      case "~":
+        return "\\textasciitilde{}";
+      default:
+        return `\\${c}`;
+    }
+  });
+
+// ACTION表・GOTO表をLaTeXのtabularで書き出す
+export const exportLatex = (table: ParseTable): string => {
+  const actionSymbols = table.getActionSymbols();
+  const gotoSymbols = table.getGotoSymbols();
+  const lines: string[] = [];
+
+  // 列のない表は\multicolumn{0}になってコンパイルできないので、見出しも列の指定も出さない
+  const groups = [
+    { title: "ACTION", count: actionSymbols.length },
+    { title: "GOTO", count: gotoSymbols.length },
+  ].filter((g) => g.count > 0);
+
+  lines.push(`\\begin{tabular}{|c|${groups.map((g) => `${"c".repeat(g.count)}|`).join("")}}`);
+  lines.push("\\hline");
+  lines.push(`${["状態", ...groups.map((g) => `\\multicolumn{${g.count}}{c|}{${g.title}}`)].join(" & ")} \\\\`);
+  lines.push(` & ${[...actionSymbols, ...gotoSymbols].map((s) => `\\texttt{${escapeLatex(s)}}`).join(" & ")} \\\\`);
+  lines.push("\\hline");
+  for (let state = 0; state < table.getStateCount(); state++) {
+    const action = actionSymbols.map((s) => escapeLatex(formatCell(table, state, s)));
+    const goto = gotoSymbols.map((s) => `${table.getGoto(state, s) ?? ""}`);
+    lines.push(`${state} & ${[...action, ...goto].join(" & ")} \\\\`);
+  }
+  lines.push("\\hline");
+  lines.push("\\end{tabular}");
+  return lines.join("\n");
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import { analyzeGrammar, firstOfSequence } from "./grammarAnalysis";
+import { parseRawBnf } from "./parseBnf";
+
+// 左再帰を除いた算術式の文法
+const EXPRESSION = `E -> T EP
+EP -> '+' T EP | ε
+T -> F TP
+TP -> '*' F TP | ε
+F -> '(' E ')' | 'id'`;
+
+// 比べやすいように集合を並べた配列にする
+const sorted = (sets: Map<string, Set<string>>) => Object.fromEntries([...sets].map(([nt, set]) => [nt, [...set].sort()]));
+
+describe("analyzeGrammar", () => {
+  it("nullable・FIRST・FOLLOWを求める", () => {
+    const analysis = analyzeGrammar(parseRawBnf(EXPRESSION), "E");
+    expect([...analysis.nullable].sort()).toEqual(["EP", "TP"]);
+    expect(sorted(analysis.first)).toEqual({ E: ["(", "id"], EP: ["+"], T: ["(", "id"], TP: ["*"], F: ["(", "id"] });
+    expect(sorted(analysis.follow)).toEqual({
+      E: ["$", ")"],
+      EP: ["$", ")"],
+      T: ["$", ")", "+"],
+      TP: ["$", ")", "+"],
+      F: ["$", ")", "*", "+"],
+    });
+  });
+
+  it("記号列のFIRSTは、εを導出できる記号を飛ばして次の記号まで見る", () => {
+    const bnfSet = parseRawBnf(EXPRESSION);
+    const analysis = analyzeGrammar(bnfSet, "E");
+    const [tp, ep] = [bnfSet.getBNFbyLeft("T")[0].getElements()[1], bnfSet.getBNFbyLeft("E")[0].getElements()[1]];
+    expect(firstOfSequence([tp, ep], analysis)).toEqual({ first: new Set(["*", "+"]), nullable: true });
+  });
+});
+
+describe("SLR(1)", () => {
+  it("FOLLOWに入る記号だけで還元するので、LR(0)の衝突がなくなる", () => {
+    const grammar = "E -> T '+' E | T\nT -> 'n'";
+    expect(algorithms.lr0.build(parseRawBnf(grammar)).table.getConflicts()).toHaveLength(1);
+    const table = algorithms.slr1.build(parseRawBnf(grammar)).table;
+    expect(table.getConflicts()).toEqual([]);
+    // E -> T • の還元は FOLLOW(E) = { $ } のときだけ
+    expect(table.getActions(2, "$")).toEqual([{ type: "reduce", production: 2 }]);
+    expect(table.getActions(2, "n")).toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+import { BNFElement, BNFSet, END_MARKER } from "./interface/bnf";
+
+export type GrammarAnalysis = {
+  nullable: Set<string>; // εを導出できる非終端記号
+  first: Map<string, Set<string>>; // 非終端記号 -> FIRST集合（εは含めず、nullableで表す）
+  follow: Map<string, Set<string>>; // 非終端記号 -> FOLLOW集合
+};
+
+/**
+ * 記号列 X1 X2 ... Xn のFIRST集合と、記号列全体がεを導出できるかを求める
+ * LR(1)の先読みやLL(1)表の計算でも使う
+ * εの規則は空の記号列なので、FIRSTは空でnullableになる
+ */
+export const firstOfSequence = (elements: BNFElement[], analysis: Pick<GrammarAnalysis, "nullable" | "first">) => {
+  const first = new Set<string>();
+  for (const elem of elements) {
+    if (elem.getType() === "terminal") {
+      first.add(elem.getValue());
+      return { first, nullable: false };
+    }
+    analysis.first.get(elem.getValue())?.forEach((t) => first.add(t));
+    if (!analysis.nullable.has(elem.getValue())) {
+      return { first, nullable: false };
+    }
+  }
+  return { first, nullable: true };
+};
+
+/**
+ * nullable / FIRST / FOLLOW を不動点反復で計算する
+ * @param startSymbol FOLLOWにEND_MARKERを入れる開始記号
+ */
+export const analyzeGrammar = (bnfSet: BNFSet, startSymbol: string): GrammarAnalysis => {
+  const nonterminals = bnfSet.getNonterminals();
+  const productions = bnfSet.getProductions();
+
+  const nullable = new Set<string>();
+  const first = new Map<string, Set<string>>(nonterminals.map((nt) => [nt, new Set<string>()]));
+  const follow = new Map<string, Set<string>>(nonterminals.map((nt) => [nt, new Set<string>()]));
+  follow.get(startSymbol)?.add(END_MARKER);
+
+  // 集合に要素を追加し、増えたかどうかを返す
+  const addAll = (target: Set<string> | undefined, source: Iterable<string>) => {
+    if (!target) return false;
+    const before = target.size;
+    for (const s of source) target.add(s);
+    return target.size !== before;
+  };
+
+  // nullableとFIRST
+  let changed = true;
+  while (changed) {
+    changed = false;
+    productions.forEach((concat) => {
+      const left = concat.getLeft();
+      const result = firstOfSequence(concat.getElements(), { nullable, first });
+      if (addAll(first.get(left), result.first)) {
+        changed = true;
+      }
+      if (result.nullable && !nullable.has(left)) {
+        nullable.add(left);
+        changed = true;
+      }
+    });
+  }
+
+  // FOLLOW A -> α B β のとき FIRST(β) ⊆ FOLLOW(B)、βがεを導出できれば FOLLOW(A) ⊆ FOLLOW(B)
+  changed = true;
+  while (changed) {
+    changed = false;
+    productions.forEach((concat) => {
+      const elements = concat.getElements();
+      elements.forEach((elem, index) => {
+        if (elem.getType() !== "nonterminal") {
+          return;
+        }
+        const rest = firstOfSequence(elements.slice(index + 1), { nullable, first });
+        if (addAll(follow.get(elem.getValue()), rest.first)) {
+          changed = true;
+        }
+        if (rest.nullable && addAll(follow.get(elem.getValue()), follow.get(concat.getLeft()) ?? [])) {
+          changed = true;
+        }
+      });
+    });
+  }
+
+  return { nullable, first, follow };
+};
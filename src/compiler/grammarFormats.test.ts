@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+
+import { BNFSet } from "./interface/bnf";
+import { exportAntlr, exportW3cEbnf, exportYacc, importAntlr, importW3cEbnf, importYacc } from "./grammarFormats";
+import { parseRawBnf } from "./parseBnf";
+
+const productionsOf = (bnfSet: BNFSet) => bnfSet.getProductions().map((p) => p.toString());
+
+// ANTLR と W3C EBNF で書ける範囲の文法（優先順位・%prec・error を使わない）
+const PLAIN = `PROGRAM -> STMTS
+STMTS -> STMTS STMT | ε
+STMT -> 'id' '=' E ';'
+E -> E '+' T | T
+T -> '(' E ')' | 'num' | 'a<=b'`;
+
+describe("yacc", () => {
+  const GRAMMAR = `%start PROGRAM
+%left '+' '-'
+%left '*'
+%right UMINUS
+UNUSED -> 'u'
+PROGRAM -> STMTS
+STMTS -> STMTS STMT | ε
+STMT -> 'id' '=' E ';' | error ';'
+E -> E '+' E | E '-' E | E '*' E | '-' E %prec UMINUS | '(' E ')' | 'num' | 'a<=b'`;
+
+  it("書き出して読み込むと、同じ生成規則・開始記号・優先順位になる", () => {
+    const bnfSet = parseRawBnf(GRAMMAR);
+    const imported = importYacc(exportYacc(bnfSet));
+    expect(imported.diagnostics).toEqual([]);
+    expect(productionsOf(imported.bnfSet)).toEqual(productionsOf(bnfSet));
+    expect(imported.bnfSet.getStartSymbol()).toBe("PROGRAM");
+    expect(imported.bnfSet.getPrecedenceLevels()).toEqual(bnfSet.getPrecedenceLevels());
+  });
+
+  it("動作を取り込むときは、動作も書き出して読み込み直せる", () => {
+    const bnfSet = parseRawBnf("E -> E '+' 'n' { $$ = $1 + 1 } | 'n' { $$ = 0 }");
+    const imported = importYacc(exportYacc(bnfSet), { keepActions: true });
+    expect(imported.bnfSet.getProductions().map((p) => p.getAction()?.code)).toEqual(["$$ = $1 + 1", "$$ = 0"]);
+  });
+
+  it("%union の波括弧が次の行にあっても、宣言として読み飛ばす", () => {
+    const source = `%union
+{
+  int value;
+  char *name;
+}
+%token <value> NUM
+%%
+expr : expr '+' NUM | NUM ;
+%%`;
+    const imported = importYacc(source);
+    expect(imported.diagnostics).toEqual([]);
+    expect(imported.text).toBe("EXPR -> EXPR '+' 'NUM'\n  | 'NUM'");
+  });
+
+  it("%union と波括弧の間に名前があってもよい", () => {
+    const imported = importYacc("%union value\n  { int n; }\n%token NUM\n%%\ns : NUM ;");
+    expect(imported.diagnostics).toEqual([]);
+    expect(imported.text).toBe("S -> 'NUM'");
+  });
+});
+
+describe("ANTLR", () => {
+  it("書き出して読み込むと、同じ生成規則になる", () => {
+    const bnfSet = parseRawBnf(PLAIN);
+    const imported = importAntlr(exportAntlr(bnfSet));
+    expect(imported.diagnostics).toEqual([]);
+    expect(productionsOf(imported.bnfSet)).toEqual(productionsOf(bnfSet));
+  });
+
+  it("読み込んだ文法を書き出して読み込み直しても、同じ生成規則になる", () => {
+    const source = "grammar G;\nlist : '(' items? ')' ;\nitems : NUM (',' NUM)* ;\nNUM : [0-9]+ ;";
+    const first = importAntlr(source);
+    const second = importAntlr(exportAntlr(first.bnfSet));
+    expect(productionsOf(second.bnfSet)).toEqual(productionsOf(first.bnfSet));
+  });
+});
+
+describe("W3C EBNF", () => {
+  it("書き出して読み込むと、同じ生成規則になる", () => {
+    const bnfSet = parseRawBnf(PLAIN);
+    const imported = importW3cEbnf(exportW3cEbnf(bnfSet));
+    expect(imported.diagnostics).toEqual([]);
+    expect(productionsOf(imported.bnfSet)).toEqual(productionsOf(bnfSet));
+  });
+
+  it("読み込んだ文法を書き出して読み込み直しても、同じ生成規則になる", () => {
+    const source = "list ::= '(' items? ')'\nitems ::= 'num' ( ',' 'num' )*";
+    const first = importW3cEbnf(source);
+    const second = importW3cEbnf(exportW3cEbnf(first.bnfSet));
+    expect(productionsOf(second.bnfSet)).toEqual(productionsOf(first.bnfSet));
+  });
+});
@@ -0,0 +1,1012 @@
+/**
+ * 他の形式の文法との変換
+ *
+ * - yacc / bison: .y ファイルの宣言部（%token %left %right %nonassoc %start）と規則部
+ * - ANTLR: .g4 ファイルのパーサ規則（字句規則は、文字列1つだけのものを終端記号の別名として使う）
+ * - W3C EBNF: XMLの仕様書などの Name ::= 式 の形
+ *
+ * 読み込みは、その形式をこのサイトの構文定義の文字列に書き換えてから parseBnfWithDiagnostics でBNFSetにする
+ * 書き換えた文字列はそのまま編集欄に入れられる 対応していない書き方は、元のファイルの行番号付きでdiagnosticsに返す
+ *
+ * 書き出しは ?*+ を展開した後の規則をそのまま書く（拡大文法の規則は除く）
+ */
+
+import { Associativity, BNFConcatenation, BNFError, BNFSet, BNFSeverity, ERROR_TOKEN, quoteTerminal } from "./interface/bnf";
+import { rangeOf } from "./grammarLexer";
+import { parseBnfWithDiagnostics } from "./parseBnf";
+import { checkActionCode } from "./semantic";
+
+export type GrammarFormat = "yacc" | "antlr" | "w3c";
+
+export type GrammarImportResult = {
+  text: string; // このサイトの構文定義に書き換えたもの
+  bnfSet: BNFSet;
+  diagnostics: BNFError; // 対応していない書き方など 行番号は元のファイルのもの
+};
+
+export type GrammarImportOptions = {
+  // yaccの動作も取り込むか 動作は任意のJavaScriptとして実行されるので、既定では省く
+  keepActions?: boolean;
+};
+
+// ファイル名の拡張子から形式を決める 分からなければnull
+export const detectGrammarFormat = (fileName: string): GrammarFormat | null => {
+  if (/\.(y|yy|ypp|bison)$/i.test(fileName)) return "yacc";
+  if (/\.g4?$/i.test(fileName)) return "antlr";
+  if (/\.ebnf$/i.test(fileName)) return "w3c";
+  return null;
+};
+
+export const importGrammar = (format: GrammarFormat, source: string, options: GrammarImportOptions = {}): GrammarImportResult => {
+  switch (format) {
+    case "yacc":
+      return importYacc(source, options);
+    case "antlr":
+      return importAntlr(source);
+    case "w3c":
+      return importW3cEbnf(source);
+  }
+};
+
+/* ---------------------------------------------------------------- 共通 */
+
+// 元のファイルの文字を1つずつ読む 行と列を数えながら進める
+class SourceScanner {
+  private position = 0;
+  private line = 0;
+  private lineStart = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly lineComments: boolean // // から行末をコメントとして読み飛ばすか
+  ) {}
+
+  here() {
+    return { line: this.line, column: this.position - this.lineStart };
+  }
+
+  eof() {
+    return this.position >= this.source.length;
+  }
+
+  peek(offset: number = 0) {
+    return this.source[this.position + offset] ?? "";
+  }
+
+  startsWith(s: string) {
+    return this.source.startsWith(s, this.position);
+  }
+
+  // まだ読んでいない部分
+  rest() {
+    return this.source.slice(this.position);
+  }
+
+  advance(count: number = 1) {
+    for (let i = 0; i < count && !this.eof(); i++) {
+      if (this.source[this.position] === "\n") {
+        this.line++;
+        this.lineStart = this.position + 1;
+      }
+      this.position++;
+    }
+  }
+
+  // 空白とコメントを読み飛ばす stopAtNewlineなら改行の手前で止まる
+  skipTrivia(stopAtNewline: boolean = false) {
+    while (!this.eof()) {
+      const c = this.peek();
+      if (c === "\n" && stopAtNewline) return;
+      if (/\s/.test(c)) {
+        this.advance();
+      } else if (this.startsWith("/*")) {
+        const end = this.source.indexOf("*/", this.position + 2);
+        this.advance(end === -1 ? this.source.length : end + 2 - this.position);
+      } else if (this.lineComments && this.startsWith("//")) {
+        while (!this.eof() && this.peek() !== "\n") this.advance();
+      } else {
+        return;
+      }
+    }
+  }
+
+  // 先頭から正規表現に合う部分を読む 合わなければ空文字列
+  read(pattern: RegExp) {
+    const match = new RegExp(pattern.source, "y");
+    match.lastIndex = this.position;
+    const m = match.exec(this.source);
+    if (m === null) return "";
+    this.advance(m[0].length);
+    return m[0];
+  }
+
+  // 'a' や "a" を読んで中身を返す バックスラッシュのエスケープを解く 閉じていなければnull
+  readQuoted(): string | null {
+    const quote = this.peek();
+    this.advance();
+    let value = "";
+    while (!this.eof() && this.peek() !== quote && this.peek() !== "\n") {
+      if (this.peek() === "\\" && this.peek(1) !== "\n" && this.peek(1) !== "") {
+        const escaped = this.peek(1);
+        value += ({ n: "\n", t: "\t", r: "\r" } as { [c: string]: string })[escaped] ?? escaped;
+        this.advance(2);
+      } else {
+        value += this.peek();
+        this.advance();
+      }
+    }
+    if (this.peek() !== quote) return null;
+    this.advance();
+    return value;
+  }
+
+  // { ... } や [ ... ] を、入れ子と文字列の中の括弧を数えながら読んで中身を返す 閉じていなければnull
+  readBalanced(open: string, close: string): string | null {
+    const start = this.position;
+    let depth = 0;
+    while (!this.eof()) {
+      const c = this.peek();
+      if (c === "'" || c === '"' || c === "`") {
+        const quote = c;
+        this.advance();
+        while (!this.eof() && this.peek() !== quote) {
+          this.advance(this.peek() === "\\" ? 2 : 1);
+        }
+        this.advance();
+        continue;
+      }
+      this.advance();
+      if (c === open) {
+        depth++;
+      } else if (c === close && --depth === 0) {
+        return this.source.slice(start + 1, this.position - 1);
+      }
+    }
+    return null;
+  }
+
+  // 行末まで読み飛ばす
+  skipLine() {
+    while (!this.eof() && this.peek() !== "\n") this.advance();
+  }
+}
+
+// 読み込みで見つかった問題をためておく
+class ImportDiagnostics {
+  readonly items: BNFError = [];
+
+  add(severity: BNFSeverity, error: string, at: { line: number; column: number }, length: number = 1) {
+    this.items.push({ error, line: at.line, range: rangeOf(at.line, at.column, length), severity });
+  }
+}
+
+const DIGIT_WORDS = ["ZERO", "ONE", "TWO", "THREE", "FOUR", "FIVE", "SIX", "SEVEN", "EIGHT", "NINE"];
+
+/**
+ * 他の形式の非終端記号の名前を、このサイトの非終端記号の名前（大文字とアンダースコア）にする
+ *   expr -> EXPR   primaryExpr -> PRIMARY_EXPR   expr2 -> EXPR_TWO
+ * 別の名前が同じになったときは _A, _B, ... を付けて区別する
+ */
+const makeNonterminalNamer = () => {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  return (name: string): string => {
+    const existing = names.get(name);
+    if (existing !== undefined) return existing;
+    const base =
+      name
+        .replace(/([a-z])([A-Z])/g, "$1_$2")
+        .replace(/[0-9]/g, (d) => `_${DIGIT_WORDS[Number(d)]}`)
+        .replace(/[^A-Za-z_]+/g, "_")
+        .replace(/_+/g, "_")
+        .toUpperCase() || "RULE";
+    let unique = base;
+    for (let n = 0; used.has(unique); n++) {
+      unique = `${base}_${String.fromCharCode(65 + (n % 26)).repeat(Math.floor(n / 26) + 1)}`;
+    }
+    names.set(name, unique);
+    used.add(unique);
+    return unique;
+  };
+};
+
+// 読み終わるまで終端記号か非終端記号かが決まらない名前 文字列に現れないNUL文字で囲んでおく
+const placeholder = (name: string) => `\u0000${name}\u0000`;
+const resolvePlaceholders = (text: string, resolve: (name: string) => string) =>
+  text.replace(/\u0000([^\u0000]*)\u0000/g, (_, name: string) => resolve(name));
+
+// 書き換えた構文定義をBNFSetにする
+// 書き換えた構文定義そのものの誤りは行番号が元のファイルと合わないので含めない（編集欄に入れればいつもの検査で表示される）
+const finishImport = (lines: string[], diagnostics: ImportDiagnostics): GrammarImportResult => {
+  const text = lines.join("\n");
+  const { bnfSet } = parseBnfWithDiagnostics(text);
+  return { text, bnfSet, diagnostics: [...diagnostics.items].sort((a, b) => a.line - b.line) };
+};
+
+// 書き出す規則 拡大文法の規則を除く
+const exportedRules = (bnfSet: BNFSet) => bnfSet.getBNFs().filter((bnf) => !bnf.isAugmented());
+
+// 書き出すときに優先順位の記号を並べた宣言の名前
+const ASSOCIATIVITY_DIRECTIVES: { [a in Associativity]: string } = { left: "%left", right: "%right", nonassoc: "%nonassoc" };
+
+/* ---------------------------------------------------------------- yacc / bison */
+
+// yaccの規則の右辺の要素
+type YaccItem =
+  | { kind: "name"; text: string; at: { line: number; column: number } }
+  | { kind: "literal"; text: string };
+
+// 波括弧で囲んだC言語のコードを引数にとる宣言 構文には関係しないので読み飛ばす
+const BLOCK_DIRECTIVES = new Set(["%union", "%code", "%initial-action"]);
+
+type YaccAlternative = { items: YaccItem[]; prec: YaccItem | null; action: { code: string; at: { line: number; column: number } } | null };
+
+/**
+ * yacc / bison の文法を読み込む
+ * %% がなければ、全体を規則部とみなす 2つ目の %% より後（ユーザー定義部）は読まない
+ * 動作は既定では省く keepActionsを指定すると、JavaScriptとして正しいものだけを取り込み、そうでなければ（C言語の動作など）省く
+ */
+export const importYacc = (source: string, options: GrammarImportOptions = {}): GrammarImportResult => {
+  const scanner = new SourceScanner(source, true);
+  const diagnostics = new ImportDiagnostics();
+
+  const tokenAliases = new Map<string, string>(); // %token NAME "別名" の NAME -> 別名
+  const declaredTokens = new Set<string>();
+  const precedences: Array<{ associativity: Associativity; symbols: YaccItem[] }> = [];
+  let start: string | null = null;
+
+  // %% が現れるなら、そこまでが宣言部
+  const hasDeclarations = /^%%/m.test(source);
+  while (hasDeclarations) {
+    scanner.skipTrivia();
+    if (scanner.eof()) break;
+    const at = scanner.here();
+    if (scanner.startsWith("%%")) {
+      scanner.advance(2);
+      break;
+    }
+    if (scanner.startsWith("%{")) {
+      // C言語の宣言
+      while (!scanner.eof() && !scanner.startsWith("%}")) scanner.advance();
+      scanner.advance(2);
+      continue;
+    }
+    if (scanner.peek() !== "%") {
+      diagnostics.add("warning", `宣言部の '${scanner.read(/\S+/)}' は読み込めないので省きました。`, at);
+      continue;
+    }
+
+    const directive = scanner.read(/%[A-Za-z_-]+/);
+    if (BLOCK_DIRECTIVES.has(directive)) {
+      // 波括弧は次の行にあってもよい %union name { や %code requires { のように間に名前が入ることもある
+      scanner.skipTrivia();
+      scanner.read(/[A-Za-z_.][A-Za-z0-9_.]*/);
+      scanner.skipTrivia();
+      if (scanner.peek() === "{" && scanner.readBalanced("{", "}") === null) {
+        diagnostics.add("error", `${directive} の閉じられていない波括弧 { があります。`, at, directive.length);
+      }
+      continue;
+    }
+    // 行末までの引数 <型> と数値は読み飛ばす
+    const args: YaccItem[] = [];
+    for (scanner.skipTrivia(true); !scanner.eof() && scanner.peek() !== "\n"; scanner.skipTrivia(true)) {
+      const argAt = scanner.here();
+      if (scanner.peek() === "'" || scanner.peek() === '"') {
+        const value = scanner.readQuoted();
+        if (value !== null) args.push({ kind: "literal", text: value });
+      } else if (scanner.peek() === "<") {
+        scanner.read(/<[^>\n]*>?/);
+      } else if (scanner.peek() === "{") {
+        scanner.readBalanced("{", "}");
+      } else if (/[A-Za-z_.]/.test(scanner.peek())) {
+        args.push({ kind: "name", text: scanner.read(/[A-Za-z_.][A-Za-z0-9_.]*/), at: argAt });
+      } else {
+        scanner.read(/\S/);
+      }
+    }
+
+    switch (directive) {
+      case "%token":
+        // %token NAME "別名" のように、名前の直後の文字列はその名前の別名
+        args.forEach((arg, i) => {
+          if (arg.kind === "name") {
+            declaredTokens.add(arg.text);
+            const next = args[i + 1];
+            if (next?.kind === "literal") tokenAliases.set(arg.text, next.text);
+          }
+        });
+        break;
+      case "%left":
+      case "%right":
+      case "%nonassoc":
+        precedences.push({ associativity: directive.slice(1) as Associativity, symbols: args });
+        break;
+      case "%precedence":
+        // %nonassoc として読むと、bisonでは衝突のまま残るセルまでエラーの動作で解決してしまうので読み込まない
+        diagnostics.add("error", "%precedence（結合性のない優先順位）には対応していないので、この宣言を省きました。", at, directive.length);
+        break;
+      case "%start":
+        start = args.find((arg) => arg.kind === "name")?.text ?? null;
+        break;
+      case "%type":
+      case "%define":
+      case "%expect":
+      case "%expect-rr":
+      case "%debug":
+      case "%locations":
+      case "%pure-parser":
+      case "%defines":
+      case "%output":
+      case "%name-prefix":
+      case "%parse-param":
+      case "%lex-param":
+      case "%destructor":
+      case "%printer":
+      case "%verbose":
+      case "%error-verbose":
+        // 構文には関係しない宣言
+        break;
+      default:
+        diagnostics.add("warning", `宣言 ${directive} には対応していないので省きました。`, at, directive.length);
+    }
+  }
+
+  // 規則部
+  const rules: Array<{ left: string; alternatives: YaccAlternative[] }> = [];
+  // 次が「名前 :」（新しい規則の始まり）か
+  const atRuleStart = () => /^[A-Za-z_.][A-Za-z0-9_.]*\s*(\[[^\]]*\]\s*)?:/.test(scanner.rest());
+
+  for (scanner.skipTrivia(); !scanner.eof() && !scanner.startsWith("%%"); scanner.skipTrivia()) {
+    const at = scanner.here();
+    if (!atRuleStart()) {
+      diagnostics.add("error", `規則の始まり（名前 :）がありません: '${scanner.read(/\S+/)}'`, at);
+      continue;
+    }
+    const left = scanner.read(/[A-Za-z_.][A-Za-z0-9_.]*/);
+    scanner.skipTrivia();
+    if (scanner.peek() === "[") scanner.readBalanced("[", "]");
+    scanner.skipTrivia();
+    scanner.advance(); // :
+
+    const alternatives: YaccAlternative[] = [];
+    let current: YaccAlternative = { items: [], prec: null, action: null };
+    for (;;) {
+      scanner.skipTrivia();
+      const itemAt = scanner.here();
+      const c = scanner.peek();
+      if (scanner.eof() || scanner.startsWith("%%") || c === ";" || (c !== "|" && atRuleStart())) {
+        alternatives.push(current);
+        if (c === ";") scanner.advance();
+        break;
+      }
+      if (c === "|") {
+        scanner.advance();
+        alternatives.push(current);
+        current = { items: [], prec: null, action: null };
+        continue;
+      }
+      if (current.action !== null) {
+        diagnostics.add("warning", "規則の途中の動作には対応していないので省きました。", current.action.at);
+        current.action = null;
+      }
+      if (c === "'" || c === '"') {
+        const value = scanner.readQuoted();
+        if (value === null) {
+          diagnostics.add("error", "閉じられていない文字列があります。", itemAt);
+          continue;
+        }
+        current.items.push({ kind: "literal", text: value });
+      } else if (c === "{") {
+        const code = scanner.readBalanced("{", "}");
+        if (code === null) {
+          diagnostics.add("error", "閉じられていない動作の波括弧 { があります。", itemAt);
+          break;
+        }
+        current.action = { code: code.trim(), at: itemAt };
+      } else if (scanner.startsWith("%prec")) {
+        scanner.advance(5);
+        scanner.skipTrivia();
+        const symbolAt = scanner.here();
+        if (scanner.peek() === "'" || scanner.peek() === '"') {
+          const value = scanner.readQuoted();
+          current.prec = value === null ? null : { kind: "literal", text: value };
+        } else {
+          current.prec = { kind: "name", text: scanner.read(/[A-Za-z_.][A-Za-z0-9_.]*/), at: symbolAt };
+        }
+      } else if (scanner.startsWith("%empty")) {
+        scanner.advance(6);
+      } else if (/[A-Za-z_.]/.test(c)) {
+        current.items.push({ kind: "name", text: scanner.read(/[A-Za-z_.][A-Za-z0-9_.]*/), at: itemAt });
+      } else {
+        diagnostics.add("warning", `規則の中の '${c}' には対応していないので省きました。`, itemAt);
+        scanner.advance();
+      }
+    }
+    rules.push({ left, alternatives });
+  }
+
+  const ruleNames = new Set(rules.map((r) => r.left));
+  const toNonterminal = makeNonterminalNamer();
+  const undeclared = new Set<string>();
+
+  // 右辺の記号をこのサイトの表記にする 規則のない名前は終端記号（別名があれば別名）
+  const symbolText = (item: YaccItem): string => {
+    if (item.kind === "literal") return quoteTerminal(item.text);
+    if (item.text === ERROR_TOKEN) return ERROR_TOKEN;
+    if (ruleNames.has(item.text)) return toNonterminal(item.text);
+    // 宣言部がなければ、宣言していないことは報告しない
+    if (hasDeclarations && !declaredTokens.has(item.text) && !undeclared.has(item.text)) {
+      undeclared.add(item.text);
+      diagnostics.add("warning", `'${item.text}' は %token で宣言されていませんが、終端記号として読み込みました。`, item.at, item.text.length);
+    }
+    return quoteTerminal(tokenAliases.get(item.text) ?? item.text);
+  };
+
+  const lines: string[] = [];
+  if (start !== null) {
+    lines.push(`%start ${toNonterminal(start)}`);
+  }
+  precedences.forEach(({ associativity, symbols }) => {
+    // 規則で使われない名前（%prec専用の UMINUS など）は、名前のまま宣言する
+    const texts = symbols.map((s) =>
+      s.kind === "name" && !declaredTokens.has(s.text) && !ruleNames.has(s.text) ? s.text.replace(/[^A-Za-z0-9_]/g, "_") : symbolText(s)
+    );
+    lines.push(`${ASSOCIATIVITY_DIRECTIVES[associativity]} ${texts.join(" ")}`);
+  });
+  const actions = rules.flatMap(({ alternatives }) => alternatives.flatMap((alt) => (alt.action === null ? [] : [alt.action])));
+  if (actions.length > 0 && !options.keepActions) {
+    diagnostics.add("info", `動作 ${actions.length} 個を省きました。取り込むときは「動作も読み込む」を選んでください。`, actions[0].at);
+  } else if (actions.length > 0) {
+    diagnostics.add(
+      "warning",
+      "動作を取り込みました。動作は「動作を実行する」を押すとJavaScriptとして実行されるので、中身を確かめてから実行してください。",
+      actions[0].at
+    );
+  }
+  rules.forEach(({ left, alternatives }) => {
+    const alternativeTexts = alternatives.map((alt) => {
+      const parts = alt.items.length === 0 ? ["ε"] : alt.items.map(symbolText);
+      if (alt.prec !== null) {
+        const prec = alt.prec;
+        parts.push(
+          "%prec",
+          prec.kind === "name" && !declaredTokens.has(prec.text) && !ruleNames.has(prec.text) ? prec.text.replace(/[^A-Za-z0-9_]/g, "_") : symbolText(prec)
+        );
+      }
+      if (alt.action !== null && options.keepActions) {
+        const error = checkActionCode(alt.items.length, alt.action.code);
+        if (error === null) {
+          parts.push(`{ ${alt.action.code} }`);
+        } else {
+          diagnostics.add("info", `動作をJavaScriptとして読めないので省きました（${error}）。`, alt.action.at);
+        }
+      }
+      return parts.join(" ");
+    });
+    lines.push(`${toNonterminal(left)} -> ${alternativeTexts.join("\n  | ")}`);
+  });
+
+  return finishImport(lines, diagnostics);
+};
+
+// yaccの字句の名前に使える形か（大文字の識別子）
+const isTokenName = (value: string) => /^[A-Z_][A-Z0-9_]*$/.test(value);
+
+// C言語の文字定数 'a' のエスケープ
+const escapeCChar = (c: string) => ({ "'": "\\'", "\\": "\\\\", "\n": "\\n", "\t": "\\t" })[c] ?? c;
+
+/**
+ * yacc / bison の形式で書き出す
+ * 非終端記号は小文字にする 終端記号は、1文字なら 'a'、大文字の識別子ならその名前、それ以外は名前を付けて "別名" で宣言する
+ */
+export const exportYacc = (bnfSet: BNFSet): string => {
+  const tokens = new Map<string, string>(); // 終端記号 -> 字句の名前（宣言が要るもの）
+  const aliases = new Map<string, string>(); // 字句の名前 -> 別名
+  const usedTokenNames = new Set<string>();
+  // error はyaccの予約語なので、ERRORという非終端記号は error_ にする
+  const nonterminal = (name: string) => {
+    const lower = name.toLowerCase().replace(/[^a-z0-9_]/g, "_");
+    return lower === ERROR_TOKEN ? `${lower}_` : lower;
+  };
+
+  const terminal = (value: string): string => {
+    if (value === ERROR_TOKEN) return "error";
+    if (value.length === 1) return `'${escapeCChar(value)}'`;
+    const existing = tokens.get(value);
+    if (existing !== undefined) return existing;
+    // 'if' -> IF、'<=' -> TOKEN_1 のように名前を付ける
+    const base = isTokenName(value) ? value : /^[A-Za-z_][A-Za-z0-9_]*$/.test(value) ? value.toUpperCase() : "TOKEN";
+    let name = base === "TOKEN" ? "TOKEN_1" : base;
+    for (let n = 2; usedTokenNames.has(name); n++) {
+      name = `${base}_${n}`;
+    }
+    usedTokenNames.add(name);
+    tokens.set(value, name);
+    if (name !== value) aliases.set(name, value);
+    return name;
+  };
+
+  // 規則に現れない記号（%prec専用の UMINUS など）は、字句として宣言せずに名前のまま書く
+  const terminals = new Set(bnfSet.getTerminals());
+  const precedenceSymbol = (value: string) => (!terminals.has(value) && /^[A-Za-z_][A-Za-z0-9_]*$/.test(value) ? value : terminal(value));
+
+  const alternativeText = (concat: BNFConcatenation) => {
+    const parts = concat.isEpsilon() ? ["/* empty */"] : concat.getElements().map((e) => (e.getType() === "terminal" ? terminal(e.getValue()) : nonterminal(e.getValue())));
+    const prec = concat.getPrecedenceSymbol();
+    if (prec !== null) parts.push("%prec", precedenceSymbol(prec));
+    const action = concat.getAction();
+    if (action !== null) parts.push(`{ ${action.code} }`);
+    return parts.join(" ");
+  };
+
+  const body: string[] = [];
+  exportedRules(bnfSet).forEach((bnf) => {
+    body.push("", nonterminal(bnf.getLeft()));
+    bnf.getRight().forEach((concat, i) => body.push(`    ${i === 0 ? ":" : "|"} ${alternativeText(concat)}`));
+    body.push("    ;");
+  });
+
+  const precedenceLines = bnfSet
+    .getPrecedenceLevels()
+    .map(({ associativity, symbols }) => `${ASSOCIATIVITY_DIRECTIVES[associativity]} ${symbols.map(precedenceSymbol).join(" ")}`);
+
+  const header = ["/* lr-learning で書き出した文法 */"];
+  tokens.forEach((name) => header.push(aliases.has(name) ? `%token ${name} ${JSON.stringify(aliases.get(name))}` : `%token ${name}`));
+  header.push(...precedenceLines);
+  const start = bnfSet.getStartSymbol();
+  if (exportedRules(bnfSet).length > 0) header.push(`%start ${nonterminal(start)}`);
+
+  return [...header, "", "%%", ...body, "", "%%", ""].join("\n");
+};
+
+/* ---------------------------------------------------------------- ANTLR */
+
+// ANTLRの予約語 規則の名前に使えない
+const ANTLR_KEYWORDS = new Set(["import", "fragment", "lexer", "parser", "grammar", "returns", "locals", "throws", "catch", "finally", "mode", "options", "tokens", "channels"]);
+
+/**
+ * ANTLR の文法（.g4）のパーサ規則を読み込む
+ * - 大文字で始まる名前（字句）は終端記号 字句規則が文字列1つだけなら、その文字列を終端記号にする
+ * - ラベル（x=expr, # Label）は読み飛ばす 動作・述語・引数・~ . 'a'..'z' は対応していないので省いて報告する
+ */
+export const importAntlr = (source: string): GrammarImportResult => {
+  const scanner = new SourceScanner(source, true);
+  const diagnostics = new ImportDiagnostics();
+  const toNonterminal = makeNonterminalNamer();
+  const tokenLiterals = new Map<string, string>(); // 字句規則 NAME : 'lit' ; の NAME -> lit
+  const parserRules: Array<{ left: string; body: string }> = [];
+  let reportedEof = false;
+
+  const readName = () => scanner.read(/[A-Za-z_][A-Za-z0-9_]*/);
+
+  // 規則の終わりの ; まで読み飛ばす（動作や文字列の中の ; は数えない）
+  const skipToSemicolon = () => {
+    while (!scanner.eof() && scanner.peek() !== ";") {
+      if (scanner.peek() === "{") scanner.readBalanced("{", "}");
+      else if (scanner.peek() === "[") scanner.readBalanced("[", "]");
+      else if (scanner.peek() === "'") scanner.readQuoted();
+      else scanner.advance();
+      scanner.skipTrivia();
+    }
+    scanner.advance();
+  };
+
+  // alternatives := alternative ( '|' alternative )*   要素はこのサイトの表記の文字列で返す
+  const parseAlternatives = (): string[] => {
+    const alternatives: string[] = [];
+    for (;;) {
+      const alt = parseAlternative();
+      if (alt !== null) alternatives.push(alt);
+      scanner.skipTrivia();
+      if (scanner.peek() !== "|") return alternatives;
+      scanner.advance();
+    }
+  };
+
+  // 省くべき要素があればnull
+  const parseAlternative = (): string | null => {
+    const parts: string[] = [];
+    let dropped = false;
+    for (;;) {
+      scanner.skipTrivia();
+      const at = scanner.here();
+      const c = scanner.peek();
+      if (scanner.eof() || c === "|" || c === ";" || c === ")") break;
+      if (c === "#") {
+        // 選択肢のラベル
+        scanner.advance();
+        scanner.skipTrivia();
+        readName();
+        continue;
+      }
+      if (c === "<") {
+        scanner.read(/<[^>]*>/);
+        diagnostics.add("warning", "要素のオプション <...> には対応していないので省きました。", at);
+        continue;
+      }
+      if (c === "{") {
+        scanner.readBalanced("{", "}");
+        const predicate = scanner.peek() === "?";
+        if (predicate) scanner.advance();
+        diagnostics.add("warning", predicate ? "意味述語 {...}? には対応していないので省きました。" : "動作 {...} には対応していないので省きました。", at);
+        continue;
+      }
+      if (c === "~" || c === ".") {
+        scanner.advance();
+        diagnostics.add("warning", `'${c}' には対応していないので、この選択肢を省きました。`, at);
+        dropped = true;
+        continue;
+      }
+
+      let atom: string | null;
+      if (c === "'") {
+        const value = scanner.readQuoted();
+        if (value === null) {
+          diagnostics.add("error", "閉じられていない文字列があります。", at);
+          return null;
+        }
+        scanner.skipTrivia();
+        if (scanner.startsWith("..")) {
+          scanner.advance(2);
+          scanner.skipTrivia();
+          scanner.readQuoted();
+          diagnostics.add("warning", "文字の範囲 'a'..'z' には対応していないので、この選択肢を省きました。", at);
+          dropped = true;
+          continue;
+        }
+        atom = quoteTerminal(value);
+      } else if (c === "(") {
+        scanner.advance();
+        const inner = parseAlternatives();
+        scanner.skipTrivia();
+        if (scanner.peek() !== ")") {
+          diagnostics.add("error", "括弧 '(' が閉じられていません。", at);
+          return null;
+        }
+        scanner.advance();
+        atom = inner.length === 0 ? null : `( ${inner.join(" | ")} )`;
+        if (atom === null) dropped = true;
+      } else if (/[A-Za-z_]/.test(c)) {
+        const name = readName();
+        scanner.skipTrivia();
+        // ラベル x=expr x+=expr
+        if (scanner.peek() === "=" || scanner.startsWith("+=")) {
+          scanner.advance(scanner.peek() === "=" ? 1 : 2);
+          continue;
+        }
+        if (scanner.peek() === "[") {
+          scanner.readBalanced("[", "]");
+          diagnostics.add("warning", `規則 ${name} への引数には対応していないので省きました。`, at);
+        }
+        if (name === "EOF") {
+          if (!reportedEof) diagnostics.add("info", "EOF は入力の終わり（$）として扱われるので省きました。", at, 3);
+          reportedEof = true;
+          continue;
+        }
+        atom = /^[A-Z]/.test(name) ? placeholder(name) : toNonterminal(name);
+      } else {
+        diagnostics.add("warning", `'${c}' には対応していないので省きました。`, at);
+        scanner.advance();
+        continue;
+      }
+
+      scanner.skipTrivia();
+      const suffix = scanner.read(/[?*+]/);
+      if (suffix !== "" && scanner.peek() === "?") {
+        scanner.advance();
+        diagnostics.add("info", "最短一致（??, *?, +?）は通常の繰り返しとして読み込みました。", at);
+      }
+      if (atom !== null) parts.push(atom + suffix);
+    }
+    if (dropped) return null;
+    return parts.length === 0 ? "ε" : parts.join(" ");
+  };
+
+  for (scanner.skipTrivia(); !scanner.eof(); scanner.skipTrivia()) {
+    const at = scanner.here();
+    if (scanner.peek() === "@") {
+      scanner.read(/@[A-Za-z_:]+/);
+      scanner.skipTrivia();
+      scanner.readBalanced("{", "}");
+      diagnostics.add("warning", "@header などの動作には対応していないので省きました。", at);
+      continue;
+    }
+    const word = readName();
+    if (word === "") {
+      diagnostics.add("error", `'${scanner.peek()}' は読み込めません。`, at);
+      scanner.advance();
+      continue;
+    }
+    scanner.skipTrivia();
+
+    if (word === "grammar" || word === "parser") {
+      skipToSemicolon();
+      continue;
+    }
+    if (word === "lexer") {
+      diagnostics.add("error", "字句文法（lexer grammar）には対応していません。パーサ規則のある文法を読み込んでください。", at, word.length);
+      skipToSemicolon();
+      continue;
+    }
+    if (word === "options" || word === "tokens" || word === "channels") {
+      scanner.readBalanced("{", "}");
+      if (word === "options") diagnostics.add("info", "options {...} は省きました。", at, word.length);
+      continue;
+    }
+    if (word === "import" || word === "mode") {
+      diagnostics.add("warning", `${word} には対応していないので省きました。`, at, word.length);
+      skipToSemicolon();
+      continue;
+    }
+    if (word === "fragment") {
+      skipToSemicolon();
+      continue;
+    }
+
+    // 規則の名前の後の [引数] returns [...] locals [...] options {...} @init {...}
+    let hasModifier = false;
+    for (;;) {
+      scanner.skipTrivia();
+      const modifierAt = scanner.here();
+      if (scanner.peek() === "[") {
+        scanner.readBalanced("[", "]");
+      } else if (scanner.peek() === "{") {
+        scanner.readBalanced("{", "}");
+      } else if (scanner.peek() === "@") {
+        scanner.read(/@[A-Za-z_]+/);
+        scanner.skipTrivia();
+        scanner.readBalanced("{", "}");
+      } else if (scanner.read(/(returns|locals|throws|options)\b/) !== "") {
+        continue;
+      } else {
+        break;
+      }
+      if (!hasModifier) diagnostics.add("warning", `規則 ${word} の引数や戻り値、動作には対応していないので省きました。`, modifierAt);
+      hasModifier = true;
+    }
+    if (scanner.peek() !== ":") {
+      diagnostics.add("error", `規則 ${word} の後に ':' がありません。`, at, word.length);
+      skipToSemicolon();
+      continue;
+    }
+    scanner.advance();
+
+    if (/^[A-Z]/.test(word)) {
+      // 字句規則 文字列1つだけなら、その名前を文字列の別名にする
+      scanner.skipTrivia();
+      if (scanner.peek() === "'") {
+        const value = scanner.readQuoted();
+        scanner.skipTrivia();
+        if (value !== null && scanner.peek() === ";") tokenLiterals.set(word, value);
+      }
+      skipToSemicolon();
+      continue;
+    }
+
+    const alternatives = parseAlternatives();
+    scanner.skipTrivia();
+    if (scanner.peek() !== ";") {
+      diagnostics.add("error", `規則 ${word} が ';' で終わっていません。`, scanner.here());
+      skipToSemicolon();
+    } else {
+      scanner.advance();
+    }
+    if (alternatives.length === 0) {
+      diagnostics.add("warning", `規則 ${word} の選択肢がすべて省かれました。`, at, word.length);
+      continue;
+    }
+    parserRules.push({ left: word, body: alternatives.join("\n  | ") });
+  }
+
+  // 字句規則はパーサ規則より後に書かれることが多いので、字句の名前は最後に置き換える
+  const lines = parserRules.map(
+    ({ left, body }) => `${toNonterminal(left)} -> ${resolvePlaceholders(body, (name) => quoteTerminal(tokenLiterals.get(name) ?? name))}`
+  );
+  return finishImport(lines, diagnostics);
+};
+
+// ANTLRの文字列 'a'
+const quoteAntlr = (value: string) =>
+  `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n").replace(/\t/g, "\\t").replace(/\r/g, "\\r")}'`;
+
+/**
+ * ANTLR の文法（.g4）として書き出す
+ * 規則の名前は小文字にする 大文字の識別子の終端記号は字句の名前として、それ以外は文字列として書く
+ * error を含む選択肢はANTLRにない書き方なので、コメントにして残す 優先順位の宣言と動作は書き出さない
+ */
+export const exportAntlr = (bnfSet: BNFSet, grammarName: string = "Grammar"): string => {
+  const ruleName = (name: string) => {
+    let lower = name.toLowerCase().replace(/[^a-z0-9_]/g, "_");
+    if (!/^[a-z]/.test(lower)) lower = `r${lower}`;
+    return ANTLR_KEYWORDS.has(lower) ? `${lower}_` : lower;
+  };
+  const element = (value: string, terminal: boolean) => (!terminal ? ruleName(value) : /^[A-Z][A-Za-z0-9_]*$/.test(value) ? value : quoteAntlr(value));
+
+  const lines = [`grammar ${grammarName};`];
+  exportedRules(bnfSet).forEach((bnf) => {
+    lines.push("", ruleName(bnf.getLeft()));
+    let first = true;
+    bnf.getRight().forEach((concat) => {
+      const text = concat
+        .getElements()
+        .map((e) => element(e.getValue(), e.getType() === "terminal"))
+        .join(" ");
+      if (concat.getElements().some((e) => e.isErrorToken())) {
+        lines.push(`    // ${concat.toString()}  (error を使う選択肢はANTLRにないので省きました)`);
+        return;
+      }
+      lines.push(`    ${first ? ":" : "|"} ${text}`.trimEnd());
+      first = false;
+    });
+    if (first) lines.push("    :");
+    lines.push("    ;");
+  });
+  return lines.join("\n") + "\n";
+};
+
+/* ---------------------------------------------------------------- W3C EBNF */
+
+/**
+ * W3C の EBNF（XMLの仕様書の記法）を読み込む
+ *   [1] document ::= prolog element Misc*
+ * - 先頭の [番号] と、[ wfc: ... ] [ vc: ... ] の注記は読み飛ばす
+ * - 規則のない名前は終端記号 '' は ε
+ * - 文字クラス [a-z] や #x20 を使う規則は字句の規則なので、その名前を終端記号として扱う
+ * - A - B（差）は対応していないので、- より後ろを省く
+ */
+export const importW3cEbnf = (source: string): GrammarImportResult => {
+  const scanner = new SourceScanner(source, false);
+  const diagnostics = new ImportDiagnostics();
+  const toNonterminal = makeNonterminalNamer();
+  const NAME = /[A-Za-z_][A-Za-z0-9_.]*(?:-[A-Za-z_][A-Za-z0-9_.]*)*/;
+
+  // 次が「[番号]? 名前 ::=」（新しい規則の始まり）か
+  const ruleStart = /^(\[\s*\d+[a-z]?\s*\]\s*)?([A-Za-z_][A-Za-z0-9_.]*(?:-[A-Za-z_][A-Za-z0-9_.]*)*)\s*::=/;
+
+  type Expression = { text: string; lexical: boolean }; // lexicalなら文字単位の書き方を含む
+  type W3cRule = { name: string; at: { line: number; column: number }; expression: Expression };
+  const rules: W3cRule[] = [];
+
+  // 規則の式を読む 名前が規則か終端記号かはこの時点では分からないので、placeholderにしておく
+  const parseChoice = (): Expression => {
+    const alternatives: Expression[] = [parseSequence()];
+    for (scanner.skipTrivia(); scanner.peek() === "|"; scanner.skipTrivia()) {
+      scanner.advance();
+      alternatives.push(parseSequence());
+    }
+    return { text: alternatives.map((a) => a.text).join(" | "), lexical: alternatives.some((a) => a.lexical) };
+  };
+
+  const parseSequence = (): Expression => {
+    const parts: string[] = [];
+    let lexical = false;
+    for (;;) {
+      scanner.skipTrivia();
+      const at = scanner.here();
+      const c = scanner.peek();
+      if (scanner.eof() || c === "|" || c === ")" || ruleStart.test(scanner.rest())) break;
+
+      let atom: string;
+      if (c === "'" || c === '"') {
+        const quote = c;
+        scanner.advance();
+        let value = "";
+        while (!scanner.eof() && scanner.peek() !== quote && scanner.peek() !== "\n") {
+          value += scanner.peek();
+          scanner.advance();
+        }
+        if (scanner.peek() !== quote) {
+          diagnostics.add("error", "閉じられていない文字列があります。", at);
+        }
+        scanner.advance();
+        atom = value === "" ? "ε" : quoteTerminal(value);
+      } else if (c === "(") {
+        scanner.advance();
+        const inner = parseChoice();
+        scanner.skipTrivia();
+        if (scanner.peek() !== ")") {
+          diagnostics.add("error", "括弧 '(' が閉じられていません。", at);
+        } else {
+          scanner.advance();
+        }
+        lexical ||= inner.lexical;
+        atom = `( ${inner.text} )`;
+      } else if (c === "[") {
+        const content = scanner.readBalanced("[", "]") ?? "";
+        if (/^\s*[A-Za-z]+\s*:/.test(content)) {
+          // [ wfc: ... ] のような注記
+          continue;
+        }
+        lexical = true;
+        atom = "";
+      } else if (c === "#" && scanner.peek(1) === "x") {
+        scanner.read(/#x[0-9A-Fa-f]+/);
+        lexical = true;
+        atom = "";
+      } else if (c === "-") {
+        scanner.advance();
+        diagnostics.add("warning", "差 (A - B) には対応していないので、- より後ろを省きました。", at);
+        scanner.skipTrivia();
+        parseSequence();
+        break;
+      } else if (/[A-Za-z_]/.test(c)) {
+        atom = placeholder(scanner.read(NAME));
+      } else {
+        diagnostics.add("warning", `'${c}' には対応していないので省きました。`, at);
+        scanner.advance();
+        continue;
+      }
+
+      const suffix = scanner.read(/[?*+]/);
+      if (atom !== "") parts.push(atom + suffix);
+    }
+    return { text: parts.length === 0 ? "ε" : parts.join(" "), lexical };
+  };
+
+  for (scanner.skipTrivia(); !scanner.eof(); scanner.skipTrivia()) {
+    const at = scanner.here();
+    const match = ruleStart.exec(scanner.rest());
+    if (match === null) {
+      diagnostics.add("error", `規則の始まり（名前 ::=）がありません: '${scanner.read(/\S+/)}'`, at);
+      scanner.skipLine();
+      continue;
+    }
+    scanner.advance(match[0].length);
+    rules.push({ name: match[2], at, expression: parseChoice() });
+  }
+
+  // 文字単位の規則は字句とみなして、名前を終端記号にする
+  const syntactic = new Set<string>();
+  rules.forEach((rule) => {
+    if (rule.expression.lexical) {
+      diagnostics.add("info", `規則 ${rule.name} は文字クラスを使っているので、終端記号 '${rule.name}' として扱います。`, rule.at, rule.name.length);
+    } else {
+      syntactic.add(rule.name);
+    }
+  });
+  const resolve = (text: string) => resolvePlaceholders(text, (name) => (syntactic.has(name) ? toNonterminal(name) : quoteTerminal(name)));
+
+  const lines: string[] = [];
+  rules
+    .filter((rule) => syntactic.has(rule.name))
+    .forEach((rule) => {
+      lines.push(`${toNonterminal(rule.name)} -> ${resolve(rule.expression.text)}`);
+    });
+  return finishImport(lines, diagnostics);
+};
+
+// W3C EBNFの文字列 エスケープがないので、' を含むなら " で囲む
+const quoteW3c = (value: string) => (value.includes("'") ? `"${value}"` : `'${value}'`);
+
+/**
+ * W3C の EBNF として書き出す ε の選択肢は '' と書く
+ * error を含む選択肢はEBNFにない書き方なので、コメントにして残す
+ */
+export const exportW3cEbnf = (bnfSet: BNFSet): string => {
+  const lines: string[] = [];
+  exportedRules(bnfSet).forEach((bnf) => {
+    const head = `${bnf.getLeft()} ::= `;
+    const indent = " ".repeat(head.length - 2);
+    const alternatives: string[] = [];
+    const comments: string[] = [];
+    bnf.getRight().forEach((concat) => {
+      if (concat.getElements().some((e) => e.isErrorToken())) {
+        comments.push(`/* ${concat.toString()}  (error を使う選択肢は省きました) */`);
+        return;
+      }
+      alternatives.push(
+        concat.isEpsilon()
+          ? "''"
+          : concat
+              .getElements()
+              .map((e) => (e.getType() === "terminal" ? quoteW3c(e.getValue()) : e.getValue()))
+              .join(" ")
+      );
+    });
+    lines.push(...comments);
+    if (alternatives.length > 0) {
+      lines.push(head + alternatives.join(`\n${indent}| `));
+    }
+  });
+  return lines.join("\n") + "\n";
+};
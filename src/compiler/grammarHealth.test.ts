@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { getInternTables, resetInternTables } from "../helper/intern";
+import { checkGrammarHealth } from "./grammarHealth";
+import { parseBnfWithDiagnostics } from "./parseBnf";
+
+// 見つかった問題を "warning 1:0-1 ..." のような文字列にする
+const findingsOf = (grammar: string) =>
+  checkGrammarHealth(parseBnfWithDiagnostics(grammar).bnfSet).map((d) => `${d.severity} ${d.range.line}:${d.range.column}-${d.range.endColumn} ${d.error}`);
+
+describe("checkGrammarHealth", () => {
+  it("問題のない文法では、左再帰の情報のほかは報告しない", () => {
+    expect(findingsOf("E -> E '+' T | T\nT -> '(' E ')' | 'n'")).toEqual(["info 0:0-1 非終端記号 'E' は左再帰です。"]);
+    expect(findingsOf("S -> 'a' S | 'b'")).toEqual([]);
+  });
+
+  it("到達不能な非終端記号を、左辺の位置で報告する ?*+ で生成した規則は報告しない", () => {
+    expect(findingsOf("S -> 'a'\nU -> 'u'")).toEqual(["warning 1:0-1 非終端記号 'U' は開始記号 'S' から到達できません。"]);
+    expect(findingsOf("S -> 'a'\nL -> 'x'*")).toEqual(["warning 1:0-1 非終端記号 'L' は開始記号 'S' から到達できません。"]);
+  });
+
+  it("非生産的な非終端記号を報告し、開始記号なら誤りにする", () => {
+    expect(findingsOf("S -> A | 'a'\nA -> A 'x'")).toContain("warning 1:0-1 非終端記号 'A' は終端記号の列を導出できません（非生産的）。");
+    expect(findingsOf("S -> S 'a'")).toContain("error 0:0-1 非終端記号 'S' は終端記号の列を導出できません（非生産的）。");
+  });
+
+  it("循環を経路つきで報告し、循環している記号は左再帰としては報告しない", () => {
+    expect(findingsOf("S -> A\nA -> B | 'a'\nB -> A")).toEqual([
+      "warning 1:0-1 非終端記号 'A' の導出が循環しています: A => B => A",
+      "warning 2:0-1 非終端記号 'B' の導出が循環しています: B => A => B",
+    ]);
+  });
+
+  it("間接的な左再帰を経路つきで報告する", () => {
+    expect(findingsOf("S -> A 'x' | 'y'\nA -> S 'z'")).toEqual([
+      "info 0:0-1 非終端記号 'S' は間接的に左再帰です: S => A => S",
+      "info 1:0-1 非終端記号 'A' は間接的に左再帰です: A => S => A",
+    ]);
+  });
+
+  it("重複した規則と、非終端記号と同じ名前の終端記号を、書かれている位置で報告する", () => {
+    expect(findingsOf("S -> 'a' | 'a'")).toEqual(["warning 0:11-14 規則 S -> 'a' が重複しています。"]);
+    expect(findingsOf("%right U\nS -> 'a' | 'a' %prec U | 'a' { $$ = 1 }")).toEqual([]);
+    resetInternTables();
+    findingsOf("S -> 'a' | 'a'");
+    expect(getInternTables().productions.size()).toBe(0);
+    expect(findingsOf("S -> 'S' | 'a'")).toEqual(["error 0:5-8 終端記号 'S' が非終端記号 S と同じ名前です。"]);
+  });
+});
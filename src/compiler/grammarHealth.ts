@@ -0,0 +1,194 @@
+import { BNF, BNFError, BNFSet, BNFSeverity, SourceRange } from "./interface/bnf";
+import { analyzeGrammar } from "./grammarAnalysis";
+import { rangeOf } from "./grammarLexer";
+
+/**
+ * 文法の健全性の検査
+ *
+ * - 到達不能: 開始記号から導出の途中に現れることがない非終端記号
+ * - 非生産的: 終端記号だけの列を導出できない非終端記号
+ * - 循環: A =>+ A となる導出がある（文法があいまいになる）
+ * - 左再帰: A =>+ A ... となる導出がある（LR法では問題ないが、LL(1)法では扱えない）
+ * - 重複: 同じ左辺に同じ右辺の規則が2回以上ある
+ * - 名前の衝突: 非終端記号と同じ名前の終端記号がある（構文解析表を作れない）
+ *
+ * 未定義の非終端記号はgetRawBNFWarningThrowsで別に報告するので、ここでは除いて考える
+ */
+export const checkGrammarHealth = (bnfSet: BNFSet): BNFError => {
+  const findings: BNFError = [];
+  const bnfs = bnfSet.getBNFs();
+  const defined = new Set(bnfs.map((bnf) => bnf.getLeft()));
+  const startSymbol = bnfSet.getStartSymbol();
+  const { nullable } = analyzeGrammar(bnfSet, startSymbol);
+
+  // 非終端記号ごとに、最初に左辺として書かれた規則（報告する位置に使う）
+  const firstBNF = new Map<string, BNF>();
+  bnfs.forEach((bnf) => {
+    if (!firstBNF.has(bnf.getLeft())) firstBNF.set(bnf.getLeft(), bnf);
+  });
+  const leftRange = (nt: string): SourceRange => {
+    const bnf = firstBNF.get(nt);
+    return bnf?.getRange() ?? rangeOf(bnf?.getLine() ?? 0, 0, 0);
+  };
+  const push = (severity: BNFSeverity, error: string, explanation: string, range: SourceRange) => {
+    findings.push({ error, line: range.line, range, severity, explanation });
+  };
+
+  // 名前の衝突 LR(0)項集合の遷移は記号の名前で引くので、'A' と A の行き先を区別できない
+  const clashed = new Set<string>();
+  bnfSet.getProductions().forEach((concat) => {
+    concat.getElements().forEach((elem) => {
+      const name = elem.getValue();
+      if (elem.getType() !== "terminal" || !defined.has(name) || clashed.has(name)) return;
+      clashed.add(name);
+      push(
+        "error",
+        `終端記号 '${name}' が非終端記号 ${name} と同じ名前です。`,
+        "状態の遷移とACTION表・GOTO表の列を記号の名前で区別しているため、構文解析表を作れません。どちらかの名前を変えてください。",
+        elem.getRange() ?? leftRange(concat.getLeft())
+      );
+    });
+  });
+
+  // 到達不能
+  const reachable = new Set<string>();
+  if (defined.has(startSymbol)) {
+    const queue = [startSymbol];
+    reachable.add(startSymbol);
+    for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+      bnfSet.getBNFbyLeft(current).forEach((concat) => {
+        concat.getElements().forEach((elem) => {
+          if (elem.getType() === "nonterminal" && defined.has(elem.getValue()) && !reachable.has(elem.getValue())) {
+            reachable.add(elem.getValue());
+            queue.push(elem.getValue());
+          }
+        });
+      });
+    }
+  }
+  // 生成した規則は、元の表記を含む規則が到達不能なときだけ到達不能になるので報告しない
+  defined.forEach((nt) => {
+    if (!reachable.has(nt) && firstBNF.get(nt)?.getGeneratedFrom() === null) {
+      push("warning", `非終端記号 '${nt}' は開始記号 '${startSymbol}' から到達できません。`, "どの導出にも現れないので、この規則は構文解析に使われません。", leftRange(nt));
+    }
+  });
+
+  // 非生産的 終端記号だけの列を導出できる非終端記号を不動点反復で集める
+  const productive = new Set<string>();
+  let changed = true;
+  while (changed) {
+    changed = false;
+    bnfSet.getProductions().forEach((concat) => {
+      if (productive.has(concat.getLeft())) return;
+      if (concat.getElements().every((elem) => elem.getType() === "terminal" || productive.has(elem.getValue()) || !defined.has(elem.getValue()))) {
+        productive.add(concat.getLeft());
+        changed = true;
+      }
+    });
+  }
+  defined.forEach((nt) => {
+    if (productive.has(nt)) return;
+    const explanation =
+      nt === startSymbol
+        ? "開始記号が非生産的なので、この文法が受理する文はありません。"
+        : "どの選択肢も自分自身などの非生産的な非終端記号を含むため、導出が終わりません。";
+    push(nt === startSymbol ? "error" : "warning", `非終端記号 '${nt}' は終端記号の列を導出できません（非生産的）。`, explanation, leftRange(nt));
+  });
+
+  // A -> α B β で、αがεを導出できるときの A → B の辺（左再帰の検査）
+  // さらにβもεを導出できるときは A =>+ B なので、循環の検査にも使う
+  const leftEdges = new Map<string, Set<string>>();
+  const unitEdges = new Map<string, Set<string>>();
+  defined.forEach((nt) => {
+    leftEdges.set(nt, new Set());
+    unitEdges.set(nt, new Set());
+  });
+  bnfSet.getProductions().forEach((concat) => {
+    const elements = concat.getElements();
+    const isNullable = (i: number) => elements[i].getType() === "nonterminal" && nullable.has(elements[i].getValue());
+    for (let i = 0; i < elements.length; i++) {
+      const elem = elements[i];
+      if (elem.getType() === "nonterminal" && defined.has(elem.getValue())) {
+        leftEdges.get(concat.getLeft())?.add(elem.getValue());
+      }
+      if (!isNullable(i)) break;
+    }
+    elements.forEach((elem, i) => {
+      if (elem.getType() === "nonterminal" && defined.has(elem.getValue()) && elements.every((_, j) => j === i || isNullable(j))) {
+        unitEdges.get(concat.getLeft())?.add(elem.getValue());
+      }
+    });
+  });
+
+  // 循環
+  const cyclic = new Set<string>();
+  defined.forEach((nt) => {
+    const path = findCycle(unitEdges, nt);
+    if (path !== null) {
+      cyclic.add(nt);
+      push(
+        "warning",
+        `非終端記号 '${nt}' の導出が循環しています: ${path.join(" => ")}`,
+        "同じ文に対して導出の仕方が無数にあるため、文法があいまいになります。",
+        leftRange(nt)
+      );
+    }
+  });
+
+  // 左再帰 ?*+の展開で生成した規則は、LR法向けにわざと左再帰にしているので報告しない
+  // 循環していれば左再帰でもあるが、循環として報告済みなので除く
+  defined.forEach((nt) => {
+    if (firstBNF.get(nt)?.getGeneratedFrom() !== null || cyclic.has(nt)) return;
+    const path = findCycle(leftEdges, nt);
+    if (path === null) return;
+    const direct = path.length === 2;
+    push(
+      "info",
+      direct ? `非終端記号 '${nt}' は左再帰です。` : `非終端記号 '${nt}' は間接的に左再帰です: ${path.join(" => ")}`,
+      "LR法では問題ありませんが、LL(1)法などの下向き構文解析では扱えません。",
+      leftRange(nt)
+    );
+  });
+
+  // 重複した規則 %precや動作だけが違うものは別の規則なので、それらも含めて比べる
+  // 編集のたびに呼ばれるので、構築用のIDの対応表には登録しない
+  const seen = new Set<string>();
+  bnfs.forEach((bnf) => {
+    bnf.getRight().forEach((concat) => {
+      const key = JSON.stringify([
+        concat.getLeft(),
+        concat.getElements().map((e) => e.toString()),
+        concat.getPrecedenceSymbol(),
+        concat.getAction()?.code ?? null,
+      ]);
+      if (seen.has(key)) {
+        const range = concat.getElements()[0]?.getRange() ?? bnf.getRange() ?? rangeOf(bnf.getLine(), 0, 0);
+        push("warning", `規則 ${concat.toString()} が重複しています。`, "同じ規則は1つの規則として扱われるので、2つ目以降は意味がありません。", range);
+      }
+      seen.add(key);
+    });
+  });
+
+  return findings;
+};
+
+// fromから辺をたどってfromに戻る最短の経路を返す 戻れなければnull
+const findCycle = (edges: Map<string, Set<string>>, from: string): string[] | null => {
+  const parent = new Map<string, string>();
+  const queue = [from];
+  for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+    for (const next of edges.get(current) ?? []) {
+      if (next === from) {
+        const path = [from];
+        for (let nt: string | undefined = current; nt !== undefined && nt !== from; nt = parent.get(nt)) path.unshift(nt);
+        path.unshift(from);
+        return path;
+      }
+      if (!parent.has(next)) {
+        parent.set(next, current);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+};
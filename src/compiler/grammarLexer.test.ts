@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+
+import { tokenizeGrammar } from "./grammarLexer";
+
+const kindsOf = (source: string) => tokenizeGrammar(source).tokens.map((t) => `${t.kind} ${t.text}`);
+
+describe("tokenizeGrammar", () => {
+  it("規則を字句に分け、エスケープを解き、コメントを読み飛ばす", () => {
+    expect(kindsOf("E -> E '+' T | 'it\\'s' # コメント\n")).toEqual([
+      "name E",
+      "arrow ->",
+      "name E",
+      "terminal +",
+      "name T",
+      "bar |",
+      "terminal it's",
+      "newline \n",
+      "eof ",
+    ]);
+  });
+
+  it("正規表現は %token NAME と %skip の直後だけ読む", () => {
+    expect(kindsOf("%token NUM /[0-9]+/\n%skip /[ \\/]+/")).toEqual([
+      "directive %token",
+      "name NUM",
+      "regex [0-9]+",
+      "newline \n",
+      "directive %skip",
+      "regex [ \\/]+",
+      "eof ",
+    ]);
+    // 文字クラスの中の / は区切りにならない
+    expect(kindsOf("%skip /[/]/")).toContain("regex [/]");
+    // 規則の中の / はただの名前の一部
+    expect(kindsOf("S -> a/b")).toEqual(["name S", "arrow ->", "name a/b", "eof "]);
+  });
+
+  it("動作は入れ子の波括弧と文字列の中の括弧を数え、複数行にまたがってもよい", () => {
+    const { tokens, diagnostics } = tokenizeGrammar("E -> 'n' { if (x) { $$ = '}' }\n  y() }");
+    expect(diagnostics).toEqual([]);
+    const action = tokens.find((t) => t.kind === "action");
+    expect(action?.text).toBe("if (x) { $$ = '}' }\n  y()");
+    expect(action?.range).toEqual({ line: 0, column: 9, endLine: 1, endColumn: 7 });
+  });
+
+  it("誤りの範囲を返す", () => {
+    expect(tokenizeGrammar("S -> 'a").diagnostics).toEqual([
+      { error: "閉じられていないクオーテーション ' があります。", line: 0, range: { line: 0, column: 5, endLine: 0, endColumn: 7 }, severity: "error" },
+    ]);
+    expect(tokenizeGrammar("\n%skip /a").diagnostics).toEqual([
+      { error: "閉じられていない正規表現があります。", line: 1, range: { line: 1, column: 6, endLine: 1, endColumn: 8 }, severity: "error" },
+    ]);
+    expect(tokenizeGrammar("S -> 'a' { x").diagnostics[0]).toMatchObject({ range: { line: 0, column: 9, endLine: 0, endColumn: 10 } });
+  });
+});
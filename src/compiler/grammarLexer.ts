@@ -0,0 +1,260 @@
+import { BNFError, SourceRange } from "./interface/bnf";
+
+/*
+構文定義の字句解析
+  name       S, LIST, ε など 空白・クオーテーション・記号 ()|?*+#%{} と "->" "::=" の手前まで
+  terminal   'a' または "a"  \' \" \\ \n \t のエスケープが使える
+  arrow      -> または ::=
+  bar        |
+  lparen / rparen   ( )
+  op         ? * +
+  directive  %start などの指示（textは%を含む）
+  regex      /[0-9]+/ のような正規表現 %token NAME と %skip の直後だけ（textはスラッシュの間）
+  action     { $$ = $1 + $3 } のような動作 入れ子の波括弧を数え、複数行にまたがってもよい（textは波括弧の中身）
+  newline    行末
+  #から行末まではコメント
+*/
+
+export type GrammarTokenKind =
+  | "name"
+  | "terminal"
+  | "regex"
+  | "action"
+  | "arrow"
+  | "bar"
+  | "lparen"
+  | "rparen"
+  | "op"
+  | "directive"
+  | "newline"
+  | "eof";
+
+export type GrammarToken = {
+  kind: GrammarTokenKind;
+  text: string; // terminalならエスケープを解いた中身
+  range: SourceRange;
+};
+
+// 1行の中の範囲を作る
+export const rangeOf = (line: number, column: number, length: number): SourceRange => ({
+  line,
+  column,
+  endLine: line,
+  endColumn: column + length,
+});
+
+// 範囲の始まりと終わりをつなげた範囲
+export const joinRange = (from: SourceRange, to: SourceRange): SourceRange => ({
+  line: from.line,
+  column: from.column,
+  endLine: to.endLine,
+  endColumn: to.endColumn,
+});
+
+const ESCAPES: { [c: string]: string } = { n: "\n", t: "\t", "\\": "\\", "'": "'", '"': '"' };
+
+// 名前に使えない文字
+const isNameBreak = (source: string, i: number) =>
+  /[\s'"()|?*+#%{}]/.test(source[i]) || source.startsWith("->", i) || source.startsWith("::=", i);
+
+/**
+ * startにあるクオーテーションから、同じクオーテーションまでをエスケープを解いて読む
+ * endは閉じのクオーテーションの次の位置 行末までに閉じられなければclosedをfalseにし、endは行末の位置
+ */
+export const readQuoted = (source: string, start: number): { value: string; end: number; closed: boolean } => {
+  const quote = source[start];
+  let value = "";
+  let i = start + 1;
+  while (i < source.length && source[i] !== quote && source[i] !== "\n") {
+    if (source[i] === "\\" && i + 1 < source.length && ESCAPES[source[i + 1]] !== undefined) {
+      value += ESCAPES[source[i + 1]];
+      i += 2;
+    } else {
+      value += source[i];
+      i++;
+    }
+  }
+  return source[i] === quote ? { value, end: i + 1, closed: true } : { value, end: i, closed: false };
+};
+
+export const tokenizeGrammar = (source: string): { tokens: GrammarToken[]; diagnostics: BNFError } => {
+  const tokens: GrammarToken[] = [];
+  const diagnostics: BNFError = [];
+  let line = 0;
+  let lineStart = 0; // 現在の行の先頭の位置
+  let i = 0;
+
+  const push = (kind: GrammarTokenKind, text: string, start: number, length: number) => {
+    tokens.push({ kind, text, range: rangeOf(line, start - lineStart, length) });
+  };
+
+  // 正規表現を書ける位置か（%token NAME の後、%skip の後）
+  const expectsPattern = () => {
+    const last = tokens[tokens.length - 1];
+    const prev = tokens[tokens.length - 2];
+    return (last?.kind === "directive" && last.text === "%skip") || (last?.kind === "name" && prev?.kind === "directive" && prev.text === "%token");
+  };
+
+  while (i < source.length) {
+    const c = source[i];
+
+    if (c === "\n") {
+      push("newline", "\n", i, 0);
+      i++;
+      line++;
+      lineStart = i;
+      continue;
+    }
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    if (c === "#") {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+
+    if (c === "'" || c === '"') {
+      const start = i;
+      const { value, end, closed } = readQuoted(source, i);
+      i = end;
+      if (!closed) {
+        diagnostics.push({
+          error: `閉じられていないクオーテーション ${c} があります。`,
+          line,
+          range: rangeOf(line, start - lineStart, i - start),
+          severity: "error",
+        });
+      }
+      push("terminal", value, start, i - start);
+      continue;
+    }
+
+    if (c === "/" && expectsPattern()) {
+      // 文字クラス [...] の中の / と、\/ は区切りとみなさない
+      const start = i;
+      let inClass = false;
+      i++;
+      while (i < source.length && source[i] !== "\n" && (inClass || source[i] !== "/")) {
+        if (source[i] === "\\" && source[i + 1] !== "\n") {
+          i++;
+        } else if (source[i] === "[") {
+          inClass = true;
+        } else if (source[i] === "]") {
+          inClass = false;
+        }
+        i++;
+      }
+      const body = source.slice(start + 1, i);
+      if (source[i] === "/") {
+        i++;
+      } else {
+        diagnostics.push({
+          error: "閉じられていない正規表現があります。",
+          line,
+          range: rangeOf(line, start - lineStart, i - start),
+          severity: "error",
+        });
+      }
+      push("regex", body, start, i - start);
+      continue;
+    }
+
+    if (c === "{") {
+      // 文字列の中の波括弧は数えない
+      const start = i;
+      const startLine = line;
+      const startColumn = i - lineStart;
+      let depth = 0;
+      let quote: string | null = null;
+      for (; i < source.length; i++) {
+        const ch = source[i];
+        if (ch === "\n") {
+          line++;
+          lineStart = i + 1;
+        }
+        if (quote !== null) {
+          if (ch === "\\" && source[i + 1] !== "\n") {
+            i++;
+          } else if (ch === quote) {
+            quote = null;
+          }
+          continue;
+        }
+        if (ch === "'" || ch === '"' || ch === "`") {
+          quote = ch;
+        } else if (ch === "{") {
+          depth++;
+        } else if (ch === "}" && --depth === 0) {
+          i++;
+          break;
+        }
+      }
+      const range = { line: startLine, column: startColumn, endLine: line, endColumn: i - lineStart };
+      if (depth !== 0) {
+        diagnostics.push({
+          error: "閉じられていない動作の波括弧 { があります。",
+          line: startLine,
+          range: rangeOf(startLine, startColumn, 1),
+          severity: "error",
+        });
+      }
+      tokens.push({ kind: "action", text: source.slice(start + 1, depth === 0 ? i - 1 : i).trim(), range });
+      continue;
+    }
+    if (c === "}") {
+      diagnostics.push({
+        error: "対応する '{' のない '}' があります。",
+        line,
+        range: rangeOf(line, i - lineStart, 1),
+        severity: "error",
+      });
+      i++;
+      continue;
+    }
+
+    if (source.startsWith("->", i)) {
+      push("arrow", "->", i, 2);
+      i += 2;
+      continue;
+    }
+    if (source.startsWith("::=", i)) {
+      push("arrow", "::=", i, 3);
+      i += 3;
+      continue;
+    }
+
+    switch (c) {
+      case "|":
+        push("bar", c, i, 1);
+        i++;
+        continue;
+      case "(":
+        push("lparen", c, i, 1);
+        i++;
+        continue;
+      case ")":
+        push("rparen", c, i, 1);
+        i++;
+        continue;
+      case "?":
+      case "*":
+      case "+":
+        push("op", c, i, 1);
+        i++;
+        continue;
+    }
+
+    const start = i;
+    if (c === "%") i++;
+    while (i < source.length && !isNameBreak(source, i)) i++;
+    if (c === "%") {
+      push("directive", source.slice(start, i), start, i - start);
+    } else {
+      push("name", source.slice(start, i), start, i - start);
+    }
+  }
+
+  push("eof", "", i, 0);
+  return { tokens, diagnostics };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+
+import { BNFSet } from "./interface/bnf";
+import { eliminateLeftRecursion, leftFactor } from "./grammarTransform";
+import buildLL1Table from "./ll1";
+import { parseRawBnf } from "./parseBnf";
+
+const productionsOf = (bnfSet: BNFSet) => bnfSet.getProductions().map((p) => p.toString());
+
+describe("eliminateLeftRecursion", () => {
+  it("直接の左再帰を右再帰と ε の規則にし、LL(1)の衝突をなくす", () => {
+    const bnfSet = parseRawBnf("E -> E '+' T | T\nT -> T '*' 'n' | 'n'");
+    const transformed = eliminateLeftRecursion(bnfSet);
+    expect(productionsOf(transformed)).toEqual([
+      "E -> T E_TAIL",
+      "T -> 'n' T_TAIL",
+      "E_TAIL -> '+' T E_TAIL",
+      "E_TAIL -> ε",
+      "T_TAIL -> '*' 'n' T_TAIL",
+      "T_TAIL -> ε",
+    ]);
+    expect(buildLL1Table(transformed).getConflicts()).toEqual([]);
+    // 元の文法は変えない
+    expect(productionsOf(bnfSet)).toEqual(["E -> E '+' T", "E -> T", "T -> T '*' 'n'", "T -> 'n'"]);
+  });
+
+  it("間接の左再帰は、前の非終端記号の選択肢で置き換えてから除く", () => {
+    const transformed = eliminateLeftRecursion(parseRawBnf("S -> A 'a' | 'b'\nA -> S 'c' | 'd'"));
+    expect(productionsOf(transformed)).toEqual(["S -> A 'a'", "S -> 'b'", "A -> 'b' 'c' A_TAIL", "A -> 'd' A_TAIL", "A_TAIL -> 'a' 'c' A_TAIL", "A_TAIL -> ε"]);
+    expect(transformed.getStartSymbol()).toBe("S");
+  });
+
+  it("新しい非終端記号の名前は、既存の非終端記号とぶつからないようにする", () => {
+    const transformed = eliminateLeftRecursion(parseRawBnf("E -> E '+' 'n' | 'n'\nE_TAIL -> 'z'"));
+    expect(productionsOf(transformed)).toContain("E -> 'n' E_TAIL_2");
+  });
+});
+
+describe("leftFactor", () => {
+  it("共通の接頭辞をくくり出し、新しい非終端記号に残りを移す", () => {
+    const bnfSet = parseRawBnf("S -> 'if' 'e' 'then' S | 'if' 'e' 'then' S 'else' S | 'x'");
+    expect(productionsOf(leftFactor(bnfSet))).toEqual(["S -> 'if' 'e' 'then' S S_FACTOR", "S -> 'x'", "S_FACTOR -> ε", "S_FACTOR -> 'else' S"]);
+  });
+
+  it("くくり出した後の選択肢にも共通の接頭辞があれば、繰り返しくくり出す", () => {
+    const transformed = leftFactor(parseRawBnf("S -> 'a' 'b' 'c' | 'a' 'b' 'd' | 'a' 'e'"));
+    expect(productionsOf(transformed)).toEqual([
+      "S -> 'a' S_FACTOR",
+      "S_FACTOR -> 'b' S_FACTOR_FACTOR",
+      "S_FACTOR -> 'e'",
+      "S_FACTOR_FACTOR -> 'c'",
+      "S_FACTOR_FACTOR -> 'd'",
+    ]);
+    expect(buildLL1Table(transformed).getConflicts()).toEqual([]);
+  });
+});
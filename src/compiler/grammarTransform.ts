@@ -0,0 +1,174 @@
+/**
+ * 下向き構文解析（LL(1)法）に向けた文法の変形
+ * どちらも元のBNFSetは変更せず、新しいBNFSetを返す
+ *
+ * - 左再帰の除去: A -> A α | β  =>  A -> β A_TAIL   A_TAIL -> α A_TAIL | ε
+ * - 左くくり出し: A -> α β1 | α β2  =>  A -> α A_FACTOR   A_FACTOR -> β1 | β2
+ */
+
+import { BNF, BNFConcatenation, BNFElement, BNFSet } from "./interface/bnf";
+
+// 変形の途中で扱う形 左辺ごとの選択肢（要素の並び）
+type RuleMap = Map<string, BNFElement[][]>;
+
+// 拡大文法の規則を除いて、左辺ごとにまとめる（同じ左辺が複数の行にあっても1つにする）
+const toRuleMap = (bnfSet: BNFSet): RuleMap => {
+  const rules: RuleMap = new Map();
+  bnfSet
+    .getBNFs()
+    .filter((bnf) => !bnf.isAugmented())
+    .forEach((bnf) => {
+      const alternatives = rules.get(bnf.getLeft()) ?? [];
+      bnf.getRight().forEach((concat) => alternatives.push([...concat.getElements()]));
+      rules.set(bnf.getLeft(), alternatives);
+    });
+  return rules;
+};
+
+// 元の規則の行と範囲を引き継いで、BNFSetに戻す 新しく作った非終端記号は元にした非終端記号の行にする
+const fromRuleMap = (original: BNFSet, rules: RuleMap, origins: Map<string, string>): BNFSet => {
+  const bnfSet = new BNFSet();
+  bnfSet.setStartSymbol(original.getStartSymbol());
+  rules.forEach((alternatives, left) => {
+    const source = original.getBNFbyLeft(left).length > 0 ? left : origins.get(left);
+    const sourceBNF = original.getBNFs().find((b) => b.getLeft() === source);
+    const bnf = new BNF();
+    bnf.setLeft(left);
+    bnf.setLine(sourceBNF?.getLine() ?? 0);
+    const range = sourceBNF?.getRange();
+    if (range) bnf.setRange(range);
+    alternatives.forEach((elements) => {
+      const concat = new BNFConcatenation(left);
+      elements.forEach((e) => concat.addElement(e));
+      bnf.addRight(concat);
+    });
+    bnfSet.addBNF(bnf);
+  });
+  return bnfSet;
+};
+
+// 既存の非終端記号とぶつからない名前 ぶつかれば _2, _3 ... を付ける
+const uniqueName = (rules: RuleMap, name: string) => {
+  let unique = name;
+  for (let n = 2; rules.has(unique); n++) {
+    unique = `${name}_${n}`;
+  }
+  return unique;
+};
+
+const startsWith = (elements: BNFElement[], nonterminal: string) =>
+  elements.length > 0 && elements[0].getType() === "nonterminal" && elements[0].getValue() === nonterminal;
+
+// fromから、選択肢の先頭の非終端記号をたどってtoに着けるか
+const leftReaches = (rules: RuleMap, from: string, to: string) => {
+  const visited = new Set<string>([from]);
+  const queue = [from];
+  for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+    for (const elements of rules.get(current) ?? []) {
+      if (elements.length === 0 || elements[0].getType() !== "nonterminal") continue;
+      const next = elements[0].getValue();
+      if (next === to) return true;
+      if (!visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  return false;
+};
+
+/**
+ * 直接・間接の左再帰を除去する
+ * 非終端記号を定義順 A1, A2, ... に並べ、Ai -> Aj γ (j < i) を Aj の選択肢で置き換えてから、Ai の直接左再帰を除く
+ * ただし置き換えるのは Aj から Ai に先頭をたどって着ける（間接左再帰になっている）ときだけにして、文法が不要に大きくならないようにする
+ * εを導出できる記号が先頭に隠れた左再帰（A -> B A 'a' で B =>* ε）や、循環する文法は対象外
+ */
+export const eliminateLeftRecursion = (bnfSet: BNFSet): BNFSet => {
+  const rules = toRuleMap(bnfSet);
+  const origins = new Map<string, string>();
+  const order = Array.from(rules.keys());
+
+  order.forEach((ai, i) => {
+    for (let j = 0; j < i; j++) {
+      const aj = order[j];
+      if (!leftReaches(rules, aj, ai)) continue;
+      const replaced = (rules.get(ai) ?? []).flatMap((elements) =>
+        startsWith(elements, aj) ? (rules.get(aj) ?? []).map((delta) => [...delta, ...elements.slice(1)]) : [elements]
+      );
+      rules.set(ai, replaced);
+    }
+
+    const alternatives = rules.get(ai) ?? [];
+    const recursive = alternatives.filter((elements) => startsWith(elements, ai));
+    if (recursive.length === 0) {
+      return;
+    }
+    const others = alternatives.filter((elements) => !startsWith(elements, ai));
+    const tail = uniqueName(rules, `${ai}_TAIL`);
+    const tailElement = new BNFElement("nonterminal", tail);
+    rules.set(
+      ai,
+      others.map((beta) => [...beta, tailElement])
+    );
+    rules.set(tail, [...recursive.map((elements) => [...elements.slice(1), tailElement]), []]);
+    origins.set(tail, origins.get(ai) ?? ai);
+  });
+
+  return fromRuleMap(bnfSet, rules, origins);
+};
+
+const sameElement = (a: BNFElement, b: BNFElement) => a.getType() === b.getType() && a.getValue() === b.getValue();
+
+// 選択肢の並びに共通する最長の接頭辞の長さ
+const commonPrefixLength = (alternatives: BNFElement[][]) => {
+  let length = 0;
+  while (alternatives.every((elements) => length < elements.length && sameElement(elements[length], alternatives[0][length]))) {
+    length++;
+  }
+  return length;
+};
+
+/**
+ * 左くくり出し
+ * 先頭の記号が同じ選択肢をまとめ、共通の接頭辞の後ろを新しい非終端記号に移す
+ * 新しい非終端記号の選択肢にも共通の接頭辞があり得るので、変化がなくなるまで繰り返す
+ */
+export const leftFactor = (bnfSet: BNFSet): BNFSet => {
+  const rules = toRuleMap(bnfSet);
+  const origins = new Map<string, string>();
+  const queue = Array.from(rules.keys());
+
+  for (let left = queue.shift(); left !== undefined; left = queue.shift()) {
+    const alternatives = rules.get(left) ?? [];
+    const group = alternatives.filter(
+      (elements, i) => elements.length > 0 && alternatives.some((other, k) => k !== i && other.length > 0 && sameElement(other[0], elements[0]))
+    );
+    if (group.length === 0) {
+      continue;
+    }
+    // 先頭の記号が同じ最初のまとまりだけをくくり出し、残りは次の繰り返しで扱う
+    const head = group[0][0];
+    const same = alternatives.filter((elements) => elements.length > 0 && sameElement(elements[0], head));
+    const prefix = same[0].slice(0, commonPrefixLength(same));
+    const factor = uniqueName(rules, `${left}_FACTOR`);
+
+    const replaced: BNFElement[][] = [];
+    alternatives.forEach((elements) => {
+      if (!same.includes(elements)) {
+        replaced.push(elements);
+      } else if (elements === same[0]) {
+        // くくり出した選択肢は、最初に現れた位置に置く
+        replaced.push([...prefix, new BNFElement("nonterminal", factor)]);
+      }
+    });
+    rules.set(left, replaced);
+    rules.set(
+      factor,
+      same.map((elements) => elements.slice(prefix.length))
+    );
+    origins.set(factor, origins.get(left) ?? left);
+    queue.push(left, factor);
+  }
+
+  return fromRuleMap(bnfSet, rules, origins);
+};
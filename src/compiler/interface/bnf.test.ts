@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "../algorithms";
+import { parseRawBnf } from "../parseBnf";
+import { parseTokens } from "../parser";
+import { BNF, BNFConcatenation, BNFElement, quoteTerminal } from "./bnf";
+
+const production = (left: string, ...terminals: string[]) => {
+  const concat = new BNFConcatenation(left);
+  terminals.forEach((t) => concat.addElement(new BNFElement("terminal", t)));
+  return concat;
+};
+
+describe("BNFConcatenation.getId", () => {
+  it("別のオブジェクトでも、同じ規則なら同じIDになる", () => {
+    expect(production("E", "n").getId()).toBe(production("E", "n").getId());
+    expect(production("E", "n").getId()).not.toBe(production("T", "n").getId());
+  });
+
+  it("%prec や動作だけが違う規則は別のIDになる", () => {
+    const plain = production("E", "-", "n");
+    const withPrec = production("E", "-", "n");
+    withPrec.setPrecedenceSymbol("UMINUS");
+    const withAction = production("E", "-", "n");
+    withAction.setAction({ code: "$$ = -$2", range: null });
+    expect(new Set([plain.getId(), withPrec.getId(), withAction.getId()]).size).toBe(3);
+  });
+
+  it("動作だけが違う規則はクロージャで1つにまとめず、還元還元衝突になる", () => {
+    const { table } = algorithms.lalr1.build(parseRawBnf("S -> 'n' { $$ = 1 }\nS -> 'n' { $$ = 2 }"));
+    expect(table.getConflicts()).toHaveLength(1);
+    expect(table.getConflicts()[0].actions.map((a) => a.type)).toEqual(["reduce", "reduce"]);
+  });
+});
+
+describe("quoteTerminal", () => {
+  it("字句解析で元に戻るようにエスケープする", () => {
+    expect(quoteTerminal("it's")).toBe("'it\\'s'");
+    expect(quoteTerminal("a\\b")).toBe("'a\\\\b'");
+    expect(quoteTerminal("\n\t")).toBe("'\\n\\t'");
+  });
+
+  it("BNFElement.toString でも同じ書き方になり、読み直すと同じ終端記号になる", () => {
+    const bnfSet = parseRawBnf("S -> 'it\\'s' 'a\\\\b'");
+    const text = bnfSet.getProductions().map((p) => p.toString()).join("\n");
+    expect(parseRawBnf(text).getTerminals()).toEqual(["it's", "a\\b"]);
+  });
+});
+
+describe("BNFSet.getAugmentedProduction", () => {
+  it("開始記号から S' -> S $ を作り、規則の先頭に1度だけ追加する", () => {
+    const bnfSet = parseRawBnf("%start B\nA -> 'a'\nB -> A");
+    const augmented = bnfSet.getAugmentedProduction();
+    expect(augmented.toString()).toBe("B' -> B $");
+    expect(bnfSet.getAugmentedProduction()).toBe(augmented);
+    expect(bnfSet.getBNFs().filter((bnf) => bnf.isAugmented())).toHaveLength(1);
+    expect(bnfSet.getBNFs()[0].isAugmented()).toBe(true);
+    // 拡大文法の規則を追加しても開始記号は変わらない
+    expect(bnfSet.getStartSymbol()).toBe("B");
+  });
+
+  it("左辺の名前が文法の非終端記号とぶつかるなら ' を重ねる", () => {
+    const bnfSet = parseRawBnf("S -> 'a'");
+    const clash = new BNF();
+    clash.setLeft("S'");
+    clash.addRight(production("S'", "b"));
+    bnfSet.addBNF(clash);
+    expect(bnfSet.getAugmentedProduction().toString()).toBe("S'' -> S $");
+  });
+
+  it("開始記号を変えると、受理する入力も変わる", () => {
+    const accepts = (grammar: string, input: string[]) => parseTokens(algorithms.lalr1.build(parseRawBnf(grammar)).table, input).accepted;
+    expect(accepts("A -> 'a' B\nB -> 'b'", ["a", "b"])).toBe(true);
+    expect(accepts("A -> 'a' B\nB -> 'b'", ["b"])).toBe(false);
+    expect(accepts("%start B\nA -> 'a' B\nB -> 'b'", ["b"])).toBe(true);
+    expect(accepts("%start B\nA -> 'a' B\nB -> 'b'", ["a", "b"])).toBe(false);
+  });
+});
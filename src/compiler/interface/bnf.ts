@@ -1,9 +1,25 @@
-import { encryptSha256 } from "../../helper/hash.js";
+import { getInternTables } from "../../helper/intern";
+
+// 入力の終わりを表す終端記号（ACTION表の列として使う）
+export const END_MARKER = "$";
+
+// 構文エラーからの回復に使う終端記号 右辺に error と書く（yaccと同じく予約語）
+export const ERROR_TOKEN = "error";
+
+// 終端記号を構文定義の書き方 'a' にする 字句解析のエスケープ（\\ \' \n \t）の逆
+export const quoteTerminal = (value: string) =>
+  `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'").replace(/\n/g, "\\n").replace(/\t/g, "\\t")}'`;
+
+// 構文定義の中の範囲 行・列とも0始まりで、endLine/endColumnの位置は含まない
+export type SourceRange = { line: number; column: number; endLine: number; endColumn: number };
 
 export class BNFElement {
   private type: "terminal" | "nonterminal" | null;
   private value: string;
   private wildcard: string;
+  private range: SourceRange | null = null; // 構文定義の中でこの要素が書かれている範囲
+  private id = 0; // getIdの結果 type, value, wildcardを変えたら作り直す
+  private idGeneration = -1; // idを作ったときのIDの対応表の世代
 
   constructor(type: "terminal" | "nonterminal" | null = null, value: string = "", wildcard: string = "") {
     this.type = type;
@@ -13,14 +29,17 @@ export class BNFElement {
 
   setType(t: "terminal" | "nonterminal") {
     this.type = t;
+    this.idGeneration = -1;
   }
 
   setValue(v: string) {
     this.value = v;
+    this.idGeneration = -1;
   }
 
   setWildcard(w: string) {
     this.wildcard = w;
+    this.idGeneration = -1;
   }
 
   getWildcard() {
@@ -35,31 +54,92 @@ export class BNFElement {
     return this.value;
   }
 
-  //typeとvalueをもとに、この要素のハッシュ値を生成する
-  getHash(): string {
-    return encryptSha256(`${this.type}|${this.value}|${this.wildcard}`);
+  setRange(range: SourceRange) {
+    this.range = range;
+  }
+
+  getRange() {
+    return this.range;
+  }
+
+  // 書かれている行（0始まり） 位置が分からない要素は-1
+  getLine() {
+    return this.range?.line ?? -1;
+  }
+
+  // 書かれている列（0始まり） 位置が分からない要素は-1
+  getColumn() {
+    return this.range?.column ?? -1;
+  }
+
+  // typeとvalueをもとにした記号のID
+  getId(): number {
+    const tables = getInternTables();
+    if (this.idGeneration !== tables.generation) {
+      this.id = tables.symbols.intern(`${this.type}|${this.value}|${this.wildcard}`);
+      this.idGeneration = tables.generation;
+    }
+    return this.id;
+  }
+
+  // 入力の終わりを表す終端記号か（拡大文法の S' -> S $ の $）
+  isEndMarker() {
+    return this.type === "terminal" && this.value === END_MARKER;
+  }
+
+  // 構文エラーからの回復に使う error か
+  isErrorToken() {
+    return this.type === "terminal" && this.value === ERROR_TOKEN;
   }
 
-  getHashByDot(dot: number): string {
-    return encryptSha256(`${this.type}|${this.value}|${this.wildcard}|${dot}`);
+  // 表示用の文字列 終端記号は'a'のようにクオーテーションで囲む（END_MARKERとERROR_TOKENはそのまま）
+  toString(): string {
+    if (this.isEndMarker() || this.isErrorToken()) {
+      return this.value;
+    }
+    if (this.type === "terminal") {
+      return quoteTerminal(this.value);
+    }
+    return this.value;
   }
 }
 
+// 選択肢の最後に書いた { $$ = $1 + $3 } の動作
+export type SemanticAction = {
+  code: string; // 波括弧の中身
+  range: SourceRange | null; // 波括弧を含めた範囲
+};
+
 export class BNFConcatenation {
   private left: string;
   private elements: BNFElement[];
+  private id = 0; // getIdの結果 要素や%prec、動作を変えたら作り直す
+  private idGeneration = -1;
+  private precedenceSymbol: string | null = null; // %precで指定した、優先順位を借りる記号
+  private action: SemanticAction | null = null;
 
   constructor(left: string) {
     this.left = left;
     this.elements = [];
   }
 
-  getHash(): string {
-    return encryptSha256(`${this.left}|${this.elements.map((e) => e.getHash()).join(",")}`);
+  /**
+   * 左辺と右辺の記号、%prec、動作をもとにした生成規則のID 同じ規則が重複していても1つのIDになる
+   * %precや動作だけが違う規則は、還元したときの結果が違うので別の規則として扱う
+   */
+  getId(): number {
+    const tables = getInternTables();
+    if (this.idGeneration !== tables.generation) {
+      const symbols = `${tables.symbols.intern(`nonterminal|${this.left}|`)}:${this.elements.map((e) => e.getId()).join(",")}`;
+      this.id = tables.productions.intern(`${symbols}|${JSON.stringify([this.precedenceSymbol, this.action?.code ?? null])}`);
+      this.idGeneration = tables.generation;
+    }
+    return this.id;
   }
 
   addElement(e: BNFElement) {
     this.elements.push(e);
+    this.idGeneration = -1;
   }
 
   getElements() {
@@ -73,12 +153,46 @@ export class BNFConcatenation {
   getLeft() {
     return this.left;
   }
+
+  setPrecedenceSymbol(symbol: string) {
+    this.precedenceSymbol = symbol;
+    this.idGeneration = -1;
+  }
+
+  getPrecedenceSymbol() {
+    return this.precedenceSymbol;
+  }
+
+  setAction(action: SemanticAction) {
+    this.action = action;
+    this.idGeneration = -1;
+  }
+
+  getAction() {
+    return this.action;
+  }
+
+  // εの規則（要素が空）かどうか
+  isEpsilon() {
+    return this.elements.length === 0;
+  }
+
+  // 表示用の文字列 例: SEQ -> SEQ 'COMMA' LIST  εの規則は A -> ε
+  toString(): string {
+    if (this.isEpsilon()) {
+      return `${this.left} -> ε`;
+    }
+    return `${this.left} -> ${this.elements.map((e) => e.toString()).join(" ")}`;
+  }
 }
 
 export class BNF {
   private left: string;
   private right: BNFConcatenation[];
   private line: number = 0; // このBNFが定義されている行数（0始まり）
+  private generatedFrom: string | null = null; // ?*+や括弧の展開で生成した規則なら、元の表記
+  private range: SourceRange | null = null; // 左辺の非終端記号が書かれている範囲（生成した規則なら元の表記の範囲）
+  private augmented: boolean = false; // 拡大文法で追加した S' -> S $ の規則か
 
   constructor() {
     this.left = "";
@@ -97,6 +211,26 @@ export class BNF {
     this.line = line;
   }
 
+  setGeneratedFrom(text: string) {
+    this.generatedFrom = text;
+  }
+
+  setRange(range: SourceRange) {
+    this.range = range;
+  }
+
+  getRange() {
+    return this.range;
+  }
+
+  setAugmented(augmented: boolean) {
+    this.augmented = augmented;
+  }
+
+  isAugmented() {
+    return this.augmented;
+  }
+
   getLeft() {
     return this.left;
   }
@@ -108,15 +242,93 @@ export class BNF {
   getLine() {
     return this.line;
   }
+
+  getGeneratedFrom() {
+    return this.generatedFrom;
+  }
 }
 
+/**
+ * %token / %skip で宣言した字句の規則
+ *   %token NUM /[0-9]+/   =>  { name: "NUM", pattern: "[0-9]+", isRegex: true }
+ *   %token LPAR "("       =>  { name: "LPAR", pattern: "(", isRegex: false }
+ *   %skip /\s+/           =>  { name: null, pattern: "\\s+", isRegex: true }
+ */
+export type TokenSpec = {
+  name: string | null; // %skipならnull（読み飛ばす）
+  pattern: string; // 正規表現のソース、または文字列そのもの
+  isRegex: boolean;
+  range: SourceRange | null; // 宣言が書かれている範囲
+};
+
+export type Associativity = "left" | "right" | "nonassoc";
+
+// %left / %right / %nonassoc で宣言した優先順位 levelは後の行ほど大きく（強く）なる
+export type Precedence = { level: number; associativity: Associativity };
+
 export class BNFSet {
   private bnfs: BNF[];
+  private startSymbol: string | null = null; // %startで指定された開始記号
+  private tokenSpecs: TokenSpec[] = []; // 宣言順
+  private precedences = new Map<string, Precedence>();
+  private precedenceLevels = 0;
 
   constructor() {
     this.bnfs = [];
   }
 
+  setStartSymbol(name: string) {
+    this.startSymbol = name;
+  }
+
+  addTokenSpec(spec: TokenSpec) {
+    this.tokenSpecs.push(spec);
+  }
+
+  getTokenSpecs() {
+    return this.tokenSpecs;
+  }
+
+  // 1行の宣言にある記号はすべて同じ優先順位になる
+  addPrecedence(associativity: Associativity, symbols: string[]) {
+    this.precedenceLevels++;
+    symbols.forEach((symbol) => this.precedences.set(symbol, { level: this.precedenceLevels, associativity }));
+  }
+
+  getPrecedence(symbol: string): Precedence | null {
+    return this.precedences.get(symbol) ?? null;
+  }
+
+  hasPrecedences() {
+    return this.precedences.size > 0;
+  }
+
+  // 宣言の行ごとの記号 弱い順（宣言した順）
+  getPrecedenceLevels(): Array<{ associativity: Associativity; symbols: string[] }> {
+    const levels: Array<{ associativity: Associativity; symbols: string[] }> = [];
+    this.precedences.forEach(({ level, associativity }, symbol) => {
+      (levels[level - 1] ??= { associativity, symbols: [] }).symbols.push(symbol);
+    });
+    return levels.filter((level) => level !== undefined);
+  }
+
+  /**
+   * 生成規則の優先順位 %precがあればその記号の、なければ右辺の最も右の終端記号の優先順位（yaccと同じ）
+   * 優先順位が決まらなければnull
+   */
+  getProductionPrecedence(concat: BNFConcatenation): Precedence | null {
+    const symbol = concat.getPrecedenceSymbol() ?? concat.getElements().findLast((e) => e.getType() === "terminal")?.getValue();
+    return symbol === undefined ? null : this.getPrecedence(symbol);
+  }
+
+  // 開始記号 %startで指定がなければ、最初の規則の左辺
+  getStartSymbol(): string {
+    if (this.startSymbol !== null) {
+      return this.startSymbol;
+    }
+    return this.bnfs.find((bnf) => !bnf.isAugmented())?.getLeft() ?? "S";
+  }
+
   getBNFs() {
     return this.bnfs;
   }
@@ -125,6 +337,29 @@ export class BNFSet {
     this.bnfs.push(b);
   }
 
+  // すべての生成規則を定義順に並べたもの 添字がそのまま生成規則の番号になる
+  getProductions(): BNFConcatenation[] {
+    return this.bnfs.flatMap((bnf) => bnf.getRight());
+  }
+
+  // 左辺に現れる非終端記号（定義順、重複なし）
+  getNonterminals(): string[] {
+    return Array.from(new Set(this.bnfs.map((bnf) => bnf.getLeft())));
+  }
+
+  // 右辺に現れる終端記号（出現順、重複なし） 拡大文法のEND_MARKERは含めない
+  getTerminals(): string[] {
+    const terminals = new Set<string>();
+    this.getProductions().forEach((concat) => {
+      concat.getElements().forEach((elem) => {
+        if (elem.getType() === "terminal" && !elem.isEndMarker()) {
+          terminals.add(elem.getValue());
+        }
+      });
+    });
+    return Array.from(terminals);
+  }
+
   getBNFbyLeft(left: string): BNFConcatenation[] {
     const result: BNFConcatenation[] = [];
     this.bnfs.forEach((bnf) => {
@@ -135,27 +370,42 @@ export class BNFSet {
     return result;
   }
 
-  getStartSymbol(): BNFConcatenation {
-    // Sから始まる右辺の通りが1つであれば、そのBNFConcatenationを返す
-    const bc = this.getBNFbyLeft("S");
-    if (bc.length === 1) {
-      return bc[0];
+  /**
+   * 拡大文法の規則 S' -> start $ を返す
+   * まだ無ければ先頭（生成規則の0番）に追加する 何度呼んでも追加されるのは1回だけ
+   * 受理は、この規則のドットが $ の直前にあるときに $ を読んだ時点と定める
+   */
+  getAugmentedProduction(): BNFConcatenation {
+    const existing = this.bnfs.find((bnf) => bnf.isAugmented());
+    if (existing) {
+      return existing.getRight()[0];
     }
 
-    // S´ -> Sを追記し、それを返す
-    const sDash = "S´";
-    const nbc = new BNFConcatenation(sDash);
-    nbc.addElement(new BNFElement("nonterminal", "S"));
-    const newBNF = new BNF();
-    newBNF.setLeft(sDash);
-    newBNF.addRight(nbc);
-    this.addBNF(newBNF);
-    return nbc;
+    const start = this.getStartSymbol();
+    // 文法の中の非終端記号とぶつからないように ' を重ねる
+    let left = `${start}'`;
+    while (this.bnfs.some((bnf) => bnf.getLeft() === left)) {
+      left += "'";
+    }
+    const concat = new BNFConcatenation(left);
+    concat.addElement(new BNFElement("nonterminal", start));
+    concat.addElement(new BNFElement("terminal", END_MARKER));
+    const augmented = new BNF();
+    augmented.setLeft(left);
+    augmented.addRight(concat);
+    augmented.setAugmented(true);
+    this.bnfs.unshift(augmented);
+    return concat;
   }
 }
 
+// error: 構築できない誤り warning: 構築はできるが意図と違う可能性が高い info: 知っておくとよいこと
+export type BNFSeverity = "error" | "warning" | "info";
+
 export type BNFError = Array<{
   error: string;
   line: number; // 0始まり、bnfの行数
-  isError?: boolean;
+  range: SourceRange; // 問題のある箇所
+  severity: BNFSeverity;
+  explanation?: string; // なぜ問題なのかの短い説明
 }>;
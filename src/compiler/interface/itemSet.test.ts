@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "../algorithms";
+import { parseRawBnf } from "../parseBnf";
+import { parseTokens } from "../parser";
+
+const build = (grammar: string, algorithm: keyof typeof algorithms = "lr0") => algorithms[algorithm].build(parseRawBnf(grammar));
+const itemsOf = (grammar: string, algorithm: keyof typeof algorithms = "lr0") =>
+  build(grammar, algorithm).itemSets.map((itemSet) => itemSet.getItems().map((item) => item.toString()));
+
+describe("ε規則", () => {
+  it("ε規則の項はクロージャで追加した時点で完了項になり、εでの遷移は作らない", () => {
+    const { itemSets } = build("S -> A 'b'\nA -> ε | 'a'");
+    expect(itemSets[0].getItems().map((item) => item.toString())).toEqual(["S' -> • S $", "S -> • A 'b'", "A -> •", "A -> • 'a'"]);
+    expect(itemSets[0].getItems()[2].isComplete()).toBe(true);
+    expect([...itemSets[0].getGotos().keys()]).toEqual(["S", "A", "a"]);
+  });
+
+  it("ε規則の還元は、LR(1)では先読みを次の記号から求める", () => {
+    expect(itemsOf("S -> A B\nA -> ε\nB -> ε", "lr1").slice(0, 3)).toEqual([
+      ["[S' -> • S $, $]", "[S -> • A B, $]", "[A -> •, $]"],
+      ["[S' -> S • $, $]"],
+      ["[S -> A • B, $]", "[B -> •, $]"],
+    ]);
+  });
+
+  it("εを還元して空の節を作り、入力を受理する", () => {
+    const table = build("S -> A 'b'\nA -> ε | 'a'", "slr1").table;
+    expect(table.getActions(0, "b")).toEqual([{ type: "reduce", production: 2 }]);
+    const result = parseTokens(table, ["b"]);
+    expect(result.accepted).toBe(true);
+    expect(result.tree.children.map((child) => [child.symbol, child.children.length])).toEqual([
+      ["A", 0],
+      ["b", 0],
+    ]);
+  });
+});
+
+describe("構築の途中経過", () => {
+  // 途中経過を "created 2 0 a" のような1行ずつの文字列にする
+  const eventsOf = (grammar: string) =>
+    build(grammar).events.map((e) => {
+      switch (e.type) {
+        case "stateCreated":
+          return `created ${e.state}${e.from === null ? "" : ` ${e.from.state} ${e.from.symbol}`}`;
+        case "closureItemAdded":
+          return `closure ${e.state} ${e.item} <- ${e.cause}`;
+        case "duplicateState":
+          return `duplicate ${e.from} ${e.symbol} ${e.state}`;
+        case "gotoComputed":
+          return `goto ${e.from} ${e.symbol} ${e.to}`;
+      }
+    });
+
+  it("状態の作成・クロージャの項・既存の状態への遷移を、計算した順に記録する", () => {
+    expect(eventsOf("S -> 'a' S | 'b'")).toEqual([
+      "created 0",
+      "closure 0 S -> • 'a' S <- S' -> • S $",
+      "closure 0 S -> • 'b' <- S' -> • S $",
+      "created 1 0 S",
+      "goto 0 S 1",
+      "created 2 0 a",
+      "goto 0 a 2",
+      "created 3 0 b",
+      "goto 0 b 3",
+      "closure 2 S -> • 'a' S <- S -> 'a' • S",
+      "closure 2 S -> • 'b' <- S -> 'a' • S",
+      "created 4 2 S",
+      "goto 2 S 4",
+      "duplicate 2 a 2",
+      "goto 2 a 2",
+      "duplicate 2 b 3",
+      "goto 2 b 3",
+    ]);
+  });
+
+  // LR(1)のクロージャの項は追加した時点の先読みで記録するので、LR(0)で比べる
+  it("途中経過を最後まで再生すると、できあがったオートマトンと同じ項と遷移になる", () => {
+    const { itemSets, events } = build("E -> E '+' T | T\nT -> T '*' 'n' | 'n'");
+    const items = itemSets.map(() => [] as string[]);
+    const gotos = itemSets.map(() => new Map<string, number>());
+    events.forEach((e) => {
+      if (e.type === "stateCreated") items[e.state].push(...e.kernel.map((item) => item.toString()));
+      if (e.type === "closureItemAdded") items[e.state].push(e.item.toString());
+      if (e.type === "gotoComputed") gotos[e.from].set(e.symbol, e.to);
+    });
+    expect(items).toEqual(itemSets.map((itemSet) => itemSet.getItems().map((item) => item.toString())));
+    expect(gotos).toEqual(itemSets.map((itemSet) => itemSet.getGotos()));
+  });
+});
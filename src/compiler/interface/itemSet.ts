@@ -1,6 +1,28 @@
 import { LRItem } from "./lrItem";
-import { BNFSet, BNFConcatenation, BNFElement } from "./bnf";
-import { encryptSha256 } from "../../helper/hash.js";
+import { BNFSet, BNFConcatenation, BNFElement, END_MARKER } from "./bnf";
+import { analyzeGrammar, firstOfSequence, GrammarAnalysis } from "../grammarAnalysis";
+import { resetInternTables } from "../../helper/intern";
+
+/**
+ * オートマトン構築の途中経過 構築の様子を1手ずつ再生するために記録する
+ * - stateCreated: 新しい状態を作った（fromはどの状態からどの記号で遷移して作ったか 状態0ならnull）
+ * - closureItemAdded: クロージャでitemを追加した（causeはドットの直後にその左辺があった項）
+ * - duplicateState: 遷移先の核が既存の状態と同じだったので、新しい状態を作らなかった
+ * - gotoComputed: 状態fromから記号symbolでの遷移先がtoに決まった
+ */
+export type ConstructionEvent =
+  | { type: "stateCreated"; state: number; kernel: LRItem[]; from: { state: number; symbol: string } | null }
+  | { type: "closureItemAdded"; state: number; item: LRItem; cause: LRItem }
+  | { type: "duplicateState"; from: number; symbol: string; state: number; kernel: LRItem[] }
+  | { type: "gotoComputed"; from: number; symbol: string; to: number };
+
+// 核となる項の集合のキー 項のIDを並べ替えてつなげるので、項の順番によらない
+export const getKernelKey = (items: LRItem[]) =>
+  items
+    .map((item) => item.getId())
+    .sort((a, b) => a - b)
+    .join(",");
+
 export class LRItemSet {
   //最終的なLRオートマトン集合の、ノードの状態を表す成果物
   private lrItems: LRItem[];
@@ -16,9 +38,14 @@ export class LRItemSet {
     this.initItems.forEach((item) => this.addItem(item));
   }
 
-  //private readonly itemをもとに、この集合の1つのハッシュ値を生成する
-  getHash(): string {
-    return encryptSha256(this.lrItems.map((item) => item.getHash()).join(","));
+  // 状態を区別するキー 同じ核からは同じクロージャができるので、核だけで決まる
+  getKernelKey(): string {
+    return getKernelKey(this.initItems);
+  }
+
+  // 核となる項の集合が同じ状態か（項の順番は問わない）
+  hasSameKernel(other: LRItemSet) {
+    return this.getKernelKey() === other.getKernelKey();
   }
 
   /**
@@ -27,34 +54,33 @@ export class LRItemSet {
    * そのため、次のノードに渡すべきdotを含んだLRItemを返却する。この過程では、Advanceを行っておく。
    * このメソッドは、そのItemSet単体で動作する
    * @param item コアとなるLRItem
+   * @param onItemAdded クロージャで項を追加するたびに、追加した項とその原因の項で呼ばれる
    * @returns 次には制すべきLRItemの集合（keyは遷移すべき状態名）
    */
-  closure(BNFSet: BNFSet): { [name: string]: Array<LRItem> } {
+  closure(BNFSet: BNFSet, onItemAdded?: (item: LRItem, cause: LRItem) => void): Map<string, LRItem[]> {
     // const nextElement = this.item.getDotNextElement();
     const nextElements = this.initItems.map((item) => item.getDotNextElement());
     // const nextElementsDotPositions = this.initItems.map((item) => item.getDotPosition());
 
     //ここでのname/keyは遷移すべきstateを表現する
-    const rvItems: { [name: string]: Array<LRItem> } = {};
+    // 記号の名前をキーにするので、constructorのような名前がObjectのプロパティと混ざらないようMapにする
+    const rvItems = new Map<string, LRItem[]>();
+    const rvItemIds = new Map<string, Set<number>>(); // 遷移先ごとに、追加済みの項のID
 
     const pushRvItems = (name: string, item: LRItem) => {
-      if (rvItems[name]) {
-        // ここでもhashを使って重複排除したい
-        const hashSet = new Set<string>();
-        rvItems[name].forEach((existingItem) => {
-          hashSet.add(existingItem.getHash());
-        });
-
-        if (!hashSet.has(item.getHash())) {
-          rvItems[name].push(item);
-        }
-      } else {
-        rvItems[name] = [item];
+      const ids = rvItemIds.get(name) ?? new Set<number>();
+      if (ids.has(item.getId())) {
+        return;
       }
+      ids.add(item.getId());
+      rvItemIds.set(name, ids);
+      const list = rvItems.get(name) ?? [];
+      list.push(item);
+      rvItems.set(name, list);
     };
 
     if (!nextElements) {
-      return {};
+      return rvItems;
     }
     const que = nextElements.map((_, index) => ({
       queNewItem: this.initItems[index], //次に処理するべきLRItem
@@ -69,7 +95,10 @@ export class LRItemSet {
     //   }
     // });
 
-    const hashSet = new Set<string>();
+    // 核となる項も含めておき、同じ項をクロージャで二重に追加しないようにする
+    const itemIds = new Set<number>(this.initItems.map((item) => item.getId()));
+    // 展開済みの非終端記号 LR(0)項では B -> • γ の項は一度の展開ですべて揃うので、二度目は何も増えない
+    const expanded = new Set<string>();
 
     while (que.length > 0) {
       const currentQue = que.shift();
@@ -86,62 +115,151 @@ export class LRItemSet {
         if (queElement.getType() === "nonterminal") {
           // rvItems[queElement.getValue()] = [queNewItem.advance()];
           pushRvItems(queElement.getValue(), queNewItem.advance());
+          if (expanded.has(queElement.getValue())) {
+            continue;
+          }
+          expanded.add(queElement.getValue());
 
           // クロージャを計算する処理
           BNFSet.getBNFbyLeft(queElement.getValue()).forEach((concat) => {
             const newItem = new LRItem(concat);
 
-            if (hashSet.has(newItem.getHash())) {
+            if (itemIds.has(newItem.getId())) {
               return;
             }
-            hashSet.add(newItem.getHash());
+            itemIds.add(newItem.getId());
             this.addItem(newItem);
+            onItemAdded?.(newItem, queNewItem);
 
             const dotNext = newItem.getDotNextElement();
 
-            if (rvItems[dotNext.getValue()]) {
-              console.warn("LR(0)のクロージャ計算で、同じ遷移先が複数回出現しました", dotNext.getValue(), rvItems[dotNext.getValue()]);
-              // rvItems[dotNext.getValue()].push(newItem.advance());
-              pushRvItems(dotNext.getValue(), newItem.advance());
-              console.log("追加されたアイテム", rvItems[dotNext.getValue()]);
-            } else {
-              // rvItems[dotNext.getValue()] = [newItem.advance()];
-              pushRvItems(dotNext.getValue(), newItem.advance());
+            // εの規則（A -> •）は追加した時点で完了項なので、遷移はない
+            if (dotNext === undefined) {
+              return;
             }
 
+            // 同じ遷移先が複数回出現した場合も、pushRvItemsが重複を除いて追加する
+            pushRvItems(dotNext.getValue(), newItem.advance());
+
             // if (dotNext.getType() === "nonterminal") {
             que.push({
               queNewItem: newItem,
             });
             // }
           });
-        } else {
+        } else if (!queElement.isEndMarker()) {
           // 終端記号なら、そのままrvに追加
+          // $ は受理の目印なので遷移は作らない（S' -> S • $ の状態で受理する）
           pushRvItems(queElement.getValue(), queNewItem.advance());
         }
       }
     }
 
-    console.log("クロージャ計算", this.initItems, rvItems);
-
     // 変換して渡す
     return rvItems;
   }
 
+  /**
+   * closureのLR(1)版 先読み記号を伝播させながらクロージャを計算する
+   * [A -> α • B β, a] があれば、Bの各規則について [B -> • γ, FIRST(β a)] を追加する
+   * コアが同じ項は1つにまとめ、先読みの集合が増えなくなるまで繰り返す
+   * 返り値の形はclosureと同じ（keyは遷移すべき状態名、値はドットを進めた項）
+   */
+  closureLR1(
+    BNFSet: BNFSet,
+    analysis: GrammarAnalysis,
+    onItemAdded?: (item: LRItem, cause: LRItem) => void
+  ): Map<string, LRItem[]> {
+    // コアのID -> 項のコアと先読み集合
+    const items = new Map<number, { concat: BNFConcatenation; dot: number; lookaheads: Set<string> }>();
+    const que: number[] = [];
+
+    this.initItems.forEach((item) => {
+      items.set(item.getCoreId(), {
+        concat: item.getConcatenation(),
+        dot: item.getDotPosition(),
+        lookaheads: new Set(item.getLookaheads()),
+      });
+      que.push(item.getCoreId());
+    });
+
+    while (que.length > 0) {
+      const current = items.get(que.shift() as number);
+      if (current === undefined) {
+        continue;
+      }
+
+      const elements = current.concat.getElements();
+      const queElement = elements[current.dot];
+      if (!queElement || queElement.getType() !== "nonterminal") {
+        continue;
+      }
+
+      // Bの後ろの記号列βのFIRST βがεを導出できるなら元の先読みも引き継ぐ
+      const rest = firstOfSequence(elements.slice(current.dot + 1), analysis);
+      const lookaheads = new Set(rest.first);
+      if (rest.nullable) {
+        current.lookaheads.forEach((la) => lookaheads.add(la));
+      }
+
+      // 途中経過に記録する項は、その時点の先読みで1回だけ作る
+      let cause: LRItem | null = null;
+      let sortedLookaheads: string[] | null = null;
+      BNFSet.getBNFbyLeft(queElement.getValue()).forEach((concat) => {
+        const newItem = new LRItem(concat);
+        const existing = items.get(newItem.getCoreId());
+        if (existing === undefined) {
+          items.set(newItem.getCoreId(), { concat, dot: 0, lookaheads: new Set(lookaheads) });
+          que.push(newItem.getCoreId());
+          if (onItemAdded) {
+            cause ??= new LRItem(current.concat, current.dot, current.lookaheads);
+            sortedLookaheads ??= Array.from(lookaheads).sort();
+            onItemAdded(new LRItem(concat, 0, sortedLookaheads), cause);
+          }
+          return;
+        }
+        const before = existing.lookaheads.size;
+        lookaheads.forEach((la) => existing.lookaheads.add(la));
+        if (existing.lookaheads.size !== before) {
+          que.push(newItem.getCoreId());
+        }
+      });
+    }
+
+    this.lrItems = [];
+    items.forEach(({ concat, dot, lookaheads }) => this.addItem(new LRItem(concat, dot, lookaheads)));
+
+    // 遷移記号ごとに、ドットを進めた項をまとめる
+    // 記号の名前をキーにするので、constructorのような名前がObjectのプロパティと混ざらないようMapにする
+    const rvItems = new Map<string, LRItem[]>();
+    this.lrItems.forEach((item) => {
+      const next = item.getDotNextElement();
+      if (!next || next.isEndMarker()) {
+        return;
+      }
+      const list = rvItems.get(next.getValue()) ?? [];
+      list.push(item.advance());
+      rvItems.set(next.getValue(), list);
+    });
+
+    return rvItems;
+  }
+
   addItem(item: LRItem) {
     this.lrItems.push(item);
   }
 
-  addGoto(state: string, itemSetIndex: number) {
-    this.goto.set(state, itemSetIndex);
+  // クロージャ計算後は、核となる項とクロージャで追加された項の両方を含む
+  getItems() {
+    return this.lrItems;
   }
 
-  replaceGoto(prevItemSetIndex: number, newItemSetIndex: number) {
-    this.goto.forEach((value, key) => {
-      if (value === prevItemSetIndex) {
-        this.goto.set(key, newItemSetIndex);
-      }
-    });
+  getKernelItems() {
+    return this.initItems;
+  }
+
+  addGoto(state: string, itemSetIndex: number) {
+    this.goto.set(state, itemSetIndex);
   }
 
   getGoto(state: string): number | undefined {
@@ -154,29 +272,57 @@ export class LRItemSet {
 }
 export class LRItemSets {
   private itemSets: Array<LRItemSet>;
+  private startConcatenation: BNFConcatenation | null = null;
+  private analysis: GrammarAnalysis | null = null; // LR(1)項の先読み計算に使う
+  private events: ConstructionEvent[] = [];
 
-  constructor(private readonly BNFSet: BNFSet) {
+  // lookaheadがtrueならLR(1)項で正準LR(1)オートマトンを作る
+  constructor(private readonly BNFSet: BNFSet, private readonly lookahead: boolean = false) {
     this.itemSets = [];
   }
 
   startCalculation() {
-    this.calcClosure(new LRItem(this.BNFSet.getStartSymbol()));
+    // 前の構築までのIDを捨てる 構築した結果どうしは、次の構築が始まるまでIDで比べられる
+    resetInternTables();
+    this.startConcatenation = this.BNFSet.getAugmentedProduction();
+    if (this.lookahead) {
+      this.analysis = analyzeGrammar(this.BNFSet, this.startConcatenation.getLeft());
+      this.calcClosure(new LRItem(this.startConcatenation, 0, [END_MARKER]));
+    } else {
+      this.calcClosure(new LRItem(this.startConcatenation));
+    }
     return this.itemSets;
   }
 
+  // 構築の途中経過 startCalculationの後で呼ぶこと
+  getEvents() {
+    return this.events;
+  }
+
+  // 受理の基準となる拡大文法の規則 S' -> S $ startCalculationの後で呼ぶこと
+  getStartConcatenation() {
+    if (this.startConcatenation === null) {
+      throw new Error("startCalculationを実行する前に開始規則を取得しようとしました");
+    }
+    return this.startConcatenation;
+  }
+
   calcClosure(startItem: LRItem) {
     const que: Array<{
       queItemSetIndex: number; // 計算元のItemSetのindex
       // queItems: Array<LRItem>; //展開するべきItem(dotは進めている)
     }> = [];
 
-    // nodehash hash:nodeindex
-    const nodeHash: Map<string, number> = new Map();
+    // 核のキー -> 状態番号
+    const stateByKernel: Map<string, number> = new Map();
 
     const startItemSet = new LRItemSet([startItem]);
+    const startIndex = this.addItemSet(startItemSet);
+    stateByKernel.set(startItemSet.getKernelKey(), startIndex);
+    this.events.push({ type: "stateCreated", state: startIndex, kernel: [startItem], from: null });
 
     que.push({
-      queItemSetIndex: this.addItemSet(startItemSet),
+      queItemSetIndex: startIndex,
       // queItems: [startItem],
     });
 
@@ -193,25 +339,32 @@ export class LRItemSets {
         throw new Error("Unexpected null itemSet");
       }
 
-      const nextItemSet = this.itemSets[queItemSetIndex].closure(this.BNFSet);
+      const onItemAdded = (item: LRItem, cause: LRItem) => {
+        this.events.push({ type: "closureItemAdded", state: queItemSetIndex, item, cause });
+      };
+      const nextItemSet =
+        this.analysis === null
+          ? this.itemSets[queItemSetIndex].closure(this.BNFSet, onItemAdded)
+          : this.itemSets[queItemSetIndex].closureLR1(this.BNFSet, this.analysis, onItemAdded);
 
-      for (const [nextState, nItemList] of Object.entries(nextItemSet)) {
-        const nItemListHash = (() => {
-          return nItemList.map((item) => item.getHash()).join(",");
-        })();
+      for (const [nextState, nItemList] of nextItemSet) {
+        const kernelKey = getKernelKey(nItemList);
 
-        if (nodeHash.has(nItemListHash)) {
-          // すでにhashがあった場合、前の状態から現在の状態へ遷移は、すでにある状態へつなげる
-          const equalNodeIndex = nodeHash.get(nItemListHash);
+        if (stateByKernel.has(kernelKey)) {
+          // 同じ核の状態が既にあった場合、前の状態から現在の状態へ遷移は、すでにある状態へつなげる
+          const equalNodeIndex = stateByKernel.get(kernelKey);
 
           if (equalNodeIndex !== undefined) {
+            this.events.push({ type: "duplicateState", from: queItemSetIndex, symbol: nextState, state: equalNodeIndex, kernel: nItemList });
             this.itemSets[queItemSetIndex].addGoto(nextState, equalNodeIndex);
+            this.events.push({ type: "gotoComputed", from: queItemSetIndex, symbol: nextState, to: equalNodeIndex });
             continue;
           }
         }
         const nItemSet = new LRItemSet(nItemList);
         const nextItemSetIndex = this.addItemSet(nItemSet);
-        nodeHash.set(nItemListHash, nextItemSetIndex);
+        stateByKernel.set(kernelKey, nextItemSetIndex);
+        this.events.push({ type: "stateCreated", state: nextItemSetIndex, kernel: nItemList, from: { state: queItemSetIndex, symbol: nextState } });
 
         que.push({
           queItemSetIndex: nextItemSetIndex,
@@ -220,6 +373,7 @@ export class LRItemSets {
 
         // 状態遷移を紐づける
         this.itemSets[queItemSetIndex].addGoto(nextState, nextItemSetIndex);
+        this.events.push({ type: "gotoComputed", from: queItemSetIndex, symbol: nextState, to: nextItemSetIndex });
       }
     }
   }
@@ -0,0 +1,85 @@
+import { BNFConcatenation, END_MARKER } from "./bnf";
+
+// 表に規則を入れた理由 FIRST集合に含まれるからか、右辺がεを導出できてFOLLOW集合に含まれるからか
+export type LL1EntrySource = "first" | "follow";
+
+export type LL1Conflict = {
+  nonterminal: string;
+  terminal: string;
+  type: "FIRST/FIRST" | "FIRST/FOLLOW";
+  productions: number[];
+};
+
+/**
+ * LL(1)の予測構文解析表
+ * 行が非終端記号、列が先読みの終端記号で、セルには展開する生成規則の番号を入れる
+ * ParseTableと同じく、2つ以上入ったセルを衝突として扱う
+ */
+export class LL1Table {
+  private cells = new Map<string, Map<string, Array<{ production: number; source: LL1EntrySource }>>>();
+
+  constructor(
+    private readonly terminals: string[], // END_MARKERは含めない
+    private readonly nonterminals: string[],
+    private readonly productions: BNFConcatenation[]
+  ) {
+    nonterminals.forEach((nt) => this.cells.set(nt, new Map()));
+  }
+
+  // 同じ規則が既に入っていれば追加しない
+  addEntry(nonterminal: string, terminal: string, production: number, source: LL1EntrySource) {
+    const row = this.cells.get(nonterminal);
+    if (!row) {
+      return;
+    }
+    const cell = row.get(terminal) ?? [];
+    if (cell.some((e) => e.production === production)) {
+      return;
+    }
+    cell.push({ production, source });
+    row.set(terminal, cell);
+  }
+
+  getEntries(nonterminal: string, terminal: string): number[] {
+    return (this.cells.get(nonterminal)?.get(terminal) ?? []).map((e) => e.production);
+  }
+
+  // 表の列 最後にEND_MARKERを付ける
+  getTerminals() {
+    return [...this.terminals, END_MARKER];
+  }
+
+  getNonterminals() {
+    return this.nonterminals;
+  }
+
+  getProductions() {
+    return this.productions;
+  }
+
+  getConflicts(): LL1Conflict[] {
+    const conflicts: LL1Conflict[] = [];
+    this.cells.forEach((row, nonterminal) => {
+      row.forEach((entries, terminal) => {
+        if (entries.length < 2) {
+          return;
+        }
+        conflicts.push({
+          nonterminal,
+          terminal,
+          type: entries.every((e) => e.source === "first") ? "FIRST/FIRST" : "FIRST/FOLLOW",
+          productions: entries.map((e) => e.production),
+        });
+      });
+    });
+    return conflicts;
+  }
+
+  hasConflict(nonterminal: string, terminal: string) {
+    return this.getEntries(nonterminal, terminal).length > 1;
+  }
+
+  isLL1() {
+    return this.getConflicts().length === 0;
+  }
+}
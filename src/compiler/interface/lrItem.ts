@@ -1,11 +1,25 @@
 import { BNFConcatenation, BNFElement } from "./bnf";
+import { getInternTables } from "../../helper/intern";
+
+// 並べ替え済みで重複のない配列か（他の項の先読みをそのまま渡されたときは、並べ替えを省く）
+const isSortedUnique = (symbols: string[]) => symbols.every((s, i) => i === 0 || symbols[i - 1] < s);
 
 export class LRItem {
-  constructor(private readonly concatenation: BNFConcatenation, private readonly dotPosition: number = 0) {}
+  private readonly lookaheads: string[];
+  // 項のIDと、それを作ったときのIDの対応表の世代 コアは生成規則のIDとドットの位置、LR(1)項はさらに先読みの集合で決まる
+  private coreId = 0;
+  private coreIdGeneration = -1;
+  private id = 0;
+  private idGeneration = -1;
+
+  // lookaheadsはLR(1)項の先読み記号の集合 LR(0)項では空のまま
+  constructor(private readonly concatenation: BNFConcatenation, private readonly dotPosition: number = 0, lookaheads: Iterable<string> = []) {
+    this.lookaheads = Array.isArray(lookaheads) && isSortedUnique(lookaheads) ? lookaheads : Array.from(new Set(lookaheads)).sort();
+  }
 
   // ドットを進めるメソッド
   advance() {
-    return new LRItem(this.concatenation, this.dotPosition + 1);
+    return new LRItem(this.concatenation, this.dotPosition + 1, this.lookaheads);
   }
 
   // ドットの位置を取得
@@ -17,7 +31,47 @@ export class LRItem {
     return this.concatenation.getElementAt(this.dotPosition);
   }
 
-  getHash(): string {
-    return `${this.concatenation.getHash()}|${this.dotPosition}`;
+  getConcatenation() {
+    return this.concatenation;
+  }
+
+  getLookaheads() {
+    return this.lookaheads;
+  }
+
+  // ドットが右端まで進んでいれば完了項（還元の対象）
+  isComplete() {
+    return this.dotPosition >= this.concatenation.getElements().length;
+  }
+
+  // 先読みを除いた部分（コア）のID LALR(1)で状態を併合するときに使う
+  getCoreId(): number {
+    const tables = getInternTables();
+    if (this.coreIdGeneration !== tables.generation) {
+      this.coreId = tables.cores.intern(`${this.concatenation.getId()}.${this.dotPosition}`);
+      this.coreIdGeneration = tables.generation;
+    }
+    return this.coreId;
+  }
+
+  // 先読みも含めた項のID 先読みのない項ではコアのIDとは別の番号になる
+  getId(): number {
+    const tables = getInternTables();
+    if (this.idGeneration !== tables.generation) {
+      this.id = tables.items.intern(`${this.getCoreId()}|${this.lookaheads.join(",")}`);
+      this.idGeneration = tables.generation;
+    }
+    return this.id;
+  }
+
+  // 表示用の文字列 例: SEQ -> SEQ • 'COMMA' LIST  LR(1)項なら [SEQ -> SEQ • 'COMMA' LIST, RPAR/COMMA]
+  toString(): string {
+    const symbols = this.concatenation.getElements().map((e) => e.toString());
+    symbols.splice(this.dotPosition, 0, "•");
+    const core = `${this.concatenation.getLeft()} -> ${symbols.join(" ")}`;
+    if (this.lookaheads.length === 0) {
+      return core;
+    }
+    return `[${core}, ${this.lookaheads.join("/")}]`;
   }
 }
@@ -0,0 +1,151 @@
+import { BNFConcatenation, END_MARKER } from "./bnf";
+
+export type ParseAction =
+  | { type: "shift"; state: number } // 状態stateへシフト
+  | { type: "reduce"; production: number } // production番目の生成規則で還元
+  | { type: "accept" };
+
+export type ParseConflict = {
+  state: number;
+  symbol: string;
+  type: "shift/reduce" | "reduce/reduce";
+  actions: ParseAction[];
+  productions: string[]; // 衝突に関わる生成規則（表示用）
+};
+
+// %left / %right / %nonassoc で解決したシフト還元衝突
+export type ResolvedConflict = {
+  state: number;
+  symbol: string;
+  actions: ParseAction[]; // 解決する前のセルの動作
+  chosen: ParseAction | null; // 残した動作 %nonassocで両方消してエラーにしたならnull
+  reason: string; // どの宣言で決まったか（表示用）
+};
+
+// 表のセルに表示する短い表記 s3, r2, acc
+export const formatParseAction = (action: ParseAction): string => {
+  switch (action.type) {
+    case "shift":
+      return `s${action.state}`;
+    case "reduce":
+      return `r${action.production}`;
+    case "accept":
+      return "acc";
+  }
+};
+
+/**
+ * ACTION表とGOTO表
+ * ACTIONのセルには複数の動作を入れられるようにしておき、2つ以上入ったセルを衝突として扱う
+ */
+export class ParseTable {
+  private action: Array<Map<string, ParseAction[]>>;
+  private goto: Array<Map<string, number>>;
+  private resolved: ResolvedConflict[] = [];
+
+  constructor(
+    private readonly terminals: string[], // END_MARKERは含めない
+    private readonly nonterminals: string[],
+    private readonly productions: BNFConcatenation[],
+    private readonly startConcatenation: BNFConcatenation,
+    stateCount: number
+  ) {
+    this.action = Array.from({ length: stateCount }, () => new Map<string, ParseAction[]>());
+    this.goto = Array.from({ length: stateCount }, () => new Map<string, number>());
+  }
+
+  // 同じ動作が既に入っていれば追加しない
+  addAction(state: number, symbol: string, action: ParseAction) {
+    const cell = this.action[state].get(symbol) ?? [];
+    if (cell.some((a) => formatParseAction(a) === formatParseAction(action))) {
+      return;
+    }
+    cell.push(action);
+    this.action[state].set(symbol, cell);
+  }
+
+  // 衝突したセルを1つの動作（nullなら空のセル）にして、解決した記録を残す
+  resolveConflict(state: number, symbol: string, chosen: ParseAction | null, reason: string) {
+    const actions = this.getActions(state, symbol);
+    if (chosen === null) {
+      this.action[state].delete(symbol);
+    } else {
+      this.action[state].set(symbol, [chosen]);
+    }
+    this.resolved.push({ state, symbol, actions, chosen, reason });
+  }
+
+  // 読み込んだJSONから解決の記録を戻すときに使う セルは変えない
+  addResolvedConflict(resolved: ResolvedConflict) {
+    this.resolved.push(resolved);
+  }
+
+  getResolvedConflicts() {
+    return this.resolved;
+  }
+
+  getActions(state: number, symbol: string): ParseAction[] {
+    return this.action[state]?.get(symbol) ?? [];
+  }
+
+  setGoto(state: number, nonterminal: string, nextState: number) {
+    this.goto[state].set(nonterminal, nextState);
+  }
+
+  getGoto(state: number, nonterminal: string): number | undefined {
+    return this.goto[state]?.get(nonterminal);
+  }
+
+  getStateCount() {
+    return this.action.length;
+  }
+
+  // ACTION表の列 最後にEND_MARKERを付ける
+  getActionSymbols() {
+    return [...this.terminals, END_MARKER];
+  }
+
+  getGotoSymbols() {
+    return this.nonterminals;
+  }
+
+  getProductions() {
+    return this.productions;
+  }
+
+  getProduction(index: number) {
+    return this.productions[index];
+  }
+
+  getStartConcatenation() {
+    return this.startConcatenation;
+  }
+
+  getConflicts(): ParseConflict[] {
+    const conflicts: ParseConflict[] = [];
+    this.action.forEach((row, state) => {
+      row.forEach((actions, symbol) => {
+        if (actions.length < 2) {
+          return;
+        }
+        const productions = actions.flatMap((a) => {
+          if (a.type === "reduce") return [this.productions[a.production].toString()];
+          if (a.type === "accept") return [this.startConcatenation.toString()];
+          return [];
+        });
+        conflicts.push({
+          state,
+          symbol,
+          type: actions.some((a) => a.type === "shift") ? "shift/reduce" : "reduce/reduce",
+          actions,
+          productions,
+        });
+      });
+    });
+    return conflicts;
+  }
+
+  hasConflict(state: number, symbol: string) {
+    return this.getActions(state, symbol).length > 1;
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import { mergeStatesByCore } from "./lalr1";
+import { parseRawBnf } from "./parseBnf";
+
+// LALR(1)だがSLR(1)ではない文法 SLR(1)では FOLLOW(R) に '=' が入り、L • = R のシフトと R -> L • の還元が衝突する
+const LALR_NOT_SLR = "S -> L '=' R | R\nL -> '*' R | 'id'\nR -> L";
+// LR(1)だがLALR(1)ではない文法 'a' 'c' と 'b' 'c' の後の状態はコアが同じで、併合すると先読みが混ざる
+const LR1_NOT_LALR = "S -> 'a' A 'd' | 'b' B 'd' | 'a' B 'e' | 'b' A 'e'\nA -> 'c'\nB -> 'c'";
+
+const build = (grammar: string, algorithm: keyof typeof algorithms) => algorithms[algorithm].build(parseRawBnf(grammar));
+const conflictsOf = (grammar: string, algorithm: keyof typeof algorithms) =>
+  build(grammar, algorithm).table.getConflicts().map((c) => `${c.type} ${c.symbol}`);
+
+describe("LR(1) / LALR(1)", () => {
+  it("LALR(1)だがSLR(1)ではない文法では、LALR(1)の先読みで衝突がなくなる", () => {
+    expect(conflictsOf(LALR_NOT_SLR, "slr1")).toEqual(["shift/reduce ="]);
+    expect(conflictsOf(LALR_NOT_SLR, "lalr1")).toEqual([]);
+    expect(conflictsOf(LALR_NOT_SLR, "lr1")).toEqual([]);
+  });
+
+  it("LALR(1)の状態数はLR(0)と同じで、正準LR(1)より少ない", () => {
+    expect(build(LALR_NOT_SLR, "lr0").itemSets).toHaveLength(10);
+    expect(build(LALR_NOT_SLR, "lalr1").itemSets).toHaveLength(10);
+    expect(build(LALR_NOT_SLR, "lr1").itemSets).toHaveLength(14);
+  });
+
+  it("LR(1)だがLALR(1)ではない文法では、併合した状態に還元還元衝突ができる", () => {
+    expect(conflictsOf(LR1_NOT_LALR, "lr1")).toEqual([]);
+    expect(conflictsOf(LR1_NOT_LALR, "lalr1")).toEqual(["reduce/reduce d", "reduce/reduce e"]);
+    expect(build(LR1_NOT_LALR, "lr1").itemSets).toHaveLength(14);
+    expect(build(LR1_NOT_LALR, "lalr1").itemSets).toHaveLength(13);
+  });
+
+  it.each(["lr1", "lalr1"] as const)("%s: constructor のようにObjectのプロパティと同じ名前の終端記号でも構築できる", (algorithm) => {
+    const { itemSets, table } = build("S -> 'constructor' 'toString' | 'hasOwnProperty'", algorithm);
+    expect(itemSets).toHaveLength(5);
+    expect(table.getConflicts()).toEqual([]);
+  });
+});
+
+describe("mergeStatesByCore", () => {
+  it("コアが同じ状態を併合すると、LR(0)オートマトンと同じ状態とgotoになる", () => {
+    const lr0 = build(LALR_NOT_SLR, "lr0").itemSets;
+    const merged = mergeStatesByCore(build(LALR_NOT_SLR, "lr1").itemSets);
+    const cores = (itemSets: typeof lr0) => itemSets.map((s) => s.getKernelItems().map((item) => item.toString()));
+    const withoutLookaheads = (items: string[][]) => items.map((kernel) => kernel.map((item) => item.replace(/^\[(.*), [^,]*\]$/, "$1")));
+
+    expect(withoutLookaheads(cores(merged))).toEqual(cores(lr0));
+    expect(merged.map((s) => Object.fromEntries(s.getGotos()))).toEqual(lr0.map((s) => Object.fromEntries(s.getGotos())));
+  });
+
+  it("併合した項の先読みは、元の状態の先読みの和になる", () => {
+    const merged = mergeStatesByCore(build(LR1_NOT_LALR, "lr1").itemSets);
+    const reduceC = merged.find((s) => s.getKernelItems().length === 2 && s.getKernelItems().every((item) => item.isComplete()));
+    expect(reduceC?.getKernelItems().map((item) => [...item.getLookaheads()].sort())).toEqual([
+      ["d", "e"],
+      ["d", "e"],
+    ]);
+  });
+});
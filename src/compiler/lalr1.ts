@@ -0,0 +1,76 @@
+/**
+ * LALR(1) parser generator
+ */
+
+import { BNFSet } from "./interface/bnf";
+import { LRItem } from "./interface/lrItem";
+import { LRItemSet, LRItemSets } from "./interface/itemSet";
+import { buildParseTable } from "./buildParseTable";
+
+// 核となる項のコアだけを見た状態のキー（先読みは無視する）
+const getCoreKey = (itemSet: LRItemSet) =>
+  itemSet
+    .getKernelItems()
+    .map((item) => item.getCoreId())
+    .sort((a, b) => a - b)
+    .join(",");
+
+// 同じコアを持つ項の先読みを合併する 項の並びは最初に現れたものに合わせる
+const mergeItems = (itemLists: LRItem[][]): LRItem[] => {
+  const merged = new Map<number, { item: LRItem; lookaheads: Set<string> }>();
+  itemLists.forEach((items) =>
+    items.forEach((item) => {
+      const entry = merged.get(item.getCoreId());
+      if (entry === undefined) {
+        merged.set(item.getCoreId(), { item, lookaheads: new Set(item.getLookaheads()) });
+      } else {
+        item.getLookaheads().forEach((la) => entry.lookaheads.add(la));
+      }
+    })
+  );
+  return Array.from(merged.values()).map(({ item, lookaheads }) => new LRItem(item.getConcatenation(), item.getDotPosition(), lookaheads));
+};
+
+/**
+ * 正準LR(1)オートマトンのうち、コアが同じ状態を1つに併合する
+ * 状態番号は、併合後の各グループで最初に現れた状態の順に振り直す
+ */
+export const mergeStatesByCore = (itemSets: LRItemSet[]): LRItemSet[] => {
+  const groupIndex = new Map<string, number>();
+  const groups: LRItemSet[][] = [];
+  const newIndexOf = itemSets.map((itemSet) => {
+    const key = getCoreKey(itemSet);
+    let index = groupIndex.get(key);
+    if (index === undefined) {
+      index = groups.length;
+      groupIndex.set(key, index);
+      groups.push([]);
+    }
+    groups[index].push(itemSet);
+    return index;
+  });
+
+  return groups.map((group) => {
+    const kernel = mergeItems(group.map((s) => s.getKernelItems()));
+    const kernelCores = new Set(kernel.map((item) => item.getCoreId()));
+    const merged = new LRItemSet(kernel);
+    mergeItems(group.map((s) => s.getItems()))
+      .filter((item) => !kernelCores.has(item.getCoreId()))
+      .forEach((item) => merged.addItem(item));
+    group.forEach((s) => s.getGotos().forEach((to, symbol) => merged.addGoto(symbol, newIndexOf[to])));
+    return merged;
+  });
+};
+
+const lalr1 = (bnfSet: BNFSet) => {
+  // 正準LR(1)オートマトンを作ってから、コアが同じ状態を併合する
+  const lrItemSets = new LRItemSets(bnfSet, true);
+  const itemSets = mergeStatesByCore(lrItemSets.startCalculation());
+
+  const table = buildParseTable(bnfSet, itemSets, lrItemSets.getStartConcatenation(), (item) => item.getLookaheads());
+
+  // 途中経過は併合する前の正準LR(1)オートマトンの構築のもの
+  return { itemSets, table, events: lrItemSets.getEvents() };
+};
+
+export default lalr1;
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+
+import { lexInput } from "./lexer";
+import { parseRawBnf } from "./parseBnf";
+
+const lex = (grammar: string, input: string) => {
+  const result = lexInput(parseRawBnf(grammar), input);
+  return { kinds: result.tokens.map((t) => `${t.kind}:${t.text}`), error: result.error };
+};
+
+describe("lexInput", () => {
+  it("最長一致で字句を選び、%skip は読み飛ばす", () => {
+    const grammar = "%token NUM /[0-9]+/\n%token ID /[a-z]+/\n%skip /\\s+/\nS -> ID '=' NUM | ID '==' NUM";
+    expect(lex(grammar, "x == 10").kinds).toEqual(["ID:x", "==:==", "NUM:10"]);
+    expect(lex(grammar, "abc=1").kinds).toEqual(["ID:abc", "=:=", "NUM:1"]);
+  });
+
+  it("同じ長さなら先に宣言した規則を選ぶ", () => {
+    const keywordFirst = "%skip /\\s+/\nS -> 'if' S | ID\n%token ID /[a-z]+/";
+    expect(lex(keywordFirst, "if iff").kinds).toEqual(["if:if", "ID:iff"]);
+
+    const idFirst = "%skip /\\s+/\n%token ID /[a-z]+/\nS -> 'if' S | ID";
+    expect(lex(idFirst, "if iff").kinds).toEqual(["ID:if", "ID:iff"]);
+  });
+
+  it("%token 同士も宣言順で選ぶ", () => {
+    const grammar = "%token KW /if/\n%token ID /[a-z]+/\nS -> KW | ID";
+    expect(lex(grammar, "if").kinds).toEqual(["KW:if"]);
+    expect(lex("%token ID /[a-z]+/\n%token KW /if/\nS -> KW | ID", "if").kinds).toEqual(["ID:if"]);
+  });
+
+  it("どの字句も始まらない文字の位置を返す", () => {
+    const result = lex("%token NUM /[0-9]+/\n%skip / /\nS -> NUM", "1 2 x");
+    expect(result.kinds).toEqual(["NUM:1", "NUM:2"]);
+    expect(result.error?.offset).toBe(4);
+  });
+});
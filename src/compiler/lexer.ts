@@ -0,0 +1,97 @@
+/**
+ * %token / %skip の宣言から作る字句解析器
+ * 構文解析の実行で、トークン列ではなく (1, 2, (3)) のような文字列をそのまま入力できるようにする
+ */
+
+import { BNFSet, ERROR_TOKEN, SourceRange, TokenSpec } from "./interface/bnf";
+
+export type LexedToken = {
+  kind: string; // 終端記号の名前
+  text: string; // 入力の中の文字列
+  offset: number; // 入力の先頭からの文字数（0始まり）
+};
+
+export type LexError = {
+  offset: number; // どの文字でも字句が始まらなかった位置（0始まり）
+  message: string;
+};
+
+export type LexResult = {
+  tokens: LexedToken[];
+  error: LexError | null;
+};
+
+type LexRule = { kind: string | null; regex: RegExp };
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+
+// 字句の宣言が1つでもあれば、文字列を入力できる
+export const hasLexer = (bnfSet: BNFSet) => bnfSet.getTokenSpecs().length > 0;
+
+// 構文定義の中の位置の順に並べるためのキー 位置が分からないものは最後
+const positionOf = (range: SourceRange | null) => (range === null ? [Number.MAX_SAFE_INTEGER, 0] : [range.line, range.column]);
+
+/**
+ * 字句の規則を宣言順に並べる
+ * - %token / %skip は宣言が書かれている位置
+ * - 右辺に 'if' のように書かれているが、%tokenで宣言されていない終端記号（その文字列そのもの）は、最初に書かれている位置
+ *   errorは入力には現れないので除く
+ * 最長一致で選び、同じ長さなら先に宣言した規則を選ぶ
+ * そのため %token ID /[a-z]+/ より前の規則で 'if' を使っていれば "if" は 'if'、後なら ID になる "iff" はどちらでも ID
+ */
+const buildRules = (bnfSet: BNFSet): LexRule[] => {
+  const specs = bnfSet.getTokenSpecs();
+  const declared = new Set(specs.map((spec) => spec.name));
+  const firstRanges = new Map<string, SourceRange | null>();
+  bnfSet.getProductions().forEach((concat) =>
+    concat.getElements().forEach((e) => {
+      if (e.getType() === "terminal" && !firstRanges.has(e.getValue())) {
+        firstRanges.set(e.getValue(), e.getRange());
+      }
+    })
+  );
+  const implicit: TokenSpec[] = bnfSet
+    .getTerminals()
+    .filter((t) => !declared.has(t) && t !== ERROR_TOKEN)
+    .map((t) => ({ name: t, pattern: t, isRegex: false, range: firstRanges.get(t) ?? null }));
+  const compare = (a: TokenSpec, b: TokenSpec) => {
+    const [aLine, aColumn] = positionOf(a.range);
+    const [bLine, bColumn] = positionOf(b.range);
+    return aLine !== bLine ? aLine - bLine : aColumn - bColumn;
+  };
+  // sortは安定なので、位置が分からないもの同士は元の順（暗黙の終端記号、宣言の順）のまま
+  return [...implicit, ...specs].sort(compare).map((spec) => ({
+    kind: spec.name,
+    regex: new RegExp(spec.isRegex ? spec.pattern : escapeRegExp(spec.pattern), "y"),
+  }));
+};
+
+export const lexInput = (bnfSet: BNFSet, input: string): LexResult => {
+  const rules = buildRules(bnfSet);
+  const tokens: LexedToken[] = [];
+  let offset = 0;
+
+  while (offset < input.length) {
+    let best: { rule: LexRule; length: number } | null = null;
+    for (const rule of rules) {
+      rule.regex.lastIndex = offset;
+      const match = rule.regex.exec(input);
+      // 空文字列へのマッチは進まないので使わない
+      if (match !== null && match[0].length > 0 && (best === null || match[0].length > best.length)) {
+        best = { rule, length: match[0].length };
+      }
+    }
+    if (best === null) {
+      return {
+        tokens,
+        error: { offset, message: `${offset} 文字目の '${input[offset]}' から始まる字句がありません。` },
+      };
+    }
+    if (best.rule.kind !== null) {
+      tokens.push({ kind: best.rule.kind, text: input.slice(offset, offset + best.length), offset });
+    }
+    offset += best.length;
+  }
+
+  return { tokens, error: null };
+};
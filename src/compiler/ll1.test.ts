@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import buildLL1Table from "./ll1";
+import { parseRawBnf } from "./parseBnf";
+
+describe("buildLL1Table", () => {
+  it("LL(1)文法では衝突がなく、FIRSTとFOLLOWで規則を選ぶ", () => {
+    const bnfSet = parseRawBnf("E -> T E2\nE2 -> '+' T E2 | ε\nT -> 'n' | '(' E ')'");
+    const table = buildLL1Table(bnfSet);
+    const productions = table.getProductions().map((p) => p.toString());
+    expect(table.getConflicts()).toEqual([]);
+    expect(table.getEntries("E2", "+").map((i) => productions[i])).toEqual(["E2 -> '+' T E2"]);
+    expect(table.getEntries("E2", ")").map((i) => productions[i])).toEqual(["E2 -> ε"]);
+    expect(table.getEntries("E2", "$").map((i) => productions[i])).toEqual(["E2 -> ε"]);
+  });
+
+  it("左再帰の文法では FIRST/FIRST 衝突になる", () => {
+    const table = buildLL1Table(parseRawBnf("E -> E '+' 'n' | 'n'"));
+    expect(table.getConflicts()).toMatchObject([{ nonterminal: "E", terminal: "n", type: "FIRST/FIRST" }]);
+  });
+
+  it("LR法の表と同じ終端記号の列を持つ 非終端記号と同じ名前の終端記号も落とさない", () => {
+    const bnfSet = parseRawBnf("S -> A 'A'\nA -> 'a'");
+    const ll1 = buildLL1Table(bnfSet);
+    const lr = algorithms.lalr1.build(bnfSet).table;
+    expect(ll1.getTerminals()).toEqual(lr.getActionSymbols());
+    expect(ll1.getTerminals()).toContain("A");
+  });
+});
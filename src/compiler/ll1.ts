@@ -0,0 +1,37 @@
+/**
+ * LL(1) predictive parse table builder
+ */
+
+import { BNFSet } from "./interface/bnf";
+import { LL1Table } from "./interface/ll1Table";
+import { analyzeGrammar, firstOfSequence } from "./grammarAnalysis";
+
+/**
+ * A -> α について
+ * - FIRST(α) の各終端記号 a で、表[A, a] に A -> α を入れる
+ * - α がεを導出できるなら、FOLLOW(A) の各記号 b（$を含む）で、表[A, b] に A -> α を入れる
+ * LR法の構築で追加された拡大文法の規則は使わない
+ */
+const buildLL1Table = (bnfSet: BNFSet): LL1Table => {
+  const productions = bnfSet.getProductions();
+  const augmented = new Set(bnfSet.getBNFs().filter((bnf) => bnf.isAugmented()).map((bnf) => bnf.getLeft()));
+  const nonterminals = bnfSet.getNonterminals().filter((nt) => !augmented.has(nt));
+  const analysis = analyzeGrammar(bnfSet, bnfSet.getStartSymbol());
+  const table = new LL1Table(bnfSet.getTerminals(), nonterminals, productions);
+
+  productions.forEach((concat, index) => {
+    const left = concat.getLeft();
+    if (augmented.has(left)) {
+      return;
+    }
+    const { first, nullable } = firstOfSequence(concat.getElements(), analysis);
+    first.forEach((t) => table.addEntry(left, t, index, "first"));
+    if (nullable) {
+      analysis.follow.get(left)?.forEach((t) => table.addEntry(left, t, index, "follow"));
+    }
+  });
+
+  return table;
+};
+
+export default buildLL1Table;
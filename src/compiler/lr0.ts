@@ -2,13 +2,20 @@
  * LR(0) parser generator
  */
 
-import { BNFSet } from "./interface/bnf";
+import { BNFSet, END_MARKER } from "./interface/bnf";
 import { LRItemSets } from "./interface/itemSet";
+import { buildParseTable } from "./buildParseTable";
 
 const lr0 = (bnfSet: BNFSet) => {
   // LR(0) のオートマトンを構築する
   const lrItemSets = new LRItemSets(bnfSet);
-  return lrItemSets.startCalculation();
+  const itemSets = lrItemSets.startCalculation();
+
+  // LR(0)では先読みをしないので、完了項はすべての終端記号で還元する
+  const reduceSymbols = [...bnfSet.getTerminals(), END_MARKER];
+  const table = buildParseTable(bnfSet, itemSets, lrItemSets.getStartConcatenation(), () => reduceSymbols);
+
+  return { itemSets, table, events: lrItemSets.getEvents() };
 };
 
 export default lr0;
@@ -0,0 +1,20 @@
+/**
+ * 正準LR(1) parser generator
+ */
+
+import { BNFSet } from "./interface/bnf";
+import { LRItemSets } from "./interface/itemSet";
+import { buildParseTable } from "./buildParseTable";
+
+const lr1 = (bnfSet: BNFSet) => {
+  // 先読み付きのLR(1)項でオートマトンを構築する
+  const lrItemSets = new LRItemSets(bnfSet, true);
+  const itemSets = lrItemSets.startCalculation();
+
+  // 完了項はその項の先読み記号でだけ還元する
+  const table = buildParseTable(bnfSet, itemSets, lrItemSets.getStartConcatenation(), (item) => item.getLookaheads());
+
+  return { itemSets, table, events: lrItemSets.getEvents() };
+};
+
+export default lr1;
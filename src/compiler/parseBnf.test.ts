@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+
+import { BNFParseError, parseBnfWithDiagnostics, parseRawBnf } from "./parseBnf";
+
+const errorsOf = (source: string) => parseBnfWithDiagnostics(source).diagnostics.map((d) => `${d.range.line}:${d.range.column}-${d.range.endColumn} ${d.error}`);
+
+describe("parseRawBnf", () => {
+  it("規則と選択肢・続きの行・ε を読む", () => {
+    const bnfSet = parseRawBnf("S -> A 'b' | ε\n  | 'c'\nA -> 'a'");
+    expect(bnfSet.getProductions().map((p) => p.toString())).toEqual(["S -> A 'b'", "S -> ε", "S -> 'c'", "A -> 'a'"]);
+    expect(bnfSet.getStartSymbol()).toBe("S");
+  });
+
+  it("?*+ と括弧を補助の非終端記号に展開する", () => {
+    const bnfSet = parseRawBnf("F -> 'f' ( ',' 'f' )* 'x'?");
+    expect(bnfSet.getProductions().map((p) => p.toString())).toEqual([
+      "F -> 'f' F_GROUP_STAR X_OPT",
+      "F_GROUP_STAR -> F_GROUP_STAR ',' 'f'",
+      "F_GROUP_STAR -> ε",
+      "X_OPT -> 'x'",
+      "X_OPT -> ε",
+    ]);
+    expect(bnfSet.getBNFs().map((bnf) => bnf.getGeneratedFrom())).toEqual([null, "( ',' 'f' )*", "'x'?"]);
+  });
+
+  it("%start で開始記号を指定する", () => {
+    expect(parseRawBnf("%start B\nA -> 'a'\nB -> A").getStartSymbol()).toBe("B");
+  });
+
+  it("%token と %skip を字句の宣言にし、宣言した名前は右辺で終端記号になる", () => {
+    const bnfSet = parseRawBnf("%token NUM /[0-9]+/\n%token LPAR \"(\"\n%skip /\\s+/\nS -> LPAR NUM");
+    expect(bnfSet.getTokenSpecs()).toEqual([
+      { name: "NUM", pattern: "[0-9]+", isRegex: true, range: { line: 0, column: 0, endLine: 0, endColumn: 19 } },
+      { name: "LPAR", pattern: "(", isRegex: false, range: { line: 1, column: 0, endLine: 1, endColumn: 15 } },
+      { name: null, pattern: "\\s+", isRegex: true, range: { line: 2, column: 0, endLine: 2, endColumn: 11 } },
+    ]);
+    expect(bnfSet.getTerminals()).toEqual(["LPAR", "NUM"]);
+  });
+
+  it("%left / %right / %nonassoc は後の行ほど強い優先順位にする", () => {
+    const bnfSet = parseRawBnf("%left '+' '-'\n%right '^'\n%nonassoc '<'\nE -> E '+' E | E '^' E | E '<' E | 'n'");
+    expect(bnfSet.getPrecedenceLevels()).toEqual([
+      { associativity: "left", symbols: ["+", "-"] },
+      { associativity: "right", symbols: ["^"] },
+      { associativity: "nonassoc", symbols: ["<"] },
+    ]);
+    expect(bnfSet.getPrecedence("-")).toEqual({ level: 1, associativity: "left" });
+    expect(bnfSet.getPrecedence("<")).toEqual({ level: 3, associativity: "nonassoc" });
+  });
+
+  it("%prec と動作を選択肢の最後に書ける", () => {
+    const bnfSet = parseRawBnf("%left '+'\n%right UMINUS\nE -> E '+' E { $$ = $1 + $3 } | '-' E %prec UMINUS { $$ = -$2 } | 'n'");
+    const [plus, minus, n] = bnfSet.getProductions();
+    expect(plus.getAction()).toEqual({ code: "$$ = $1 + $3", range: { line: 2, column: 13, endLine: 2, endColumn: 29 } });
+    expect(minus.getPrecedenceSymbol()).toBe("UMINUS");
+    expect(bnfSet.getProductionPrecedence(minus)).toEqual({ level: 2, associativity: "right" });
+    expect(n.getAction()).toBeNull();
+  });
+
+  it("誤りがあれば、すべての誤りを持ったBNFParseErrorを投げる", () => {
+    expect(() => parseRawBnf("S -> 'a'\nB ->> 'b'\n%foo")).toThrow(BNFParseError);
+  });
+});
+
+describe("parseBnfWithDiagnostics", () => {
+  it("誤りのある規則を読み飛ばして続け、誤りの範囲を返す", () => {
+    const { bnfSet } = parseBnfWithDiagnostics("S -> 'a' )\nA -> 'b'");
+    expect(bnfSet.getProductions().map((p) => p.toString())).toEqual(["A -> 'b'"]);
+    expect(errorsOf("S -> 'a' )\nA -> 'b'")).toEqual(["0:9-10 対応する '(' のない ')' があります。"]);
+  });
+
+  it("指示の誤りを、指示や記号の位置で返す", () => {
+    expect(errorsOf("%start X\nS -> 'a'")).toEqual(["0:7-8 開始記号 'X' の規則がありません。"]);
+    expect(errorsOf("%token NUM /a*/\nS -> NUM")).toEqual(["0:11-15 正規表現 /a*/ は空の文字列にマッチするので使えません。"]);
+    expect(errorsOf("%token X /a)(b/\nS -> X")).toEqual(["0:9-15 正規表現 /a)(b/ が正しくありません: Invalid regular expression: /a)(b/y: Unmatched ')'"]);
+    expect(errorsOf("%left '+'\n%right '+'\nS -> 'a'")).toEqual(["1:7-10 '+' の優先順位が複数回宣言されています。"]);
+    expect(errorsOf("S -> 'a' %prec X")).toEqual(["0:15-16 %prec の 'X' には優先順位が宣言されていません。"]);
+    expect(errorsOf("%foo\nS -> 'a'")).toEqual(["0:0-4 未知の指示 '%foo' です。"]);
+  });
+});
+
+describe("?*+ の展開", () => {
+  const productionsOf = (source: string) => parseRawBnf(source).getProductions().map((p) => p.toString());
+
+  it("+ は1回以上の左再帰の規則にする", () => {
+    expect(productionsOf("E -> 'e'+")).toEqual(["E -> E_PLUS", "E_PLUS -> E_PLUS 'e'", "E_PLUS -> 'e'"]);
+  });
+
+  it("同じ表記は、別の規則に書いても同じ補助の非終端記号を使い回す", () => {
+    expect(productionsOf("L -> ITEM* ';'\nM -> ITEM*\nITEM -> 'i'")).toEqual([
+      "L -> ITEM_STAR ';'",
+      "M -> ITEM_STAR",
+      "ITEM -> 'i'",
+      "ITEM_STAR -> ITEM_STAR ITEM",
+      "ITEM_STAR -> ε",
+    ]);
+  });
+
+  it("補助の非終端記号の名前は、ユーザーの非終端記号とぶつからないようにする", () => {
+    expect(productionsOf("F -> ( 'a' | 'b' )+\nF_GROUP_PLUS -> 'x'")).toEqual([
+      "F -> F_GROUP_PLUS_2",
+      "F_GROUP_PLUS -> 'x'",
+      "F_GROUP -> 'a'",
+      "F_GROUP -> 'b'",
+      "F_GROUP_PLUS_2 -> F_GROUP_PLUS_2 F_GROUP",
+      "F_GROUP_PLUS_2 -> F_GROUP",
+    ]);
+  });
+
+  it("入れ子の括弧は内側から展開する", () => {
+    const bnfSet = parseRawBnf("A -> ( 'a' ( ',' 'b' )? )*");
+    expect(bnfSet.getProductions().map((p) => p.toString())).toEqual([
+      "A -> A_GROUP_STAR",
+      "A_GROUP_OPT -> ',' 'b'",
+      "A_GROUP_OPT -> ε",
+      "A_GROUP_STAR -> A_GROUP_STAR 'a' A_GROUP_OPT",
+      "A_GROUP_STAR -> ε",
+    ]);
+    expect(bnfSet.getBNFs().map((bnf) => bnf.getGeneratedFrom())).toEqual([null, "( ',' 'b' )?", "( 'a' A_GROUP_OPT )*"]);
+  });
+});
@@ -1,141 +1,562 @@
-import { BNF, BNFSet, BNFConcatenation, BNFElement, BNFError } from "./interface/bnf";
+import { Associativity, BNF, BNFSet, BNFConcatenation, BNFElement, BNFError, ERROR_TOKEN, SourceRange } from "./interface/bnf";
+import { GrammarToken, GrammarTokenKind, joinRange, rangeOf, tokenizeGrammar } from "./grammarLexer";
+import { checkGrammarHealth } from "./grammarHealth";
+import { checkSemanticActions } from "./semantic";
 
 /*
 throwしたり、表現するエラーはすべて日本語で
 */
 
+// parseRawBnfが構文定義の誤りで投げるエラー 個々の誤りは位置付きでdiagnosticsに入っている
+export class BNFParseError extends Error {
+  constructor(readonly diagnostics: BNFError) {
+    super(diagnostics.map((d) => `(行: ${d.line}, 列: ${d.range.column}) ${d.error}`).join("\n"));
+    this.name = "BNFParseError";
+  }
+}
+
 /**
  *  S -> A B C D
  *  A -> 'a' | 'A' 'a'
- *  B -> 'b'
+ *     | 'a' 'a'          # 行頭の | で前の行の規則の続きを書ける
+ *  B ::= 'b'             # ::= も使える
  *  C -> 'c' ?
  *  D -> 'd' *
  *  E -> 'e' +
+ *  F -> 'f' ( ',' 'f' )*
+ *  %start S              # 開始記号 省略すると最初の規則の左辺
+ *  %token NUM /[0-9]+/   # 字句の宣言 正規表現か文字列で書く 宣言した名前は 'NUM' とも NUM とも書ける
+ *  %skip /\s+/           # 読み飛ばす字句
+ *  %left '+' '-'         # 演算子の優先順位と結合性 後の行ほど強い %right / %nonassoc も使える
+ *  %left '*' '/'
+ *  G -> '-' G %prec '*'  # 選択肢の最後の %prec で、その規則の優先順位を指定した記号のものにする
+ *  H -> 'h' ';' | error ';'  # error は構文エラーからの回復に使う終端記号
+ *  I -> I '+' 'n' { $$ = $1 + 1 }  # 選択肢の最後の { } は還元したときに実行する動作（semantic.ts）
  *
  * 上記のようなBNFをパースしてデータ構造に変換する
  *
- * 1. 行ごとに分割
- * 2. 各行を "->" で分割して左辺と右辺に分ける
- * 3. 右辺を空白で分割して各シンボルを取得
- * 4. 各シンボルをさらに解析して、終端記号、非終端記号、オプション、繰り返しなどを判別
- * 5. データ構造に格納
+ * 1. grammarLexerで字句（終端記号、非終端記号、->、括弧、|、?*+、改行）に分割する コメントはここで捨てる
+ * 2. 字句を再帰下降で解析して、規則ごとに選択肢のBNFConcatenationにする
+ * 3. ?*+ と括弧は、補助の非終端記号を生成して普通の規則に展開する
+ * 4. 各BNFElementには、構文定義の中で書かれている範囲を持たせる
+ *
+ * 展開の例:
+ *   C -> 'c' ?            =>  C -> C_OPT         C_OPT -> 'c' | ε
+ *   D -> 'd' *            =>  D -> D_STAR        D_STAR -> D_STAR 'd' | ε
+ *   E -> 'e' +            =>  E -> E_PLUS        E_PLUS -> E_PLUS 'e' | 'e'
+ *   F -> 'f' ( ',' 'f' )* =>  F -> 'f' F_GROUP_STAR   F_GROUP_STAR -> F_GROUP_STAR ',' 'f' | ε
  *
- * データ構造の例:
- * {
- *   "S": [["A", "B", "C", "D"]],
- *   "A": [["'a'"], ["A", "'a'"]],
- *   "B": [["'b'"]],
- *   "C": [["'c'", "?"]],
- *   "D": [["'d'", "*"]],
- *   "E": [["'e'", "+"]],
- * }
+ * 生成した規則はBNF.getGeneratedFrom()に元の表記を持たせて、ユーザーの規則の後ろに追加する
+ * εは記号としては持たず、要素が空のBNFConcatenationで表す
+ *
+ * 誤りがあってもその規則を読み飛ばして続け、見つかった誤りはすべて位置付きでdiagnosticsに返す
  * */
-export const parseRawBnf = (bnf: string): BNFSet => {
-  const lines = bnf.split("\n").map((line) => line.trim());
+export const parseBnfWithDiagnostics = (source: string): { bnfSet: BNFSet; diagnostics: BNFError } => {
+  const { tokens, diagnostics } = tokenizeGrammar(source);
+  const stream = new GrammarTokenStream(tokens);
   const bnfSet = new BNFSet();
 
-  lines.forEach((line, index) => {
-    if (line === "") return; // 空行は無視
-    const [left, right] = line.split("->").map((part) => part.trim());
-    if (!left || !right) {
-      throw new Error(`${index}\n無効な構文定義 行: ` + line);
-    }
-    if (left == "ε") {
-      throw new Error(`${index}\nεは左辺に使えません。` + line);
-    }
-    const bnf = new BNF();
-
-    bnf.setLeft(left);
-    bnf.setLine(index);
-
-    const rightParts = right.split("|").map((part) => part.trim());
-    rightParts.forEach((part) => {
-      if (part.includes("ε") && part.trim() !== "ε") {
-        throw new Error(`${index}\n右辺にεを含める場合は単独で使ってください: ` + part);
-      }
+  // 補助の非終端記号の名前がユーザーの非終端記号とぶつからないように、先に左辺を集めておく
+  const usedNames = new Set<string>();
+  tokens.forEach((t, i) => {
+    if (t.kind === "name" && tokens[i + 1]?.kind === "arrow") usedNames.add(t.text);
+  });
+  // 同じ表記（例: ITEM*）は同じ補助の非終端記号を使い回す
+  const generated = new Map<string, string>();
+  const generatedBNFs: BNF[] = [];
+  // 選択肢の最後に書いた %prec と { 動作 }
+  const suffixes = new Map<BNFElement[], AlternativeSuffix>();
 
-      const concatenation = new BNFConcatenation(left);
+  const report = (error: string, range: SourceRange) => {
+    diagnostics.push({ error, line: range.line, range, severity: "error" });
+  };
 
-      // ワイルドカードの処理
-      // 例: A* -> A, A+ -> A, A? -> A
-      const symbols = part.split(/\s+/).map((sym) => sym.trim());
+  const directives: DirectiveContext = { bnfSet, usedNames, startDirective: null, tokenNames: new Map(), precedenceSymbols: new Map() };
 
-      symbols.forEach((sym) => {
-        const element = new BNFElement();
+  for (stream.skipNewlines(); !stream.is("eof"); stream.skipNewlines()) {
+    const head = stream.peek();
+    try {
+      if (head.kind === "directive") {
+        parseDirective(stream, directives);
+        continue;
+      }
+      if (head.kind !== "name" || stream.peek(1).kind !== "arrow") {
+        throw new GrammarSyntaxError("無効な構文定義です。'左辺 -> 右辺' の形で書いてください。", head.range);
+      }
+      if (head.text === "ε") {
+        throw new GrammarSyntaxError("εは左辺に使えません。", head.range);
+      }
+      stream.next();
+      stream.next();
 
-        if (sym.includes("ε") && sym !== "ε") {
-          throw new Error("無効なεが含まれた右辺式: " + sym);
-        }
+      const left = head.text;
+      const bnf = new BNF();
+      bnf.setLeft(left);
+      bnf.setLine(head.range.line);
+      bnf.setRange(head.range);
 
-        // εなら空集合
-        if (sym === "ε") {
-          element.setType("terminal");
-          element.setValue(""); // εは空集合を表す
+      const ctx: ExpandContext = { left, usedNames, generated, generatedBNFs, suffixes };
+      parseAlternatives(stream, ctx, true).forEach((elements) => {
+        const concat = toConcatenation(left, elements);
+        const suffix = suffixes.get(elements);
+        if (suffix?.prec) {
+          concat.setPrecedenceSymbol(suffix.prec.text);
         }
-
-        if (sym.startsWith("'") && sym.endsWith("'")) {
-          // 終端記号
-          element.setType("terminal");
-          element.setValue(sym.slice(1, -1)); // 'a' -> a
-        } else if (sym.endsWith("?")) {
-          // オプション
-          element.setType("nonterminal");
-          element.setValue(sym.slice(0, -1)); // A? -> A
-          // オプションは特別な扱いが必要ならここで処理
-        } else if (sym.endsWith("*")) {
-          // 0回以上の繰り返し
-          element.setType("nonterminal");
-          element.setValue(sym.slice(0, -1)); // A* -> A
-          // 繰り返しは特別な扱いが必要ならここで処理
-        } else if (sym.endsWith("+")) {
-          // 1回以上の繰り返し
-          element.setType("nonterminal");
-          element.setValue(sym.slice(0, -1)); // A+ -> A
-          // 繰り返しは特別な扱いが必要ならここで処理
-        } else {
-          // 非終端記号
-          element.setType("nonterminal");
-          element.setValue(sym);
+        if (suffix?.action) {
+          concat.setAction({ code: suffix.action.text, range: suffix.action.range });
         }
-        concatenation.addElement(element);
+        bnf.addRight(concat);
       });
-      bnf.addRight(concatenation);
+      if (!stream.is("newline") && !stream.is("eof")) {
+        throw new GrammarSyntaxError(`予期しない '${stream.peek().text}' があります。`, stream.peek().range);
+      }
+
+      bnfSet.addBNF(bnf);
+    } catch (e) {
+      if (!(e instanceof GrammarSyntaxError)) throw e;
+      report(e.message, e.range);
+      stream.skipRule();
+    }
+  }
+
+  generatedBNFs.forEach((b) => bnfSet.addBNF(b));
+
+  // 宣言した字句の名前と error がクオーテーションなしで右辺に書かれていれば、終端記号として扱う
+  bnfSet.getProductions().forEach((concat) => {
+    concat.getElements().forEach((elem) => {
+      const name = elem.getValue();
+      if (elem.getType() === "nonterminal" && (directives.tokenNames.has(name) || name === ERROR_TOKEN) && !usedNames.has(name)) {
+        elem.setType("terminal");
+      }
     });
+  });
 
-    bnfSet.addBNF(bnf);
+  // 優先順位の宣言は規則の後に書いてもよいので、最後に確かめる
+  suffixes.forEach(({ prec }) => {
+    if (prec !== null && !directives.precedenceSymbols.has(prec.text)) {
+      report(`%prec の '${prec.text}' には優先順位が宣言されていません。`, prec.range);
+    }
   });
 
+  const startDirective = directives.startDirective;
+  if (startDirective !== null) {
+    if (bnfSet.getBNFbyLeft(startDirective.text).length === 0) {
+      report(`開始記号 '${startDirective.text}' の規則がありません。`, startDirective.range);
+    } else {
+      bnfSet.setStartSymbol(startDirective.text);
+    }
+  }
+
+  return { bnfSet, diagnostics };
+};
+
+// 構文定義をパースする 誤りがあればBNFParseErrorを投げる
+export const parseRawBnf = (bnf: string): BNFSet => {
+  const { bnfSet, diagnostics } = parseBnfWithDiagnostics(bnf);
+  const errors = diagnostics.filter((d) => d.severity === "error");
+  if (errors.length > 0) {
+    throw new BNFParseError(errors);
+  }
   return bnfSet;
 };
 
-// 名前のbnfを受け取って、構文にミス（存在しない非終端記号）などがあれば、行数を含む警告を投げる
-export const getRawBNFWarningThrows = (bhf: string): BNFError => {
-  const warnings: BNFError = [];
-  const bnfSet = (() => {
+type DirectiveContext = {
+  bnfSet: BNFSet;
+  usedNames: Set<string>; // 規則の左辺に使われている名前
+  startDirective: GrammarToken | null; // %startで指定された開始記号の字句
+  tokenNames: Map<string, GrammarToken>; // %tokenで宣言した名前
+  precedenceSymbols: Map<string, GrammarToken>; // %left / %right / %nonassoc で宣言した記号
+};
+
+// 指示の後ろに余計なものがないことを確かめる
+const expectEndOfLine = (stream: GrammarTokenStream) => {
+  if (!stream.is("newline") && !stream.is("eof")) {
+    throw new GrammarSyntaxError(`予期しない '${stream.peek().text}' があります。`, stream.peek().range);
+  }
+};
+
+// %token と %skip のパターン 正規表現 /.../ か文字列 '...' "..."
+const parseTokenPattern = (stream: GrammarTokenStream, directive: GrammarToken) => {
+  const t = stream.peek();
+  if (t.kind === "regex") {
+    stream.next();
+    // 字句解析器が作るものと同じ正規表現を作れるか確かめる
     try {
-      return parseRawBnf(bhf);
+      new RegExp(t.text, "y");
     } catch (e) {
-      warnings.push({
-        error: (e as Error).message.split("\n")[1],
-        line: (e as Error).message.split("\n")[0] ? parseInt((e as Error).message.split("\n")[0]) : 0,
-        isError: true,
+      throw new GrammarSyntaxError(`正規表現 /${t.text}/ が正しくありません: ${(e as Error).message}`, t.range);
+    }
+    if (new RegExp(`^(?:${t.text})$`).test("")) {
+      throw new GrammarSyntaxError(`正規表現 /${t.text}/ は空の文字列にマッチするので使えません。`, t.range);
+    }
+    return { pattern: t.text, isRegex: true, range: joinRange(directive.range, t.range) };
+  }
+  if (t.kind === "terminal") {
+    stream.next();
+    if (t.text === "") {
+      throw new GrammarSyntaxError("空の文字列は字句にできません。", t.range);
+    }
+    return { pattern: t.text, isRegex: false, range: joinRange(directive.range, t.range) };
+  }
+  throw new GrammarSyntaxError(`${directive.text} の後には /正規表現/ か '文字列' を書いてください。`, t.range);
+};
+
+/**
+ * 指示を1行解析する
+ *   %start NAME
+ *   %token NAME /正規表現/ | '文字列'
+ *   %skip /正規表現/ | '文字列'
+ *   %left / %right / %nonassoc 記号...   記号は 'x' か名前（%prec専用の名前でもよい）
+ */
+const parseDirective = (stream: GrammarTokenStream, ctx: DirectiveContext) => {
+  const head = stream.next();
+  switch (head.text) {
+    case "%start": {
+      if (!stream.is("name")) {
+        throw new GrammarSyntaxError("%start の後には開始記号の非終端記号を書いてください。", stream.peek().range);
+      }
+      const name = stream.next();
+      expectEndOfLine(stream);
+      if (ctx.startDirective !== null) {
+        throw new GrammarSyntaxError("%start が複数あります。", head.range);
+      }
+      ctx.startDirective = name;
+      return;
+    }
+    case "%token": {
+      if (!stream.is("name")) {
+        throw new GrammarSyntaxError("%token の後には字句の名前を書いてください。", stream.peek().range);
+      }
+      const name = stream.next();
+      const { pattern, isRegex, range } = parseTokenPattern(stream, head);
+      expectEndOfLine(stream);
+      if (ctx.tokenNames.has(name.text)) {
+        throw new GrammarSyntaxError(`字句 '${name.text}' が複数回宣言されています。`, name.range);
+      }
+      if (ctx.usedNames.has(name.text)) {
+        throw new GrammarSyntaxError(`'${name.text}' は非終端記号として定義されているので、字句の名前にできません。`, name.range);
+      }
+      ctx.tokenNames.set(name.text, name);
+      ctx.bnfSet.addTokenSpec({ name: name.text, pattern, isRegex, range });
+      return;
+    }
+    case "%skip": {
+      const { pattern, isRegex, range } = parseTokenPattern(stream, head);
+      expectEndOfLine(stream);
+      ctx.bnfSet.addTokenSpec({ name: null, pattern, isRegex, range });
+      return;
+    }
+    case "%left":
+    case "%right":
+    case "%nonassoc": {
+      const symbols: GrammarToken[] = [];
+      while (stream.is("terminal") || stream.is("name")) {
+        symbols.push(stream.next());
+      }
+      expectEndOfLine(stream);
+      if (symbols.length === 0) {
+        throw new GrammarSyntaxError(`${head.text} の後には記号を1つ以上書いてください。`, head.range);
+      }
+      symbols.forEach((symbol) => {
+        if (ctx.precedenceSymbols.has(symbol.text)) {
+          throw new GrammarSyntaxError(`'${symbol.text}' の優先順位が複数回宣言されています。`, symbol.range);
+        }
+        if (symbol.kind === "name" && ctx.usedNames.has(symbol.text)) {
+          throw new GrammarSyntaxError(`'${symbol.text}' は非終端記号なので、優先順位を宣言できません。`, symbol.range);
+        }
+        ctx.precedenceSymbols.set(symbol.text, symbol);
       });
-      return new BNFSet();
+      ctx.bnfSet.addPrecedence(head.text.slice(1) as Associativity, symbols.map((s) => s.text));
+      return;
     }
-  })();
-  const nonTerminals = new Set<string>();
+    case "%prec":
+      throw new GrammarSyntaxError("%prec は規則の選択肢の最後に書いてください。", head.range);
+    default:
+      throw new GrammarSyntaxError(`未知の指示 '${head.text}' です。`, head.range);
+  }
+};
+
+// 規則の解析中の誤り 規則単位で捕まえて、diagnosticsに積んでから次の規則へ進む
+class GrammarSyntaxError extends Error {
+  constructor(message: string, readonly range: SourceRange) {
+    super(message);
+  }
+}
+
+class GrammarTokenStream {
+  private position = 0;
+  constructor(private readonly tokens: GrammarToken[]) {}
+
+  peek(offset: number = 0): GrammarToken {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  next(): GrammarToken {
+    const t = this.peek();
+    if (t.kind !== "eof") this.position++;
+    return t;
+  }
+
+  is(kind: GrammarTokenKind, text?: string) {
+    const t = this.peek();
+    return t.kind === kind && (text === undefined || t.text === text);
+  }
+
+  skipNewlines() {
+    while (this.is("newline")) this.next();
+  }
+
+  // 改行の後に | が続く（前の行の規則の続き）なら、改行を読み飛ばしてtrueを返す
+  skipContinuation() {
+    let offset = 0;
+    while (this.peek(offset).kind === "newline") offset++;
+    if (offset === 0 || this.peek(offset).kind !== "bar") return false;
+    for (; offset > 0; offset--) this.next();
+    return true;
+  }
+
+  // 括弧の中の改行を読み飛ばす ただし次の行が新しい規則や指示で始まるなら、括弧の閉じ忘れとみなして読み飛ばさない
+  skipNewlinesInGroup() {
+    let offset = 0;
+    while (this.peek(offset).kind === "newline") offset++;
+    const t = this.peek(offset);
+    if (offset === 0 || t.kind === "eof" || t.kind === "directive" || (t.kind === "name" && this.peek(offset + 1).kind === "arrow")) return;
+    for (; offset > 0; offset--) this.next();
+  }
+
+  // 誤りのあった規則の残りを、続きの行も含めて読み飛ばす
+  skipRule() {
+    while (!this.is("eof")) {
+      if (this.is("newline") && !this.skipContinuation()) return;
+      this.next();
+    }
+  }
+}
+
+type ExpandContext = {
+  left: string; // 展開中の規則の左辺（括弧の補助記号の名前に使う）
+  usedNames: Set<string>;
+  generated: Map<string, string>;
+  generatedBNFs: BNF[];
+  suffixes: Map<BNFElement[], AlternativeSuffix>;
+};
+
+type AlternativeSuffix = { prec: GrammarToken | null; action: GrammarToken | null };
+
+// 選択肢（要素の並び）の一覧 εの選択肢は空の並びで表す
+type Alternatives = BNFElement[][];
+
+const formatAlternatives = (alternatives: Alternatives) =>
+  alternatives.map((elements) => (elements.length === 0 ? "ε" : elements.map((e) => e.toString()).join(" "))).join(" | ");
+
+// εの選択肢は要素を持たないBNFConcatenationになる（A -> • がそのまま完了項になる）
+const toConcatenation = (left: string, elements: BNFElement[]) => {
+  const concatenation = new BNFConcatenation(left);
+  elements.forEach((e) => concatenation.addElement(e));
+  return concatenation;
+};
+
+// alternatives := sequence ( '|' sequence )*  最上位では行頭の | で次の行に続けられ、括弧の中では改行を自由に入れられる
+const parseAlternatives = (stream: GrammarTokenStream, ctx: ExpandContext, topLevel: boolean): Alternatives => {
+  const alternatives: Alternatives = [parseSequence(stream, ctx, !topLevel)];
+  while (stream.is("bar") || (topLevel && stream.skipContinuation())) {
+    stream.next();
+    alternatives.push(parseSequence(stream, ctx, !topLevel));
+  }
+  if (topLevel && stream.is("rparen")) {
+    throw new GrammarSyntaxError("対応する '(' のない ')' があります。", stream.peek().range);
+  }
+  return alternatives;
+};
+
+// sequence := ( primary ( '?' | '*' | '+' )* )* ( '%prec' SYMBOL )? ACTION?   %precと動作は括弧の外の選択肢にだけ書ける
+const parseSequence = (stream: GrammarTokenStream, ctx: ExpandContext, inGroup: boolean): BNFElement[] => {
+  const elements: BNFElement[] = [];
+  if (inGroup) stream.skipNewlinesInGroup();
+  const start = stream.peek().range;
+  let epsilon: GrammarToken | null = null;
+  let count = 0;
+
+  while (
+    stream.is("name") ||
+    stream.is("terminal") ||
+    stream.is("lparen") ||
+    stream.is("op") ||
+    (stream.is("directive") && !stream.is("directive", "%prec"))
+  ) {
+    const t = stream.peek();
+    count++;
+    if (t.kind === "name" && t.text === "ε") {
+      stream.next();
+      epsilon = t;
+      continue;
+    }
+    if (t.kind === "name" && t.text.includes("ε")) {
+      throw new GrammarSyntaxError("無効なεが含まれた右辺式: " + t.text, t.range);
+    }
+
+    let primary = parsePrimary(stream, ctx);
+    while (stream.is("op")) {
+      const op = stream.next();
+      const range = joinRange(primary.range, op.range);
+      const helper = applyOperator(primary, op.text as "?" | "*" | "+", ctx, range);
+      primary = { alternatives: [[helper]], text: `${primary.text}${op.text}`, base: helper.getValue(), range };
+    }
+    if (primary.alternatives.length === 1) {
+      elements.push(...primary.alternatives[0]);
+    } else {
+      elements.push(defineHelper(ctx, primary.text, `${ctx.left}_GROUP`, primary.range, () => primary.alternatives));
+    }
+    if (inGroup) stream.skipNewlinesInGroup();
+  }
+
+  const suffix: AlternativeSuffix = { prec: null, action: null };
+  if (stream.is("directive", "%prec")) {
+    const directive = stream.next();
+    if (inGroup) {
+      throw new GrammarSyntaxError("%prec は括弧の中には書けません。", directive.range);
+    }
+    if (!stream.is("terminal") && !stream.is("name")) {
+      throw new GrammarSyntaxError("%prec の後には優先順位を宣言した記号を書いてください。", directive.range);
+    }
+    if (count === 0) {
+      throw new GrammarSyntaxError("%prec の前に選択肢がありません。", directive.range);
+    }
+    suffix.prec = stream.next();
+  }
+  if (stream.is("action")) {
+    const action = stream.next();
+    if (inGroup) {
+      throw new GrammarSyntaxError("動作 { } は括弧の中には書けません。", action.range);
+    }
+    if (count === 0) {
+      throw new GrammarSyntaxError("動作の前に選択肢がありません。空の選択肢には ε を書いてください。", action.range);
+    }
+    if (stream.is("name") || stream.is("terminal") || stream.is("lparen") || stream.is("directive") || stream.is("action")) {
+      throw new GrammarSyntaxError("動作 { } は選択肢の最後に書いてください。", action.range);
+    }
+    suffix.action = action;
+  }
+  if (suffix.prec !== null || suffix.action !== null) {
+    ctx.suffixes.set(elements, suffix);
+  }
+
+  if (epsilon !== null && count > 1) {
+    throw new GrammarSyntaxError("右辺にεを含める場合は単独で使ってください: " + formatAlternatives([elements]), epsilon.range);
+  }
+  if (epsilon === null && count === 0) {
+    throw new GrammarSyntaxError("空の選択肢があります。空であることを表現したい場合は'ε'を使用してください。", start);
+  }
+  return elements;
+};
+
+// ?*+ を適用する前の1単位 単独の記号か、括弧で囲まれた選択肢
+type Primary = { alternatives: Alternatives; text: string; base: string; range: SourceRange };
+
+// primary := TERMINAL | NAME | '(' alternatives ')'
+const parsePrimary = (stream: GrammarTokenStream, ctx: ExpandContext): Primary => {
+  const t = stream.next();
+  if (t.kind === "terminal") {
+    const element = new BNFElement("terminal", t.text);
+    element.setRange(t.range);
+    const base = t.text.toUpperCase().replace(/[^A-Z0-9_]/g, "") || "TERM";
+    return { alternatives: [[element]], text: element.toString(), base, range: t.range };
+  }
+  if (t.kind === "name") {
+    const element = new BNFElement("nonterminal", t.text);
+    element.setRange(t.range);
+    return { alternatives: [[element]], text: t.text, base: t.text, range: t.range };
+  }
+  if (t.kind === "lparen") {
+    const alternatives = parseAlternatives(stream, ctx, false);
+    if (!stream.is("rparen")) {
+      throw new GrammarSyntaxError("括弧 '(' が閉じられていません。", t.range);
+    }
+    const close = stream.next();
+    return { alternatives, text: `( ${formatAlternatives(alternatives)} )`, base: `${ctx.left}_GROUP`, range: joinRange(t.range, close.range) };
+  }
+  if (t.kind === "directive") {
+    throw new GrammarSyntaxError(`右辺に指示 '${t.text}' は書けません。`, t.range);
+  }
+  throw new GrammarSyntaxError(`'${t.text}' の前に記号がありません。`, t.range);
+};
+
+/**
+ * ?*+ を補助の非終端記号に展開し、その非終端記号を指す要素を返す
+ *   X? => X_OPT  -> X | ε
+ *   X* => X_STAR -> X_STAR X | ε
+ *   X+ => X_PLUS -> X_PLUS X | X
+ * LR法で扱いやすいように、繰り返しは左再帰にする
+ */
+const applyOperator = (primary: Primary, op: "?" | "*" | "+", ctx: ExpandContext, range: SourceRange): BNFElement => {
+  const base = primary.base;
+  // 選択肢が複数ある括弧は、繰り返しの本体として先に1つの非終端記号にまとめる
+  const body = () =>
+    primary.alternatives.length === 1
+      ? primary.alternatives[0]
+      : [defineHelper(ctx, primary.text, `${ctx.left}_GROUP`, primary.range, () => primary.alternatives)];
+
+  switch (op) {
+    case "?":
+      return defineHelper(ctx, `${primary.text}?`, `${base}_OPT`, range, () => [...primary.alternatives, []]);
+    case "*":
+      return defineHelper(ctx, `${primary.text}*`, `${base}_STAR`, range, (self) => [[self, ...body()], []]);
+    case "+":
+      return defineHelper(ctx, `${primary.text}+`, `${base}_PLUS`, range, (self) => [[self, ...body()], body()]);
+  }
+};
+
+// 補助の非終端記号を定義して、それを指す要素を返す 同じ表記なら前に作ったものを使う
+const defineHelper = (
+  ctx: ExpandContext,
+  text: string,
+  name: string,
+  range: SourceRange,
+  makeAlternatives: (self: BNFElement) => Alternatives
+): BNFElement => {
+  const existing = ctx.generated.get(text);
+  if (existing !== undefined) {
+    const element = new BNFElement("nonterminal", existing);
+    element.setRange(range);
+    return element;
+  }
+
+  let unique = name;
+  for (let n = 2; ctx.usedNames.has(unique); n++) {
+    unique = `${name}_${n}`;
+  }
+  ctx.usedNames.add(unique);
+  ctx.generated.set(text, unique);
+
+  const self = new BNFElement("nonterminal", unique);
+  self.setRange(range);
+  const helper = new BNF();
+  helper.setLeft(unique);
+  helper.setLine(range.line);
+  helper.setRange(range);
+  helper.setGeneratedFrom(text);
+  makeAlternatives(self).forEach((elements) => helper.addRight(toConcatenation(unique, elements)));
+  ctx.generatedBNFs.push(helper);
+
+  return self;
+};
+
+// 名前のbnfを受け取って、構文にミス（存在しない非終端記号）や文法の問題があれば、位置と重要度を含む警告を返す
+export const getRawBNFWarningThrows = (bhf: string): BNFError => {
+  // 構文の誤りがあった規則は読み飛ばされているので、残りの規則について続けて検査する
+  const { bnfSet, diagnostics } = parseBnfWithDiagnostics(bhf);
+  const warnings: BNFError = [...diagnostics];
   const terminals = new Set<string>();
-  const nonTerminalsLeftLine = new Map<string, number>(); // 非終端記号が左辺に現れた行数
+
+  // 位置が分からないものは行頭を指す
+  const rangeOrLine = (range: SourceRange | null, line: number) => range ?? rangeOf(line, 0, 0);
 
   bnfSet.getBNFs().forEach((bnf) => {
-    // 非終端記号を収集
-    nonTerminalsLeftLine.set(bnf.getLeft(), bnf.getLine());
+    // 終端記号を収集
     bnf.getRight().forEach((concat) => {
       concat.getElements().forEach((elem) => {
         if (elem.getType() === "terminal") {
           terminals.add(elem.getValue());
-        } else {
-          nonTerminals.add(elem.getValue());
         }
       });
     });
@@ -143,63 +564,50 @@ export const getRawBNFWarningThrows = (bhf: string): BNFError => {
 
   // 存在しない非終端記号を探す
   const definedNonTerminals = new Set<string>();
+  // ?*+の展開で生成した非終端記号は、名前の規則を満たさなくてもよい
+  const generatedNonTerminals = new Set<string>();
   bnfSet.getBNFs().forEach((bnf) => {
     definedNonTerminals.add(bnf.getLeft());
+    if (bnf.getGeneratedFrom() !== null) {
+      generatedNonTerminals.add(bnf.getLeft());
+    }
   });
 
-  bnfSet.getBNFs().forEach((bnf, index) => {
+  bnfSet.getBNFs().forEach((bnf) => {
     bnf.getRight().forEach((concat) => {
       concat.getElements().forEach((elem) => {
+        const range = rangeOrLine(elem.getRange(), bnf.getLine());
         // 大文字以外なら、終端記号の意図として使っているならば、シングルクオーテーションで囲むべき
-        if (elem.getType() === "nonterminal" && /[^A-Z_]/.test(elem.getValue()) && !terminals.has(elem.getValue()) && elem.getValue() !== "ε") {
+        if (
+          elem.getType() === "nonterminal" &&
+          /[^A-Z_]/.test(elem.getValue()) &&
+          !terminals.has(elem.getValue()) &&
+          !generatedNonTerminals.has(elem.getValue())
+        ) {
           warnings.push({
             error: `非終端記号 '${elem.getValue()}' は大文字とアンダースコアのみで構成されるべきです。終端記号として使用する場合はシングルクオーテーションで囲んでください。`,
-            line: index, // 行数は0始まりにする
-            isError: true,
-          });
-        } else if (elem.getType() === "nonterminal" && elem.getValue() === "") {
-          warnings.push({
-            error: `非終端記号が空であることを表現したい場合は'ε'を使用してください。`,
-            line: index,
-            isError: true,
+            line: range.line, // 行数は0始まりにする
+            range,
+            severity: "error",
           });
         }
         // 定義されていない非終端記号を使用している
-        else if (elem.getType() === "nonterminal" && !definedNonTerminals.has(elem.getValue()) && elem.getValue() !== "ε") {
+        else if (elem.getType() === "nonterminal" && !definedNonTerminals.has(elem.getValue())) {
           warnings.push({
             error: `未定義の非終端記号 '${elem.getValue()}' が使用されています。`,
-            line: index, // 行数は0始まりにする
-            isError: true,
+            line: range.line, // 行数は0始まりにする
+            range,
+            severity: "error",
           });
         }
       });
     });
   });
 
-  // 使用していない非終端記号を探す
-  definedNonTerminals.forEach((nt) => {
-    if (nt === "S") {
-      // Sは常に使用されるべき
-      return;
-    }
-
-    if (!nonTerminals.has(nt)) {
-      warnings.push({
-        error: `未使用の非終端記号 '${nt}' があります。`,
-        line: nonTerminalsLeftLine.get(nt) || -1,
-        isError: false,
-      });
-    }
-  });
-
-  // 1行目はSから始まるべき
-  if (bnfSet.getBNFs().length > 0 && bnfSet.getBNFs()[0].getLeft() !== "S") {
-    warnings.push({
-      error: "最初の構文定義は'S'から始まる必要があります。",
-      line: 0,
-      isError: true,
-    });
-  }
+  // 到達不能・非生産的・循環・左再帰・重複の検査
+  warnings.push(...checkGrammarHealth(bnfSet));
+  // 動作がJavaScriptとして正しいか
+  warnings.push(...checkSemanticActions(bnfSet));
 
   return warnings;
 };
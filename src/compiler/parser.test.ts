@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import { parseRawBnf } from "./parseBnf";
+import { ParseTreeNode, parseTokens, tokenizeInput } from "./parser";
+
+const LIST_GRAMMAR = "S -> LIST\nLIST -> 'LPAR' SEQ 'RPAR' | 'NUM'\nSEQ -> LIST\nSEQ -> SEQ 'COMMA' LIST";
+
+const buildTable = (grammar: string, algorithm: keyof typeof algorithms = "lalr1") => algorithms[algorithm].build(parseRawBnf(grammar)).table;
+
+// 構文木を (E (E n) + (T n)) のような文字列にする 回復で作った節は <error ...> にする
+const showTree = (node: ParseTreeNode): string => {
+  if (node.error) return `<${[node.symbol, ...node.children.map(showTree)].join(" ")}>`;
+  if (node.terminal) return node.symbol;
+  return `(${[node.symbol, ...node.children.map(showTree)].join(" ")})`;
+};
+
+describe("tokenizeInput", () => {
+  it("空白で区切り、クオーテーションは外す", () => {
+    expect(tokenizeInput("  'LPAR' NUM\n'RPAR' ")).toEqual(["LPAR", "NUM", "RPAR"]);
+  });
+
+  it("クオーテーションで囲めば空白を含む終端記号を書け、構文定義と同じエスケープが使える", () => {
+    expect(tokenizeInput("'a b' \"c d\" 'it\\'s' x")).toEqual(["a b", "c d", "it's", "x"]);
+    expect(tokenizeInput("'a b")).toEqual(["'a", "b"]);
+  });
+});
+
+describe("parseTokens", () => {
+  it("受理した入力の構文木と手順を返す", () => {
+    const result = parseTokens(buildTable(LIST_GRAMMAR), ["LPAR", "NUM", "COMMA", "NUM", "RPAR"]);
+    expect(result.accepted).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(showTree(result.tree)).toBe("(S (LIST LPAR (SEQ (SEQ (LIST NUM)) COMMA (LIST NUM)) RPAR))");
+    expect(result.steps[0].description).toMatch(/^シフト/);
+    expect(result.steps[result.steps.length - 1].description).toBe("受理");
+  });
+
+  it("受け付けられないトークンで止まり、位置と期待されるトークンを返す", () => {
+    const result = parseTokens(buildTable(LIST_GRAMMAR), ["LPAR", "NUM", "NUM"]);
+    expect(result.accepted).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ token: "NUM", position: 2 });
+    expect(result.errors[0].expected.sort()).toEqual(["COMMA", "RPAR"]);
+  });
+
+  it("入力が途中で終わったら、END_MARKERの位置でエラーにする", () => {
+    const result = parseTokens(buildTable(LIST_GRAMMAR), ["LPAR", "NUM"]);
+    expect(result.accepted).toBe(false);
+    expect(result.errors[0]).toMatchObject({ token: "$", position: 2 });
+  });
+
+  it("還元が止まらない表では、手数の上限で打ち切る", () => {
+    // LR(0)では A -> A • の還元がすべての終端記号に入り、2つ目の 'a' の前で A -> A の還元を繰り返す
+    const table = buildTable("S -> A 'x'\nA -> A | 'a'", "lr0");
+    const result = parseTokens(table, ["a", "a"]);
+    expect(result.accepted).toBe(false);
+    expect(result.errors[result.errors.length - 1].message).toMatch(/手を超えたので解析を打ち切りました/);
+  });
+});
+
+describe("parseTokens の回復", () => {
+  const STATEMENTS = "S -> S STMT | ε\nSTMT -> 'id' ';' | error ';'";
+
+  it("error をシフトして読み飛ばし、後ろの文を解析し続ける", () => {
+    const result = parseTokens(buildTable(STATEMENTS), tokenizeInput("id ; id id ; id ;"));
+    expect(result.accepted).toBe(true);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({ token: "id", position: 3, expected: [";"] });
+    expect(showTree(result.tree)).toBe("(S (S (S (S) (STMT id ;)) (STMT <error id id> ;)) (STMT id ;))");
+  });
+
+  it("回復の途中でスタックから取り除いた節は、error の節の子になる", () => {
+    const result = parseTokens(buildTable(STATEMENTS), tokenizeInput("id ; ; id ;"));
+    expect(result.accepted).toBe(true);
+    expect(showTree(result.tree)).toBe("(S (S (S) (STMT <error id ;> ;)) (STMT id ;))");
+  });
+
+  it("error をシフトできる状態がなければ、解析を終える", () => {
+    const result = parseTokens(buildTable(LIST_GRAMMAR), ["LPAR", "NUM", "NUM"]);
+    expect(result.steps[result.steps.length - 1].description).toBe("回復できないので解析を終えます");
+  });
+
+  it("入力の終わりまで読み飛ばしても回復できなければ、解析を終える", () => {
+    const result = parseTokens(buildTable(STATEMENTS), tokenizeInput("id id"));
+    expect(result.accepted).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(showTree(result.tree)).toBe("<S (S) <error id id>>");
+  });
+});
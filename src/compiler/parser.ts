@@ -0,0 +1,244 @@
+/**
+ * 構文解析表を使って、トークン列をLR法で解析するドライバ
+ * 1手ごとにスタックと残りの入力を記録しておき、UIで追えるようにする
+ */
+
+import { END_MARKER, ERROR_TOKEN } from "./interface/bnf";
+import { ParseAction, ParseTable, formatParseAction } from "./interface/parseTable";
+import { readQuoted } from "./grammarLexer";
+
+export type ParseTreeNode = {
+  symbol: string;
+  terminal: boolean;
+  text?: string; // 字句解析したときの、終端記号の元の文字列
+  error?: boolean; // 回復で作った error の節か 回復で取り除いた節と読み飛ばしたトークンを子に持つ
+  production?: number; // 還元で作った節の、生成規則の番号
+  step?: number; // その還元が何手目か（動作の値を手ごとに表示するのに使う）
+  children: ParseTreeNode[];
+};
+
+export type ParseStep = {
+  stateStack: number[];
+  symbolStack: string[];
+  input: string[]; // まだ読んでいないトークン（先頭が先読み記号）
+  action: ParseAction | null; // nullならエラーか、エラーからの回復の途中
+  description: string;
+};
+
+export type ParseError = {
+  state: number; // エラーになった状態
+  token: string; // そのときの先読み記号
+  position: number; // 何番目のトークンか（0始まり）
+  expected: string[]; // その状態で受け付けられたトークン
+  message: string;
+};
+
+export type ParseResult = {
+  accepted: boolean; // 受理まで進んだか（回復した構文エラーがあっても、最後まで進めば受理）
+  steps: ParseStep[];
+  tree: ParseTreeNode; // 受理できなかったときは、スタックに残った節を開始記号の節の下にまとめた部分木
+  errors: ParseError[]; // 見つかった構文エラー（入力の順）
+};
+
+// 衝突や循環する文法で止まらなくならないようにする上限
+const MAX_STEPS = 10000;
+
+// 回復の後、この数のトークンをシフトするまでは新しいエラーを報告しない（1つの誤りからエラーが連鎖しないように）
+const RECOVERY_SHIFTS = 3;
+
+/**
+ * "'LPAR' 'NUM' 'RPAR'" のような空白区切りの入力をトークン列にする
+ * 終端記号はクオーテーションで囲んでも囲まなくてもよい 囲めば 'a b' のように空白も含められ、構文定義と同じエスケープが使える
+ * 閉じられていないクオーテーションは、囲まない終端記号の一部として扱う
+ */
+export const tokenizeInput = (text: string): string[] => {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    if (text[i] === "'" || text[i] === '"') {
+      const { value, end, closed } = readQuoted(text, i);
+      if (closed) {
+        tokens.push(value);
+        i = end;
+        continue;
+      }
+    }
+    const start = i;
+    while (i < text.length && !/\s/.test(text[i])) i++;
+    tokens.push(text.slice(start, i));
+  }
+  return tokens;
+};
+
+// 還元を続けた先で、symbolをシフト（または受理）できるか 状態スタックは書き換えない
+const canShift = (table: ParseTable, stateStack: number[], symbol: string) => {
+  const stack = [...stateStack];
+  for (let i = 0; i < MAX_STEPS; i++) {
+    const action = table.getActions(stack[stack.length - 1], symbol)[0];
+    if (action === undefined) return false;
+    if (action.type !== "reduce") return true;
+    const production = table.getProduction(action.production);
+    stack.splice(stack.length - production.getElements().length);
+    const next = table.getGoto(stack[stack.length - 1], production.getLeft());
+    if (next === undefined) return false;
+    stack.push(next);
+  }
+  return false;
+};
+
+/**
+ * その状態スタックで受け付けられるトークン
+ * ACTION表に動作があっても、還元した先でシフトできない記号は除く（LR(0)やLALR(1)では還元が多めに入っているため）
+ */
+export const getExpectedTokens = (table: ParseTable, stateStack: number[]) =>
+  table.getActionSymbols().filter((symbol) => symbol !== ERROR_TOKEN && canShift(table, stateStack, symbol));
+
+/**
+ * トークン列を解析する 入力の最後にはEND_MARKERを自動で付ける
+ * 衝突しているセルでは先頭の動作（シフトがあればシフト）を選ぶ
+ * textsを渡すと、構文木の終端記号にそれぞれの元の文字列を持たせる
+ * 動作はここでは実行しない 構文木をWorkerに渡して実行する（semanticRunner.ts）
+ *
+ * 構文エラーはyaccと同じくパニックモードで回復する
+ * 1. error をシフトできる状態が出てくるまで、状態スタックから取り除く（なければ解析を終える）
+ * 2. error をシフトして、その状態で動作のあるトークンが来るまで入力を読み飛ばす
+ * 回復の直後に何もシフトできずに再びエラーになったら、先読みのトークンを1つ捨ててから回復し直す
+ */
+export const parseTokens = (table: ParseTable, tokens: string[], texts?: string[]): ParseResult => {
+  const input = [...tokens, END_MARKER];
+  const stateStack = [0];
+  const symbolStack: string[] = [];
+  const nodeStack: ParseTreeNode[] = [];
+  const steps: ParseStep[] = [];
+  const errors: ParseError[] = [];
+  let position = 0;
+  let recovering = 0; // 0でなければ回復の途中 シフトするたびに減らす
+
+  const top = () => stateStack[stateStack.length - 1];
+
+  const record = (action: ParseAction | null, description: string) => {
+    steps.push({
+      stateStack: [...stateStack],
+      symbolStack: [...symbolStack],
+      input: input.slice(position),
+      action,
+      description,
+    });
+  };
+
+  const terminalNode = (index: number): ParseTreeNode => ({
+    symbol: input[index],
+    terminal: true,
+    text: texts?.[index],
+    children: [],
+  });
+
+  // 受理できなかったときの部分木 スタックに残った節を開始記号の下にまとめる
+  const finish = (description: string): ParseResult => {
+    record(null, description);
+    const startSymbol = table.getStartConcatenation().getElementAt(0)?.getValue() ?? "";
+    return { accepted: false, steps, tree: { symbol: startSymbol, terminal: false, error: true, children: [...nodeStack] }, errors };
+  };
+
+  // 回復できればtrue 回復できなければfalse（解析を終える）
+  const recover = (): boolean => {
+    const removed: ParseTreeNode[] = [];
+    if (recovering === RECOVERY_SHIFTS) {
+      if (input[position] === END_MARKER) return false;
+      record(null, `回復: '${input[position]}' を読み飛ばす`);
+      removed.push(terminalNode(position));
+      position++;
+    }
+
+    const depth = stateStack.findLastIndex((state) => table.getActions(state, ERROR_TOKEN)[0]?.type === "shift");
+    if (depth === -1) return false;
+    while (stateStack.length > depth + 1) {
+      record(null, `回復: 状態 ${top()} を取り除く`);
+      stateStack.pop();
+      symbolStack.pop();
+      const node = nodeStack.pop();
+      if (node !== undefined) removed.unshift(node);
+    }
+
+    const shift = table.getActions(top(), ERROR_TOKEN)[0];
+    if (shift?.type !== "shift") return false;
+    record(shift, `回復: error をシフト ${formatParseAction(shift)}`);
+    const errorNode: ParseTreeNode = { symbol: ERROR_TOKEN, terminal: true, error: true, children: removed };
+    stateStack.push(shift.state);
+    symbolStack.push(ERROR_TOKEN);
+    nodeStack.push(errorNode);
+    recovering = RECOVERY_SHIFTS;
+
+    while (table.getActions(top(), input[position]).length === 0) {
+      if (input[position] === END_MARKER) return false;
+      record(null, `回復: '${input[position]}' を読み飛ばす`);
+      errorNode.children.push(terminalNode(position));
+      position++;
+    }
+    return true;
+  };
+
+  while (steps.length < MAX_STEPS) {
+    const state = top();
+    const token = input[position];
+    const action = table.getActions(state, token)[0];
+
+    if (action === undefined) {
+      const expected = getExpectedTokens(table, stateStack);
+      // 回復の途中のエラーは、前のエラーの続きとみなして報告しない
+      if (recovering === 0) {
+        const message = `状態 ${state} で '${token}' を受け付けられません`;
+        errors.push({ state, token, position, expected, message });
+        record(null, `エラー: ${message}（期待: ${expected.join(", ") || "なし"}）`);
+      } else {
+        record(null, `エラー: 回復の途中なので報告せずに回復を続けます`);
+      }
+      if (!recover()) {
+        return finish("回復できないので解析を終えます");
+      }
+      continue;
+    }
+
+    switch (action.type) {
+      case "shift": {
+        record(action, `シフト ${formatParseAction(action)}`);
+        stateStack.push(action.state);
+        symbolStack.push(token);
+        nodeStack.push(terminalNode(position));
+        position++;
+        if (recovering > 0) recovering--;
+        break;
+      }
+      case "reduce": {
+        const production = table.getProduction(action.production);
+        record(action, `還元 ${formatParseAction(action)}: ${production.toString()}`);
+        const length = production.getElements().length;
+        stateStack.splice(stateStack.length - length, length);
+        symbolStack.splice(symbolStack.length - length, length);
+        const children = nodeStack.splice(nodeStack.length - length, length);
+        const left = production.getLeft();
+        const next = table.getGoto(top(), left);
+        if (next === undefined) {
+          errors.push({ state: top(), token, position, expected: [], message: `状態 ${top()} に ${left} のGOTOがありません` });
+          return finish(`エラー: 状態 ${top()} に ${left} のGOTOがありません`);
+        }
+        stateStack.push(next);
+        symbolStack.push(left);
+        nodeStack.push({ symbol: left, terminal: false, production: action.production, step: steps.length - 1, children });
+        break;
+      }
+      case "accept": {
+        record(action, "受理");
+        // S' -> S • $ で受理するので、スタックには開始記号のノードが1つだけ残っている
+        return { accepted: true, steps, tree: nodeStack[0], errors };
+      }
+    }
+  }
+
+  errors.push({ state: top(), token: input[position], position, expected: [], message: `${MAX_STEPS} 手を超えたので解析を打ち切りました` });
+  return finish(`エラー: ${MAX_STEPS} 手を超えたので解析を打ち切りました`);
+};
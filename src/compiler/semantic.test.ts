@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "./algorithms";
+import { parseBnfWithDiagnostics, parseRawBnf } from "./parseBnf";
+import { parseTokens } from "./parser";
+import { checkActionCode, checkSemanticActions, evaluateActions, formatValue, getActionSources } from "./semantic";
+
+// 字句解析したときと同じように、トークンの名前と元の文字列を渡して解析し、動作を実行する
+const evaluate = (grammar: string, tokens: string[], texts: string[]) => {
+  const table = algorithms.lalr1.build(parseRawBnf(grammar)).table;
+  const result = parseTokens(table, tokens, texts);
+  return evaluateActions(result.tree, getActionSources(table.getProductions()));
+};
+
+const CALC = "E -> E '+' T { $$ = $1 + $3 } | T\nT -> 'NUM' { $$ = Number($1) }";
+
+describe("evaluateActions", () => {
+  it("還元した順に動作を実行し、手ごとに左辺の値を返す 動作のない規則は $1 をそのまま使う", () => {
+    const { values, errors } = evaluate(CALC, ["NUM", "+", "NUM"], ["1", "+", "2"]);
+    expect(errors).toEqual([]);
+    expect(Object.values(values)).toEqual(["1", "1", "2", "3"]);
+  });
+
+  it("動作の中の例外を、規則と手の番号つきで返し、続きの還元も実行する", () => {
+    const { values, errors } = evaluate("E -> E '+' T { $$ = $1 + $3 } | T\nT -> 'NUM' { if ($1 === '0') throw new Error('ゼロ') }", ["NUM", "+", "NUM"], ["0", "+", "2"]);
+    expect(errors.map((e) => e.message)).toEqual(["T -> 'NUM' の動作で例外: ゼロ"]);
+    expect(Object.values(values)).toEqual(["undefined", '"2"', '"undefined2"']);
+  });
+
+  it("動作の中からは window や fetch などのグローバルが見えない", () => {
+    const { values } = evaluate("S -> 'a' { $$ = [typeof window, typeof fetch, typeof Function] }", ["a"], ["a"]);
+    expect(Object.values(values)).toEqual(['["undefined","undefined","undefined"]']);
+  });
+});
+
+describe("checkActionCode", () => {
+  it("関数にできる動作ならnull、構文の誤りがあればそのメッセージを返す", () => {
+    expect(checkActionCode(3, "$$ = $1 + $3")).toBeNull();
+    expect(checkActionCode(1, "$$ = (")).toEqual(expect.any(String));
+  });
+});
+
+describe("checkSemanticActions", () => {
+  it("関数にできない動作を、動作の位置で報告する", () => {
+    const { bnfSet } = parseBnfWithDiagnostics("S -> 'a' { $$ = $1 }\n  | 'b' { $$ = ( }");
+    const diagnostics = checkSemanticActions(bnfSet);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: "error", line: 1, range: { line: 1, column: 8 } });
+    expect(diagnostics[0].error).toMatch(/^動作に誤りがあります: /);
+  });
+});
+
+describe("formatValue", () => {
+  it("JSONにできない値は文字列にし、長すぎる値は省略する", () => {
+    expect(formatValue(undefined)).toBe("undefined");
+    expect(formatValue(10n)).toBe("10");
+    expect(formatValue({ a: [1, "b"] })).toBe('{"a":[1,"b"]}');
+    expect(formatValue("x".repeat(100))).toBe(`"${"x".repeat(76)}...`);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * 選択肢の最後に書いた { } の動作を、構文木の還元の順に実行する（構文主導翻訳）
+ *
+ *   EXP -> EXP '+' TERM { $$ = $1 + $3 }
+ *   TERM -> NUM         { $$ = Number($1) }
+ *
+ * - $1, $2, ... は右辺の記号の値、$$ は左辺の値 $$ の初期値は $1 で、動作がなければそのまま $1 になる（yaccと同じ）
+ * - 終端記号の値は、字句解析したときはその文字列、そうでなければトークンの名前
+ * - 動作は任意のJavaScriptなので、画面とは別のWorkerで実行する（semanticRunner.ts）
+ *   Worker の中でも window や fetch などのグローバルを隠し、時間内に終わらなければWorkerごと止める
+ * - 画面の側では、構文の検査のために関数にするだけで実行はしない
+ */
+
+import { BNFConcatenation, BNFError, BNFSet } from "./interface/bnf";
+import { ParseTreeNode } from "./parser";
+
+type SemanticFunction = (values: unknown[]) => unknown;
+
+// Workerに渡す生成規則ごとの動作 動作のない規則はnull
+export type ActionSource = { arity: number; code: string; rule: string } | null;
+
+export type ActionEvaluation = {
+  values: { [step: number]: string }; // 還元した手ごとの、左辺の値（表示用の文字列）
+  errors: Array<{ step: number; message: string }>; // 動作の実行中に投げられた例外（何手目か）
+};
+
+// 動作の中から見えないようにするグローバル（引数で同じ名前をundefinedにして隠す）
+const HIDDEN_GLOBALS = [
+  "window",
+  "self",
+  "globalThis",
+  "document",
+  "parent",
+  "top",
+  "opener",
+  "frames",
+  "location",
+  "navigator",
+  "localStorage",
+  "sessionStorage",
+  "indexedDB",
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "Worker",
+  "importScripts",
+  "Function",
+];
+
+// 動作を関数にする arityは右辺の記号の数 構文の誤りがあればSyntaxErrorを投げる
+const compileAction = (arity: number, code: string): SemanticFunction => {
+  const params = Array.from({ length: arity }, (_, i) => `$${i + 1}`);
+  const body = `"use strict";\nlet $$ = ${params.length > 0 ? "$1" : "undefined"};\n${code}\n;return $$;`;
+  const fn = new Function(...HIDDEN_GLOBALS, ...params, body) as (...args: unknown[]) => unknown;
+  const hidden = HIDDEN_GLOBALS.map(() => undefined);
+  return (values) => fn(...hidden, ...values);
+};
+
+// 構文解析表の生成規則の番号ごとに、Workerに渡す動作を取り出す
+export const getActionSources = (productions: BNFConcatenation[]): ActionSource[] =>
+  productions.map((concat) => {
+    const action = concat.getAction();
+    return action === null ? null : { arity: concat.getElements().length, code: action.code, rule: concat.toString() };
+  });
+
+/**
+ * 構文木を帰りがけ順にたどって動作を実行する 左から右への帰りがけ順は、LR法で還元した順と同じになる
+ * 還元で作っていない節（回復で作った error の節、受理できなかったときの根）は値を持たない
+ * Workerの中で呼ぶ（semanticWorker.ts）
+ */
+export const evaluateActions = (tree: ParseTreeNode, sources: ActionSource[]): ActionEvaluation => {
+  const values: ActionEvaluation["values"] = {};
+  const errors: ActionEvaluation["errors"] = [];
+  const functions = new Map<number, SemanticFunction | Error>();
+  const getFunction = (production: number) => {
+    const source = sources[production] ?? null;
+    if (source === null) return null;
+    if (!functions.has(production)) {
+      try {
+        functions.set(production, compileAction(source.arity, source.code));
+      } catch (e) {
+        functions.set(production, e as Error);
+      }
+    }
+    return functions.get(production) ?? null;
+  };
+
+  const evaluate = (node: ParseTreeNode): unknown => {
+    if (node.terminal && !node.error) {
+      return node.text ?? node.symbol;
+    }
+    const children = node.children.map(evaluate);
+    if (node.production === undefined || node.step === undefined) {
+      return undefined;
+    }
+    const fn = getFunction(node.production);
+    try {
+      if (fn instanceof Error) throw fn;
+      const value = fn ? fn(children) : children[0];
+      values[node.step] = formatValue(value);
+      return value;
+    } catch (e) {
+      const rule = sources[node.production]?.rule ?? `規則 ${node.production}`;
+      errors.push({ step: node.step, message: `${rule} の動作で例外: ${e instanceof Error ? e.message : String(e)}` });
+      return undefined;
+    }
+  };
+  evaluate(tree);
+  return { values, errors };
+};
+
+// 動作として使えるJavaScriptか 使えなければ誤りのメッセージを返す（他の形式の文法を読み込むときに使う）
+export const checkActionCode = (arity: number, code: string): string | null => {
+  try {
+    compileAction(arity, code);
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+// 構文定義の検査用 関数にできない動作を、動作の位置付きで返す
+export const checkSemanticActions = (bnfSet: BNFSet): BNFError => {
+  const diagnostics: BNFError = [];
+  bnfSet.getProductions().forEach((concat) => {
+    const action = concat.getAction();
+    if (action === null || action.range === null) {
+      return;
+    }
+    try {
+      compileAction(concat.getElements().length, action.code);
+    } catch (e) {
+      diagnostics.push({
+        error: `動作に誤りがあります: ${(e as Error).message}`,
+        line: action.range.line,
+        range: action.range,
+        severity: "error",
+      });
+    }
+  });
+  return diagnostics;
+};
+
+// 構文木や解析の手順に表示する値 長すぎるものは省略する
+export const formatValue = (value: unknown): string => {
+  let text: string;
+  if (value === undefined || typeof value === "function" || typeof value === "symbol" || typeof value === "bigint") {
+    text = String(value);
+  } else {
+    try {
+      text = JSON.stringify(value) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+  }
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
@@ -0,0 +1,52 @@
+/**
+ * 動作をWorkerで実行する
+ * 動作は任意のJavaScriptなので、画面を止めたりページの情報に触れたりしないように、実行ごとに新しいWorkerを起こす
+ * 時間内に終わらなければ（無限ループなど）Workerを止めて、エラーにする
+ */
+
+import { ParseTreeNode } from "./parser";
+import { ActionEvaluation, ActionSource } from "./semantic";
+
+// 動作の実行を待つ時間（ミリ秒） Workerの起動にかかる時間も含む
+export const ACTION_TIMEOUT = 3000;
+
+/**
+ * 構文木に沿って動作を実行する signalで中止するとWorkerを止めて、AbortErrorで失敗する
+ * 時間切れやWorkerの中の予期しないエラーも、Errorで失敗する（動作の中の例外は結果のerrorsに入る）
+ */
+export const runActionsInWorker = (
+  tree: ParseTreeNode,
+  sources: ActionSource[],
+  signal?: AbortSignal,
+  timeout: number = ACTION_TIMEOUT
+): Promise<ActionEvaluation> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL("./semanticWorker.ts", import.meta.url), { type: "module" });
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+    const abort = () => {
+      finish();
+      reject(new DOMException("動作の実行を中止しました", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`${timeout} ミリ秒以内に終わらなかったので、動作の実行を止めました（無限ループになっていないか確かめてください）`));
+    }, timeout);
+    worker.onmessage = (e: MessageEvent<ActionEvaluation>) => {
+      finish();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "動作を実行するWorkerでエラーが起きました"));
+    };
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    signal?.addEventListener("abort", abort);
+    worker.postMessage({ tree, sources });
+  });
@@ -0,0 +1,21 @@
+/**
+ * 動作を実行するWorker semanticRunner.ts から起動する
+ * 受け取った構文木と動作で evaluateActions を呼び、結果を送り返す
+ */
+
+import { ParseTreeNode } from "./parser";
+import { ActionSource, evaluateActions } from "./semantic";
+
+// 動作の中から Function のコンストラクタなどでグローバルを取り出しても、通信や保存ができないようにする
+const BLOCKED_GLOBALS = ["fetch", "XMLHttpRequest", "WebSocket", "EventSource", "importScripts", "indexedDB", "caches", "Worker", "BroadcastChannel"];
+BLOCKED_GLOBALS.forEach((name) => {
+  try {
+    Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  } catch {
+    // 書き換えられないものはそのままにする
+  }
+});
+
+self.onmessage = (e: MessageEvent<{ tree: ParseTreeNode; sources: ActionSource[] }>) => {
+  self.postMessage(evaluateActions(e.data.tree, e.data.sources));
+};
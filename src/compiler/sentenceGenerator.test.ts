@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+
+import { formatDerivation } from "./counterexample";
+import { parseRawBnf } from "./parseBnf";
+import { checkAmbiguity, enumerateSentences, generateRandomSentence, getShortestYields } from "./sentenceGenerator";
+
+const AMBIGUOUS = "E -> E '+' E | 'n'";
+const PARENS = "S -> '(' S ')' S | ε";
+
+describe("getShortestYields", () => {
+  it("非終端記号ごとの最短の終端記号列を返し、生成的でない記号は含めない", () => {
+    const yields = getShortestYields(parseRawBnf("S -> A 'x' | B\nA -> 'a' 'a' | 'b'\nB -> B 'c'"));
+    expect(Object.fromEntries(yields)).toEqual({ S: ["b", "x"], A: ["b"] });
+  });
+});
+
+describe("generateRandomSentence", () => {
+  it("深さの上限を超えないように選択肢を選ぶ", () => {
+    const generated = generateRandomSentence(parseRawBnf(AMBIGUOUS), { maxDepth: 3, random: () => 0 });
+    expect(generated?.sentence).toEqual(["n", "+", "n"]);
+    expect(generated && formatDerivation(generated.tree)).toBe("(E (E 'n') '+' (E 'n'))");
+  });
+
+  it("開始記号から文を導出できなければnull", () => {
+    expect(generateRandomSentence(parseRawBnf("S -> S 'a'"), { maxDepth: 5 })).toBeNull();
+  });
+});
+
+describe("enumerateSentences", () => {
+  it("長さの上限以下の文を、短い順に一度ずつ列挙する", () => {
+    expect(enumerateSentences(parseRawBnf(PARENS), 4)).toEqual({
+      sentences: [[], ["(", ")"], ["(", ")", "(", ")"], ["(", "(", ")", ")"]],
+      complete: true,
+    });
+  });
+
+  it("空白を含む終端記号の文と、区切った終端記号の文を別の文とする", () => {
+    expect(enumerateSentences(parseRawBnf("S -> 'a b' | 'a' 'b'"), 2).sentences).toEqual([["a b"], ["a", "b"]]);
+  });
+
+  it("上限で打ち切ったときは complete が false になる", () => {
+    expect(enumerateSentences(parseRawBnf(PARENS), 8, { maxSentences: 2 })).toEqual({ sentences: [[], ["(", ")"]], complete: false });
+  });
+});
+
+describe("checkAmbiguity", () => {
+  it("2通りの最左導出を持つ文を、2つの構文木と一緒に返す", () => {
+    const { ambiguities, complete } = checkAmbiguity(parseRawBnf(AMBIGUOUS), 5);
+    expect(complete).toBe(true);
+    expect(ambiguities.map((a) => [a.sentence.join(" "), ...a.trees.map(formatDerivation)])).toEqual([
+      ["n + n + n", "(E (E 'n') '+' (E (E 'n') '+' (E 'n')))", "(E (E (E 'n') '+' (E 'n')) '+' (E 'n'))"],
+    ]);
+  });
+
+  it("あいまいでない文法では何も返さない", () => {
+    expect(checkAmbiguity(parseRawBnf(PARENS), 6)).toEqual({ ambiguities: [], complete: true });
+    expect(checkAmbiguity(parseRawBnf("S -> 'a b' | 'a' 'b'"), 2)).toEqual({ ambiguities: [], complete: true });
+  });
+});
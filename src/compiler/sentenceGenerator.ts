@@ -0,0 +1,290 @@
+/**
+ * 文法から文を作る LR法の構築とは関係なく、文法そのものを確かめるのに使う
+ *
+ * - ランダムな文: 開始記号から、選択肢を重み付きで選んで展開する
+ *   同じ選択肢を祖先で使うほど選ばれにくくし、深さの上限に近づいたら早く終わる選択肢だけを選ぶ
+ * - 文の列挙: 長さの上限以下の文を、短い順にすべて列挙する
+ * - あいまいさの検査: 長さの上限以下の文について最左導出をすべて列挙し、2通りの最左導出を持つ文を探す
+ *   上限の範囲で見つからなくても、あいまいでないとは言えない（文法のあいまいさは一般には決定できない）
+ */
+
+import { BNFConcatenation, BNFElement, BNFSet } from "./interface/bnf";
+import { ParseTreeNode } from "./parser";
+
+export type RandomSentenceOptions = {
+  maxDepth: number; // 構文木の深さの上限 開始記号から終わるのに必要な深さより小さければ、その深さまで許す
+  decay?: number; // 祖先で1回使った選択肢の重みに掛ける値（0より大きく1以下）
+  random?: () => number; // [0, 1) の乱数
+};
+
+export type GeneratedSentence = {
+  sentence: string[];
+  tree: ParseTreeNode;
+};
+
+export type EnumerationLimits = {
+  maxForms?: number; // 展開する文形式の数の上限
+  maxSentences?: number; // 列挙する文の数の上限
+};
+
+export type SentenceEnumeration = {
+  sentences: string[][];
+  complete: boolean; // 上限で打ち切らずに、長さの上限以下の文をすべて列挙したか
+};
+
+export type Ambiguity = {
+  sentence: string[];
+  trees: [ParseTreeNode, ParseTreeNode]; // 2通りの最左導出の構文木
+};
+
+export type AmbiguityCheck = {
+  ambiguities: Ambiguity[];
+  complete: boolean; // 上限で打ち切らずに、長さの上限以下の最左導出をすべて調べたか
+};
+
+const DEFAULT_DECAY = 0.5;
+// 列挙する文形式の数の上限 UIで同期的に計算するので小さめにする
+const MAX_FORMS = 20000;
+// 列挙する文の数の上限
+const MAX_SENTENCES = 500;
+// 報告するあいまいな文の数の上限
+const MAX_AMBIGUITIES = 10;
+
+// 右辺に現れても規則のない名前は、終端記号として扱う
+const isExpandable = (e: BNFElement, nonterminals: Set<string>) => e.getType() !== "terminal" && nonterminals.has(e.getValue());
+
+// 拡大文法の規則を除いた生成規則
+const userProductions = (bnfSet: BNFSet) =>
+  bnfSet
+    .getBNFs()
+    .filter((bnf) => !bnf.isAugmented())
+    .flatMap((bnf) => bnf.getRight());
+
+// 非終端記号ごとの最短の終端記号列 生成的でない非終端記号は含まれない
+export const getShortestYields = (bnfSet: BNFSet): Map<string, string[]> => {
+  const yields = new Map<string, string[]>();
+  const nonterminals = new Set(bnfSet.getNonterminals());
+  const productions = userProductions(bnfSet);
+  for (let changed = true; changed; ) {
+    changed = false;
+    productions.forEach((concat) => {
+      const parts = concat.getElements().map((e) => (isExpandable(e, nonterminals) ? yields.get(e.getValue()) : [e.getValue()]));
+      if (parts.some((p) => p === undefined)) return;
+      const candidate = parts.flatMap((p) => p ?? []);
+      const current = yields.get(concat.getLeft());
+      if (current === undefined || candidate.length < current.length) {
+        yields.set(concat.getLeft(), candidate);
+        changed = true;
+      }
+    });
+  }
+  return yields;
+};
+
+// 非終端記号ごとの、終端記号だけになるまでに必要な構文木の最小の高さ 生成的でない非終端記号は含まれない
+const getMinimumHeights = (bnfSet: BNFSet, nonterminals: Set<string>): Map<string, number> => {
+  const heights = new Map<string, number>();
+  const productions = userProductions(bnfSet);
+  for (let changed = true; changed; ) {
+    changed = false;
+    productions.forEach((concat) => {
+      const height = concatHeight(concat, heights, nonterminals);
+      const current = heights.get(concat.getLeft());
+      if (height !== undefined && (current === undefined || height < current)) {
+        heights.set(concat.getLeft(), height);
+        changed = true;
+      }
+    });
+  }
+  return heights;
+};
+
+// 選択肢を使ったときの部分木の最小の高さ 生成的でない記号を含めばundefined
+const concatHeight = (concat: BNFConcatenation, heights: Map<string, number>, nonterminals: Set<string>): number | undefined => {
+  let height = 1;
+  for (const e of concat.getElements()) {
+    if (!isExpandable(e, nonterminals)) continue;
+    const h = heights.get(e.getValue());
+    if (h === undefined) return undefined;
+    height = Math.max(height, h + 1);
+  }
+  return height;
+};
+
+/**
+ * ランダムな文を1つ作る 開始記号から終端記号だけの文を導出できなければnull
+ *
+ * 深さ depth の節では、残りの深さ（maxDepth - depth）で終われる選択肢の中から、
+ * decay ^ (その選択肢を祖先で使った回数) の重みで選ぶ そのような選択肢がなければ、いちばん早く終わる選択肢を選ぶ
+ */
+export const generateRandomSentence = (bnfSet: BNFSet, options: RandomSentenceOptions): GeneratedSentence | null => {
+  const { maxDepth, decay = DEFAULT_DECAY, random = Math.random } = options;
+  const nonterminals = new Set(bnfSet.getNonterminals());
+  const heights = getMinimumHeights(bnfSet, nonterminals);
+  const start = bnfSet.getStartSymbol();
+  if (!heights.has(start)) {
+    return null;
+  }
+  // 祖先で使った選択肢と回数
+  const uses = new Map<BNFConcatenation, number>();
+
+  const expand = (symbol: string, depth: number): ParseTreeNode => {
+    const alternatives = bnfSet
+      .getBNFbyLeft(symbol)
+      .map((concat) => ({ concat, height: concatHeight(concat, heights, nonterminals) }))
+      .filter((a): a is { concat: BNFConcatenation; height: number } => a.height !== undefined);
+    const fitting = alternatives.filter((a) => a.height <= maxDepth - depth);
+    const lowest = Math.min(...alternatives.map((a) => a.height));
+    const candidates = fitting.length > 0 ? fitting : alternatives.filter((a) => a.height === lowest);
+
+    const weights = candidates.map((a) => Math.pow(decay, uses.get(a.concat) ?? 0));
+    let r = random() * weights.reduce((sum, w) => sum + w, 0);
+    const chosen = candidates.find((_, i) => (r -= weights[i]) < 0) ?? candidates[candidates.length - 1];
+
+    const concat = chosen.concat;
+    uses.set(concat, (uses.get(concat) ?? 0) + 1);
+    const children = concat
+      .getElements()
+      .map((e): ParseTreeNode =>
+        isExpandable(e, nonterminals) ? expand(e.getValue(), depth + 1) : { symbol: e.getValue(), terminal: true, children: [] }
+      );
+    uses.set(concat, (uses.get(concat) ?? 1) - 1);
+    return { symbol, terminal: false, children };
+  };
+
+  const tree = expand(start, 1);
+  return { sentence: collectLeaves(tree), tree };
+};
+
+// 構文木の葉（終端記号）を左から並べる
+const collectLeaves = (node: ParseTreeNode): string[] => (node.terminal ? [node.symbol] : node.children.flatMap(collectLeaves));
+
+// 文形式の最短の文の長さ
+const minimumLength = (form: BNFElement[], yields: Map<string, string[]>, nonterminals: Set<string>) =>
+  form.reduce((sum, e) => sum + (isExpandable(e, nonterminals) ? (yields.get(e.getValue())?.length ?? Infinity) : 1), 0);
+
+/**
+ * 開始記号から導出できる文を短い順に列挙する
+ * 文形式の最左の非終端記号を展開し、最短でも maxLength より長くなる文形式は捨てる
+ * 同じ文形式は一度だけ展開するので、同じ文は一度だけ現れる
+ */
+export const enumerateSentences = (bnfSet: BNFSet, maxLength: number, limits: EnumerationLimits = {}): SentenceEnumeration => {
+  const { maxForms = MAX_FORMS, maxSentences = MAX_SENTENCES } = limits;
+  const nonterminals = new Set(bnfSet.getNonterminals());
+  const yields = getShortestYields(bnfSet);
+  // 空白を含む終端記号があっても区切りと混ざらないよう、記号の配列のまま文字列にする
+  const keyOf = (form: BNFElement[]) => JSON.stringify(form.map((e) => e.toString()));
+
+  const start = [new BNFElement("nonterminal", bnfSet.getStartSymbol())];
+  // 最短の長さごとのバケットを、短い方から取り出す
+  const buckets: BNFElement[][][] = [];
+  const startLength = minimumLength(start, yields, nonterminals);
+  if (startLength <= maxLength) buckets[startLength] = [start];
+  const visited = new Set([keyOf(start)]);
+  const sentences: string[][] = [];
+
+  let forms = 0;
+  for (let length = 0; length <= maxLength; length++) {
+    const bucket = (buckets[length] ??= []);
+    for (let i = 0; i < bucket.length; i++) {
+      if (forms >= maxForms || sentences.length >= maxSentences) {
+        return { sentences, complete: false };
+      }
+      const form = bucket[i];
+      forms++;
+      const index = form.findIndex((e) => isExpandable(e, nonterminals));
+      if (index === -1) {
+        sentences.push(form.map((e) => e.getValue()));
+        continue;
+      }
+      bnfSet.getBNFbyLeft(form[index].getValue()).forEach((concat) => {
+        const next = [...form.slice(0, index), ...concat.getElements(), ...form.slice(index + 1)];
+        const key = keyOf(next);
+        const nextLength = minimumLength(next, yields, nonterminals);
+        if (nextLength > maxLength || visited.has(key)) return;
+        visited.add(key);
+        (buckets[nextLength] ??= []).push(next);
+      });
+    }
+  }
+  return { sentences, complete: true };
+};
+
+// 最左導出で使った選択肢の列から構文木を組み立てる
+const buildTree = (start: string, derivation: BNFConcatenation[], nonterminals: Set<string>): ParseTreeNode => {
+  let next = 0;
+  const build = (symbol: string): ParseTreeNode => {
+    const concat = derivation[next++];
+    const children = concat
+      .getElements()
+      .map((e): ParseTreeNode => (isExpandable(e, nonterminals) ? build(e.getValue()) : { symbol: e.getValue(), terminal: true, children: [] }));
+    return { symbol, terminal: false, children };
+  };
+  return build(start);
+};
+
+/**
+ * 長さ maxLength 以下の文について、2通りの最左導出を持つものを探す
+ * enumerateSentences と同じ順に展開するが、同じ文形式でも導出が違えば別々に展開する
+ * 最左導出と構文木は1対1に対応するので、同じ文に2つ目の最左導出が見つかれば、構文木も2通りある
+ * A -> A のような循環があると同じ長さの導出が限りなくあるので、maxFormsで打ち切る
+ */
+export const checkAmbiguity = (bnfSet: BNFSet, maxLength: number, limits: EnumerationLimits = {}): AmbiguityCheck => {
+  const { maxForms = MAX_FORMS } = limits;
+  const nonterminals = new Set(bnfSet.getNonterminals());
+  const yields = getShortestYields(bnfSet);
+  const startSymbol = bnfSet.getStartSymbol();
+
+  // 導出は、使った選択肢を後ろからたどる連結リストで持つ（文形式ごとに配列をコピーしない）
+  type Derivation = { concat: BNFConcatenation; previous: Derivation } | null;
+  type Form = { symbols: BNFElement[]; derivation: Derivation };
+  const start: Form = { symbols: [new BNFElement("nonterminal", startSymbol)], derivation: null };
+  const toArray = (derivation: Derivation) => {
+    const concats: BNFConcatenation[] = [];
+    for (let d = derivation; d !== null; d = d.previous) concats.unshift(d.concat);
+    return concats;
+  };
+  const buckets: Form[][] = [];
+  const startLength = minimumLength(start.symbols, yields, nonterminals);
+  if (startLength <= maxLength) buckets[startLength] = [start];
+
+  // 文ごとに最初に見つかった最左導出
+  const firstDerivations = new Map<string, Derivation>();
+  const reported = new Set<string>();
+  const ambiguities: Ambiguity[] = [];
+
+  let forms = 0;
+  for (let length = 0; length <= maxLength; length++) {
+    const bucket = (buckets[length] ??= []);
+    for (let i = 0; i < bucket.length; i++) {
+      if (forms >= maxForms || ambiguities.length >= MAX_AMBIGUITIES) {
+        return { ambiguities, complete: false };
+      }
+      const { symbols, derivation } = bucket[i];
+      forms++;
+      const index = symbols.findIndex((e) => isExpandable(e, nonterminals));
+      if (index === -1) {
+        const sentence = symbols.map((e) => e.getValue());
+        const key = JSON.stringify(sentence);
+        const first = firstDerivations.get(key);
+        if (first === undefined) {
+          firstDerivations.set(key, derivation);
+        } else if (!reported.has(key)) {
+          reported.add(key);
+          ambiguities.push({
+            sentence,
+            trees: [buildTree(startSymbol, toArray(first), nonterminals), buildTree(startSymbol, toArray(derivation), nonterminals)],
+          });
+        }
+        continue;
+      }
+      bnfSet.getBNFbyLeft(symbols[index].getValue()).forEach((concat) => {
+        const next = [...symbols.slice(0, index), ...concat.getElements(), ...symbols.slice(index + 1)];
+        const nextLength = minimumLength(next, yields, nonterminals);
+        if (nextLength > maxLength) return;
+        (buckets[nextLength] ??= []).push({ symbols: next, derivation: { concat, previous: derivation } });
+      });
+    }
+  }
+  return { ambiguities, complete: true };
+};
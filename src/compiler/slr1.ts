@@ -0,0 +1,25 @@
+/**
+ * SLR(1) parser generator
+ */
+
+import { BNFSet } from "./interface/bnf";
+import { LRItemSets } from "./interface/itemSet";
+import { buildParseTable } from "./buildParseTable";
+import { analyzeGrammar } from "./grammarAnalysis";
+
+const slr1 = (bnfSet: BNFSet) => {
+  // オートマトン自体はLR(0)と同じものを使う
+  const lrItemSets = new LRItemSets(bnfSet);
+  const itemSets = lrItemSets.startCalculation();
+  const startConcatenation = lrItemSets.getStartConcatenation();
+
+  // 還元は左辺のFOLLOW集合に含まれる記号のときだけ行う
+  const analysis = analyzeGrammar(bnfSet, startConcatenation.getLeft());
+  const table = buildParseTable(bnfSet, itemSets, startConcatenation, (item) =>
+    Array.from(analysis.follow.get(item.getConcatenation().getLeft()) ?? [])
+  );
+
+  return { itemSets, table, events: lrItemSets.getEvents() };
+};
+
+export default slr1;
@@ -0,0 +1,90 @@
+import { LRItemSet } from "../compiler/interface/itemSet";
+import { isEquivalentAutomaton, matchStates, validateAutomaton } from "../compiler/automatonCheck";
+import { importJson } from "../compiler/exporter";
+
+import { useMemo, useState } from "react";
+
+type AutomatonCheckViewProps = {
+  itemSets: LRItemSet[];
+};
+
+const cellStyle = { border: "1px solid #999", padding: "2px 8px", textAlign: "center" as const };
+
+// オートマトンの検査結果と、読み込んだJSON（教科書の状態番号で作ったものなど）との状態の対応を表示する
+const AutomatonCheckView = (props: AutomatonCheckViewProps) => {
+  const { itemSets } = props;
+  const [theirs, setTheirs] = useState<{ name: string; itemSets: LRItemSet[] } | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const problems = useMemo(() => validateAutomaton(itemSets), [itemSets]);
+  const correspondence = useMemo(() => (theirs ? matchStates(itemSets, theirs.itemSets) : null), [itemSets, theirs]);
+
+  return (
+    <div>
+      <h2>オートマトンの検査</h2>
+      {problems.length === 0 ? (
+        <p style={{ color: "#393" }}>核が同じ状態はなく、すべての遷移が正しい状態を指しています。</p>
+      ) : (
+        problems.map((p, i) => (
+          <p key={i} style={{ color: "red" }}>
+            {p.message}
+          </p>
+        ))
+      )}
+
+      <div>
+        比較するオートマトンのJSONを読み込む:{" "}
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            try {
+              setTheirs({ name: file.name, itemSets: importJson(await file.text()).automaton.itemSets });
+              setLoadError(null);
+            } catch (err) {
+              setLoadError((err as Error).message);
+            }
+          }}
+        />
+        {loadError && <span style={{ color: "red", whiteSpace: "pre-line" }}> {loadError}</span>}
+      </div>
+      {theirs && correspondence && (
+        <div>
+          <p>
+            {isEquivalentAutomaton(itemSets, theirs.itemSets)
+              ? `${theirs.name} のオートマトンと、状態番号の付け方を除いて同じです。`
+              : `${theirs.name} のオートマトンとは一致しません。`}
+          </p>
+          <table style={{ borderCollapse: "collapse", fontFamily: "monospace" }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>この状態</th>
+                <th style={cellStyle}>{theirs.name} の状態</th>
+              </tr>
+            </thead>
+            <tbody>
+              {correspondence.mapping.map((their, state) => (
+                <tr key={state}>
+                  <td style={cellStyle}>I{state}</td>
+                  <td style={{ ...cellStyle, background: their === null ? "#fbb" : undefined }}>{their === null ? "なし" : `I${their}`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {correspondence.unmatched.length > 0 && (
+            <p style={{ color: "red" }}>対応する状態がない {theirs.name} の状態: {correspondence.unmatched.map((s) => `I${s}`).join(", ")}</p>
+          )}
+          {correspondence.gotoMismatches.map((m, i) => (
+            <p key={i} style={{ color: "red" }}>
+              I{m.state} から '{m.symbol}' での遷移先が対応していません。
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AutomatonCheckView;
@@ -0,0 +1,54 @@
+import { BNFSet } from "../compiler/interface/bnf";
+import { LRItemSet } from "../compiler/interface/itemSet";
+import { ParseConflict, ParseTable, formatParseAction } from "../compiler/interface/parseTable";
+import { explainConflict, formatDerivation } from "../compiler/counterexample";
+
+import { useMemo } from "react";
+
+type ConflictExplanationViewProps = {
+  bnfSet: BNFSet;
+  itemSets: LRItemSet[];
+  table: ParseTable;
+  conflict: ParseConflict;
+};
+
+// 選んだ衝突について、その状態に着く入力と、衝突している項、同じ入力の2通りの導出（統合反例）を表示する
+const ConflictExplanationView = (props: ConflictExplanationViewProps) => {
+  const { bnfSet, itemSets, table, conflict } = props;
+  // conflictは表ごとにParseTableViewで覚えているので、同じ衝突なら作り直さない
+  const explanation = useMemo(() => explainConflict(bnfSet, itemSets, table, conflict), [bnfSet, itemSets, table, conflict]);
+
+  return (
+    <div style={{ border: "1px solid #999", padding: "4px 12px", fontFamily: "monospace", maxWidth: "40em" }}>
+      <h3>
+        状態 {conflict.state} / 記号 {conflict.symbol} の {conflict.type} 衝突
+      </h3>
+      <p>
+        状態 0 から {explanation.prefix.join(" ") || "（何も読まずに）"} と進むと状態 {conflict.state} に着きます。
+        <br />
+        入力の例: {[...explanation.examplePrefix, "•", conflict.symbol].join(" ")}
+      </p>
+      <ul>
+        {explanation.items.map((item, i) => (
+          <li key={i}>
+            {formatParseAction(item.action)}: {item.item}
+          </li>
+        ))}
+      </ul>
+      {explanation.unifying === null ? (
+        <p>短い入力の中には、どちらの動作を選んでも受理する入力（統合反例）は見つかりませんでした。先読みを増やせば解決できる衝突かもしれません。</p>
+      ) : (
+        <div>
+          <p style={{ color: "red" }}>入力 {explanation.unifying.input.join(" ")} には2通りの導出があり、文法があいまいです。</p>
+          {explanation.unifying.derivations.map((d, i) => (
+            <p key={i}>
+              {formatParseAction(d.action)} を選んだとき: {formatDerivation(d.tree)}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConflictExplanationView;
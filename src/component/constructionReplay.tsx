@@ -0,0 +1,135 @@
+import Button from "../atoms/button";
+import StateDiagram from "./stateDiagram";
+
+import { ConstructionEvent, LRItemSet } from "../compiler/interface/itemSet";
+import { LRItem } from "../compiler/interface/lrItem";
+
+import { useEffect, useMemo, useState } from "react";
+
+type ConstructionReplayProps = {
+  events: ConstructionEvent[];
+};
+
+const PLAY_INTERVAL = 500;
+
+const describeEvent = (event: ConstructionEvent): string => {
+  switch (event.type) {
+    case "stateCreated":
+      return event.from === null
+        ? `開始項 ${event.kernel.map((i) => i.toString()).join(", ")} から状態 I${event.state} を作る`
+        : `I${event.from.state} を ${event.from.symbol} で遷移した先として状態 I${event.state} を作る（核: ${event.kernel.map((i) => i.toString()).join(", ")}）`;
+    case "closureItemAdded":
+      return `I${event.state} のクロージャ: ${event.cause.toString()} のドットの直後を展開して ${event.item.toString()} を追加`;
+    case "duplicateState":
+      return `I${event.from} を ${event.symbol} で遷移した先の核は I${event.state} と同じなので、新しい状態は作らない`;
+    case "gotoComputed":
+      return `goto(I${event.from}, ${event.symbol}) = I${event.to}`;
+  }
+};
+
+// その手で注目している状態
+const focusedState = (event: ConstructionEvent) => {
+  switch (event.type) {
+    case "stateCreated":
+    case "closureItemAdded":
+    case "duplicateState":
+      return event.state;
+    case "gotoComputed":
+      return event.from;
+  }
+};
+
+// 先頭からupToまでの途中経過を再生して、その時点のアイテム集合を作る
+const replay = (events: ConstructionEvent[], upTo: number): LRItemSet[] => {
+  const states: Array<{ kernel: LRItem[]; added: LRItem[]; gotos: Array<[string, number]> }> = [];
+  events.slice(0, upTo + 1).forEach((event) => {
+    switch (event.type) {
+      case "stateCreated":
+        states[event.state] = { kernel: event.kernel, added: [], gotos: [] };
+        break;
+      case "closureItemAdded":
+        states[event.state]?.added.push(event.item);
+        break;
+      case "gotoComputed":
+        states[event.from]?.gotos.push([event.symbol, event.to]);
+        break;
+    }
+  });
+  return states.map((s) => {
+    const itemSet = new LRItemSet(s.kernel);
+    s.added.forEach((item) => itemSet.addItem(item));
+    s.gotos.forEach(([symbol, to]) => itemSet.addGoto(symbol, to));
+    return itemSet;
+  });
+};
+
+// オートマトン構築の途中経過を1手ずつ再生する
+const ConstructionReplay = (props: ConstructionReplayProps) => {
+  const { events } = props;
+  const [current, setCurrent] = useState<number>(0);
+  const [playing, setPlaying] = useState<boolean>(false);
+  const last = events.length - 1;
+
+  useEffect(() => {
+    setCurrent(0);
+    setPlaying(false);
+  }, [events]);
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    if (current >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setCurrent((c) => Math.min(c + 1, last)), PLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, current, last]);
+
+  const itemSets = useMemo(() => replay(events, current), [events, current]);
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  const event = events[current];
+  const state = focusedState(event);
+  const focused = itemSets[state];
+
+  return (
+    <div>
+      <h2>構築の再生</h2>
+      <div>
+        <Button text="<< 前へ" handler={() => setCurrent((c) => Math.max(c - 1, 0))} />
+        <Button text={playing ? "停止" : "再生"} handler={() => setPlaying((p) => !p)} />
+        <Button text="次へ >>" handler={() => setCurrent((c) => Math.min(c + 1, last))} />
+        <span>
+          {" "}
+          {current + 1} / {events.length} 手
+        </span>
+      </div>
+      <p style={{ fontFamily: "monospace" }}>{describeEvent(event)}</p>
+      {focused && (
+        <div>
+          <h3>I{state}</h3>
+          <ul style={{ fontFamily: "monospace" }}>
+            {focused.getItems().map((item, i) => {
+              const isAdded = event.type === "closureItemAdded" && event.item.getId() === item.getId();
+              const isCause = event.type === "closureItemAdded" && event.cause.getCoreId() === item.getCoreId();
+              return (
+                <li key={i} style={{ color: isAdded ? "#d33" : isCause ? "#36c" : undefined, fontWeight: isAdded ? "bold" : undefined }}>
+                  {item.toString()}
+                  {i < focused.getKernelItems().length ? "（核）" : ""}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+      <StateDiagram itemSets={itemSets} />
+    </div>
+  );
+};
+
+export default ConstructionReplay;
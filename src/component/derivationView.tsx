@@ -0,0 +1,95 @@
+import Select from "../atoms/select";
+
+import { LRItemSet } from "../compiler/interface/itemSet";
+import { ParseTable } from "../compiler/interface/parseTable";
+import { DerivationOrder, getDerivation } from "../compiler/derivation";
+import { ParseResult } from "../compiler/parser";
+
+import { useMemo, useState } from "react";
+
+type DerivationViewProps = {
+  table: ParseTable;
+  itemSets: LRItemSet[];
+  result: ParseResult;
+  currentStep: number; // 構文解析の実行で表示している手 その手の還元の行を強調する
+  onSelectStep: (step: number) => void;
+};
+
+const cellStyle = { border: "1px solid #999", padding: "2px 8px" };
+const handleStyle = { background: "#fd8", borderRadius: "2px" };
+
+const ORDER_OPTIONS: Array<{ value: DerivationOrder; label: string }> = [
+  { value: "rightmost", label: "最右導出（還元の逆順）" },
+  { value: "leftmost", label: "最左導出" },
+];
+
+// 受理した入力の導出を、文形式を1行ずつ並べて表示する 展開した部分（最右導出ではハンドル）を強調する
+const DerivationView = (props: DerivationViewProps) => {
+  const { table, itemSets, result, currentStep, onSelectStep } = props;
+  const [order, setOrder] = useState<DerivationOrder>("rightmost");
+  const forms = useMemo(() => getDerivation(table, itemSets, result, order), [table, itemSets, result, order]);
+  if (forms === null) {
+    return null;
+  }
+
+  return (
+    <div>
+      <h3>導出</h3>
+      <Select value={order} options={ORDER_OPTIONS} handler={(v) => setOrder(v as DerivationOrder)} />
+      <p>
+        {order === "rightmost"
+          ? "LR法は最右導出を逆にたどります。下の行から上の行へ、強調したハンドルを還元していきます。"
+          : "同じ構文木を、いちばん左の非終端記号から展開した導出です。還元の順とは一致しません。"}
+        手の番号を押すと、構文解析の実行のその手に移ります。
+      </p>
+      <table style={{ borderCollapse: "collapse", fontFamily: "monospace" }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>文形式</th>
+            <th style={cellStyle}>展開した規則</th>
+            <th style={cellStyle}>還元した状態と完了項</th>
+            <th style={cellStyle}>還元した手</th>
+          </tr>
+        </thead>
+        <tbody>
+          {forms.map((form, i) => {
+            const expanded = form.expanded;
+            const inHandle = (j: number) => expanded !== null && j >= expanded.start && j < expanded.start + expanded.length;
+            return (
+              <tr key={i} style={{ background: expanded?.reduction.step === currentStep ? "#ffd" : undefined }}>
+                <td style={cellStyle}>
+                  {i > 0 && "⇒ "}
+                  {form.symbols.map((symbol, j) => (
+                    <span key={j}>
+                      {/* ε の規則は展開しても記号が増えないので、展開した位置に ε を表示する */}
+                      {expanded !== null && expanded.length === 0 && expanded.start === j && <span style={handleStyle}>ε </span>}
+                      <span style={inHandle(j) ? handleStyle : undefined}>{symbol}</span>{" "}
+                    </span>
+                  ))}
+                  {expanded !== null && expanded.length === 0 && expanded.start === form.symbols.length && <span style={handleStyle}>ε</span>}
+                </td>
+                <td style={cellStyle}>{expanded && table.getProduction(expanded.reduction.production).toString()}</td>
+                <td style={cellStyle}>{expanded && `I${expanded.reduction.state}: ${expanded.reduction.item}`}</td>
+                <td style={cellStyle}>
+                  {expanded && (
+                    <a
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onSelectStep(expanded.reduction.step);
+                      }}
+                    >
+                      {expanded.reduction.step}
+                    </a>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default DerivationView;
@@ -0,0 +1,37 @@
+import Button from "../atoms/button";
+
+import { BNFSet } from "../compiler/interface/bnf";
+import { LRAutomaton } from "../compiler/algorithms";
+import { exportDot, exportJson, exportLatex, exportMarkdown } from "../compiler/exporter";
+import { generateParser } from "../compiler/codegen";
+import { exportAntlr, exportW3cEbnf, exportYacc } from "../compiler/grammarFormats";
+import { downloadText } from "../helper/download";
+
+type ExportPanelProps = {
+  bnfSet: BNFSet;
+  automaton: LRAutomaton;
+  algorithm: string; // 構築法の表示名
+};
+
+const ExportPanel = (props: ExportPanelProps) => {
+  const { bnfSet, automaton, algorithm } = props;
+  return (
+    <div>
+      <h2>書き出し</h2>
+      <Button text="状態遷移図 (DOT)" handler={() => downloadText("automaton.dot", exportDot(automaton), "text/vnd.graphviz")} />
+      <Button text="すべて (JSON)" handler={() => downloadText("automaton.json", exportJson(bnfSet, automaton, algorithm), "application/json")} />
+      <Button text="構文解析表 (Markdown)" handler={() => downloadText("table.md", exportMarkdown(automaton.table), "text/markdown")} />
+      <Button text="構文解析表 (LaTeX)" handler={() => downloadText("table.tex", exportLatex(automaton.table), "application/x-tex")} />
+      <Button text="文法 (yacc)" handler={() => downloadText("grammar.y", exportYacc(bnfSet))} />
+      <Button text="文法 (ANTLR)" handler={() => downloadText("Grammar.g4", exportAntlr(bnfSet))} />
+      <Button text="文法 (W3C EBNF)" handler={() => downloadText("grammar.ebnf", exportW3cEbnf(bnfSet))} />
+      {automaton.table.getConflicts().length === 0 ? (
+        <Button text="パーサ (TypeScript)" handler={() => downloadText("parser.ts", generateParser(bnfSet, automaton, algorithm), "text/typescript")} />
+      ) : (
+        <p>構文解析表に衝突があるため、パーサ (TypeScript) は書き出せません。</p>
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,31 @@
+import { BNFSet } from "../compiler/interface/bnf";
+
+type GeneratedRulesProps = {
+  bnfSet: BNFSet;
+};
+
+// ?*+や括弧を展開して生成した規則を、元の表記と並べて表示する
+const GeneratedRules = (props: GeneratedRulesProps) => {
+  const generated = props.bnfSet.getBNFs().filter((bnf) => bnf.getGeneratedFrom() !== null);
+  if (generated.length === 0) {
+    return null;
+  }
+  return (
+    <div>
+      <h2>展開された規則</h2>
+      <ul style={{ fontFamily: "monospace" }}>
+        {generated.map((bnf, i) => (
+          <li key={i}>
+            (行: {bnf.getLine()}) {bnf.getGeneratedFrom()} {"=>"} {bnf.getLeft()} -&gt;{" "}
+            {bnf
+              .getRight()
+              .map((concat) => (concat.isEpsilon() ? "ε" : concat.getElements().map((e) => e.toString()).join(" ")))
+              .join(" | ")}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default GeneratedRules;
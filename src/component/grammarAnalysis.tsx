@@ -0,0 +1,42 @@
+import { GrammarAnalysis } from "../compiler/grammarAnalysis";
+
+type GrammarAnalysisViewProps = {
+  nonterminals: string[];
+  analysis: GrammarAnalysis;
+};
+
+const cellStyle = { border: "1px solid #999", padding: "2px 8px" };
+
+// 集合を { a, b } の形で表示する
+const formatSet = (set: Set<string> | undefined) => `{ ${Array.from(set ?? []).join(", ")} }`;
+
+const GrammarAnalysisView = (props: GrammarAnalysisViewProps) => {
+  const { nonterminals, analysis } = props;
+  return (
+    <div>
+      <h2>nullable / FIRST / FOLLOW</h2>
+      <table style={{ borderCollapse: "collapse", fontFamily: "monospace" }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>非終端記号</th>
+            <th style={cellStyle}>nullable</th>
+            <th style={cellStyle}>FIRST</th>
+            <th style={cellStyle}>FOLLOW</th>
+          </tr>
+        </thead>
+        <tbody>
+          {nonterminals.map((nt) => (
+            <tr key={nt}>
+              <th style={cellStyle}>{nt}</th>
+              <td style={cellStyle}>{analysis.nullable.has(nt) ? "yes" : "no"}</td>
+              <td style={cellStyle}>{formatSet(analysis.first.get(nt))}</td>
+              <td style={cellStyle}>{formatSet(analysis.follow.get(nt))}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default GrammarAnalysisView;
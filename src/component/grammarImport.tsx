@@ -0,0 +1,69 @@
+import Select from "../atoms/select";
+
+import { detectGrammarFormat, GrammarFormat, importGrammar } from "../compiler/grammarFormats";
+import { BNFError } from "../compiler/interface/bnf";
+import { SEVERITY_COLORS, SEVERITY_LABELS } from "../helper/severity";
+
+import { useState } from "react";
+
+type GrammarImportViewProps = {
+  onImport: (text: string) => void; // 書き換えた構文定義を編集欄に入れる
+};
+
+const FORMAT_OPTIONS: Array<{ value: GrammarFormat; label: string }> = [
+  { value: "yacc", label: "yacc / bison (.y)" },
+  { value: "antlr", label: "ANTLR (.g4)" },
+  { value: "w3c", label: "W3C EBNF (.ebnf)" },
+];
+
+// yacc / ANTLR / W3C EBNF のファイルを、このサイトの構文定義に書き換えて読み込む
+const GrammarImportView = (props: GrammarImportViewProps) => {
+  const { onImport } = props;
+  const [format, setFormat] = useState<GrammarFormat>("yacc");
+  // yaccの動作は任意のJavaScriptなので、選んだときだけ取り込む
+  const [keepActions, setKeepActions] = useState<boolean>(false);
+  const [result, setResult] = useState<{ fileName: string; format: GrammarFormat; diagnostics: BNFError } | null>(null);
+
+  return (
+    <div>
+      他の形式の文法を読み込む:{" "}
+      <Select value={format} options={FORMAT_OPTIONS} handler={(v) => setFormat(v as GrammarFormat)} />{" "}
+      {format === "yacc" && (
+        <label>
+          <input type="checkbox" checked={keepActions} onChange={(e) => setKeepActions(e.target.checked)} />
+          動作も読み込む（信頼できるファイルだけ）{" "}
+        </label>
+      )}
+      <input
+        type="file"
+        accept=".y,.yy,.ypp,.bison,.g4,.g,.ebnf,.txt"
+        onChange={async (e) => {
+          const file = e.target.files?.[0];
+          if (!file) return;
+          // 拡張子で形式が分かればそちらを使う
+          const detected = detectGrammarFormat(file.name) ?? format;
+          setFormat(detected);
+          const imported = importGrammar(detected, await file.text(), { keepActions });
+          setResult({ fileName: file.name, format: detected, diagnostics: imported.diagnostics });
+          onImport(imported.text);
+          e.target.value = "";
+        }}
+      />
+      {result && (
+        <div>
+          <p>
+            {result.fileName} を {FORMAT_OPTIONS.find((o) => o.value === result.format)?.label} として読み込みました。
+            {result.diagnostics.length > 0 && "読み込めなかった書き方があります（行と列は元のファイルのもの）。"}
+          </p>
+          {result.diagnostics.map((d, i) => (
+            <p key={i} style={{ color: SEVERITY_COLORS[d.severity] }}>
+              [{SEVERITY_LABELS[d.severity]}] (行: {d.line}, 列: {d.range.column}) {d.error}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GrammarImportView;
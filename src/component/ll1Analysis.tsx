@@ -0,0 +1,106 @@
+import { BNFSet } from "../compiler/interface/bnf";
+import { LL1Table } from "../compiler/interface/ll1Table";
+import { eliminateLeftRecursion, leftFactor } from "../compiler/grammarTransform";
+import buildLL1Table from "../compiler/ll1";
+
+import { useMemo } from "react";
+
+type LL1AnalysisViewProps = {
+  bnfSet: BNFSet;
+};
+
+const cellStyle = { border: "1px solid #999", padding: "2px 8px", textAlign: "center" as const };
+
+// 拡大文法の規則を除いた規則の一覧
+const GrammarList = (props: { title: string; bnfSet: BNFSet }) => (
+  <div style={{ flex: 1 }}>
+    <h3>{props.title}</h3>
+    <ul style={{ fontFamily: "monospace" }}>
+      {props.bnfSet
+        .getBNFs()
+        .filter((bnf) => !bnf.isAugmented())
+        .map((bnf, i) => (
+          <li key={i}>
+            {bnf.getLeft()} -&gt; {bnf.getRight().map((concat) => (concat.isEpsilon() ? "ε" : concat.getElements().map((e) => e.toString()).join(" "))).join(" | ")}
+          </li>
+        ))}
+    </ul>
+  </div>
+);
+
+const LL1Verdict = (props: { label: string; table: LL1Table }) => {
+  const conflicts = props.table.getConflicts();
+  return conflicts.length === 0 ? (
+    <p style={{ color: "#393" }}>{props.label}はLL(1)文法です。</p>
+  ) : (
+    <p style={{ color: "red" }}>
+      {props.label}はLL(1)文法ではありません（衝突 {conflicts.length} 件）。
+    </p>
+  );
+};
+
+// LR法との比較のため、左再帰の除去と左くくり出しをした文法と、そのLL(1)予測構文解析表を表示する
+const LL1AnalysisView = (props: LL1AnalysisViewProps) => {
+  const { original, transformed, originalTable, table } = useMemo(() => {
+    const transformed = leftFactor(eliminateLeftRecursion(props.bnfSet));
+    return { original: props.bnfSet, transformed, originalTable: buildLL1Table(props.bnfSet), table: buildLL1Table(transformed) };
+  }, [props.bnfSet]);
+  const terminals = table.getTerminals();
+  const productions = table.getProductions();
+  const conflicts = table.getConflicts();
+
+  return (
+    <div>
+      <h2>LL(1)法との比較</h2>
+      <div style={{ display: "flex", gap: "16px" }}>
+        <GrammarList title="元の文法" bnfSet={original} />
+        <GrammarList title="左再帰の除去・左くくり出しの後" bnfSet={transformed} />
+      </div>
+      <LL1Verdict label="元の文法" table={originalTable} />
+      <LL1Verdict label="変形後の文法" table={table} />
+
+      <h3>変形後の文法の予測構文解析表</h3>
+      <ol start={0}>
+        {productions.map((p, i) => (
+          <li key={i} style={{ fontFamily: "monospace" }}>
+            {p.toString()}
+          </li>
+        ))}
+      </ol>
+      <table style={{ borderCollapse: "collapse", fontFamily: "monospace" }}>
+        <thead>
+          <tr>
+            <th style={cellStyle}>非終端記号</th>
+            {terminals.map((t) => (
+              <th key={t} style={cellStyle}>
+                {t}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {table.getNonterminals().map((nt) => (
+            <tr key={nt}>
+              <th style={cellStyle}>{nt}</th>
+              {terminals.map((t) => (
+                <td key={t} style={{ ...cellStyle, background: table.hasConflict(nt, t) ? "#fbb" : undefined }}>
+                  {table
+                    .getEntries(nt, t)
+                    .map((p) => `${p}`)
+                    .join(" / ")}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {conflicts.map((c, i) => (
+        <p key={i} style={{ color: "red" }}>
+          {c.nonterminal} / 記号 {c.terminal} : {c.type} 衝突 関係する規則: {c.productions.map((p) => productions[p].toString()).join(" , ")}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default LL1AnalysisView;
@@ -0,0 +1,134 @@
+import ConflictExplanationView from "./conflictExplanation";
+
+import { BNFSet } from "../compiler/interface/bnf";
+import { LRItemSet } from "../compiler/interface/itemSet";
+import { ParseTable, formatParseAction } from "../compiler/interface/parseTable";
+
+import { useMemo, useState } from "react";
+
+type ParseTableViewProps = {
+  table: ParseTable;
+  bnfSet: BNFSet;
+  itemSets: LRItemSet[];
+};
+
+const cellStyle = { border: "1px solid #999", padding: "2px 8px", textAlign: "center" as const };
+
+const ParseTableView = (props: ParseTableViewProps) => {
+  const { table, bnfSet, itemSets } = props;
+  // 説明を表示している衝突のセル
+  const [selected, setSelected] = useState<{ state: number; symbol: string } | null>(null);
+  const actionSymbols = table.getActionSymbols();
+  const gotoSymbols = table.getGotoSymbols();
+  // getConflictsは呼ぶたびに新しいオブジェクトを返すので、表ごとに覚えておく（衝突の説明の計算を描画のたびにやり直さない）
+  const conflicts = useMemo(() => table.getConflicts(), [table]);
+  const resolved = table.getResolvedConflicts();
+  const resolvedCells = new Set(resolved.map((r) => `${r.state}:${r.symbol}`));
+  const selectedConflict = conflicts.find((c) => c.state === selected?.state && c.symbol === selected?.symbol);
+
+  // 衝突しているセルは赤、優先順位で解決したセルは黄色
+  const cellBackground = (state: number, symbol: string) => {
+    if (table.hasConflict(state, symbol)) return "#fbb";
+    if (resolvedCells.has(`${state}:${symbol}`)) return "#ffd";
+    return undefined;
+  };
+
+  return (
+    <div>
+      <h2>生成規則</h2>
+      <ol start={0}>
+        {table.getProductions().map((p, i) => (
+          <li key={i} style={{ fontFamily: "monospace" }}>
+            {p.toString()}
+          </li>
+        ))}
+      </ol>
+
+      <h2>構文解析表</h2>
+      {conflicts.length > 0 && <p>赤いセルをクリックすると、衝突の説明を表示します。</p>}
+      <div style={{ display: "flex", gap: "16px", alignItems: "flex-start" }}>
+        <table style={{ borderCollapse: "collapse", fontFamily: "monospace" }}>
+          <thead>
+            <tr>
+              <th style={cellStyle} rowSpan={2}>
+                状態
+              </th>
+              <th style={cellStyle} colSpan={actionSymbols.length}>
+                ACTION
+              </th>
+              <th style={cellStyle} colSpan={gotoSymbols.length}>
+                GOTO
+              </th>
+            </tr>
+            <tr>
+              {actionSymbols.map((s) => (
+                <th key={`a-${s}`} style={cellStyle}>
+                  {s}
+                </th>
+              ))}
+              {gotoSymbols.map((s) => (
+                <th key={`g-${s}`} style={cellStyle}>
+                  {s}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {Array.from({ length: table.getStateCount() }, (_, state) => (
+              <tr key={state}>
+                <th style={cellStyle}>{state}</th>
+                {actionSymbols.map((s) => (
+                  <td
+                    key={`a-${s}`}
+                    style={{
+                      ...cellStyle,
+                      background: cellBackground(state, s),
+                      cursor: table.hasConflict(state, s) ? "pointer" : undefined,
+                      outline: selected?.state === state && selected?.symbol === s ? "2px solid red" : undefined,
+                    }}
+                    onClick={() => table.hasConflict(state, s) && setSelected({ state, symbol: s })}
+                  >
+                    {table
+                      .getActions(state, s)
+                      .map((a) => formatParseAction(a))
+                      .join(" / ")}
+                  </td>
+                ))}
+                {gotoSymbols.map((s) => (
+                  <td key={`g-${s}`} style={cellStyle}>
+                    {table.getGoto(state, s) ?? ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {selectedConflict && <ConflictExplanationView bnfSet={bnfSet} itemSets={itemSets} table={table} conflict={selectedConflict} />}
+      </div>
+
+      <h2>衝突</h2>
+      {conflicts.length === 0 ? (
+        <p>{resolved.length === 0 ? "衝突はありません。" : "解決していない衝突はありません。"}</p>
+      ) : (
+        conflicts.map((c, i) => (
+          <p key={i} style={{ color: "red", cursor: "pointer" }} onClick={() => setSelected({ state: c.state, symbol: c.symbol })}>
+            状態 {c.state} / 記号 {c.symbol} : {c.type} 衝突 ({c.actions.map((a) => formatParseAction(a)).join(", ")}) 関係する規則: {c.productions.join(" , ")}
+          </p>
+        ))
+      )}
+      {resolved.length > 0 && (
+        <div>
+          <h3>優先順位の宣言で解決した衝突</h3>
+          {resolved.map((r, i) => (
+            <p key={i}>
+              状態 {r.state} / 記号 {r.symbol} : ({r.actions.map((a) => formatParseAction(a)).join(", ")}) → {r.chosen === null ? "エラー" : formatParseAction(r.chosen)}{" "}
+              {r.reason}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ParseTableView;
@@ -0,0 +1,212 @@
+import Input from "../atoms/input";
+import Button from "../atoms/button";
+import ParseTreeView from "./parseTree";
+import DerivationView from "./derivationView";
+
+import { BNFSet } from "../compiler/interface/bnf";
+import { LRItemSet } from "../compiler/interface/itemSet";
+import { ParseTable } from "../compiler/interface/parseTable";
+import { parseTokens, tokenizeInput } from "../compiler/parser";
+import { hasLexer, lexInput } from "../compiler/lexer";
+import { ActionEvaluation, getActionSources } from "../compiler/semantic";
+import { runActionsInWorker } from "../compiler/semanticRunner";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+
+type ParseTraceProps = {
+  table: ParseTable;
+  bnfSet: BNFSet;
+  itemSets: LRItemSet[];
+};
+
+const cellStyle = { border: "1px solid #999", padding: "2px 8px" };
+
+// 再生ボタンで1手進める間隔（ミリ秒）
+const PLAY_INTERVAL = 500;
+
+const ParseTrace = (props: ParseTraceProps) => {
+  const { table, bnfSet, itemSets } = props;
+  const [input, setInput] = useState<string>("'LPAR' 'NUM' 'COMMA' 'NUM' 'RPAR' 'EoF'");
+  const [current, setCurrent] = useState<number>(0);
+  const [playing, setPlaying] = useState<boolean>(false);
+
+  // %token / %skip の宣言があれば入力を文字列として字句解析し、なければ空白区切りのトークン列として読む
+  const lexed = useMemo(() => (hasLexer(bnfSet) ? lexInput(bnfSet, input) : null), [bnfSet, input]);
+  const hasActions = useMemo(() => table.getProductions().some((concat) => concat.getAction() !== null), [table]);
+  const result = useMemo(() => {
+    if (lexed === null) {
+      return parseTokens(table, tokenizeInput(input));
+    }
+    return parseTokens(
+      table,
+      lexed.tokens.map((t) => t.kind),
+      lexed.tokens.map((t) => t.text)
+    );
+  }, [table, input, lexed]);
+  // 動作は入力のたびには実行せず、ボタンを押したときにWorkerで実行する
+  const [evaluation, setEvaluation] = useState<ActionEvaluation | null>(null);
+  const [evaluationError, setEvaluationError] = useState<string | null>(null);
+  const [evaluating, setEvaluating] = useState<boolean>(false);
+  const controller = useRef<AbortController | null>(null);
+  const last = result.steps.length - 1;
+  // 今の手での先読み記号が何番目のトークンか（残りの入力の末尾には END_MARKER がある）
+  const lookahead = lexed ? lexed.tokens.length + 1 - result.steps[Math.min(current, last)].input.length : null;
+
+  // 入力や表が変わったら最初の手に戻し、実行中の動作を止めて値を消す
+  useEffect(() => {
+    setCurrent(0);
+    setPlaying(false);
+    setEvaluation(null);
+    setEvaluationError(null);
+    setEvaluating(false);
+    return () => controller.current?.abort();
+  }, [result]);
+
+  const evaluate = () => {
+    controller.current?.abort();
+    const running = new AbortController();
+    controller.current = running;
+    setEvaluation(null);
+    setEvaluationError(null);
+    setEvaluating(true);
+    runActionsInWorker(result.tree, getActionSources(table.getProductions()), running.signal).then(
+      (evaluated) => {
+        setEvaluation(evaluated);
+        setEvaluating(false);
+      },
+      (e: Error) => {
+        if (running.signal.aborted) return;
+        setEvaluationError(e.message);
+        setEvaluating(false);
+      }
+    );
+  };
+
+  useEffect(() => {
+    if (!playing) {
+      return;
+    }
+    if (current >= last) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setCurrent((c) => Math.min(c + 1, last)), PLAY_INTERVAL);
+    return () => clearTimeout(timer);
+  }, [playing, current, last]);
+
+  return (
+    <div>
+      <h2>構文解析の実行</h2>
+      <Input
+        text={input}
+        handler={setInput}
+        placeholder={lexed ? "(1, 2, (3)) のように文字列をそのまま入力" : "'LPAR' 'NUM' 'RPAR' 'EoF' のようにトークンを空白区切りで入力"}
+      />
+      {lexed?.error && (
+        <p style={{ color: "red" }}>字句エラー: {lexed.error.message}</p>
+      )}
+      <div>
+        <Button text="<< 前へ" handler={() => setCurrent((c) => Math.max(c - 1, 0))} />
+        <Button text={playing ? "停止" : "再生"} handler={() => setPlaying((p) => !p)} />
+        <Button text="次へ >>" handler={() => setCurrent((c) => Math.min(c + 1, last))} />
+        <span>
+          {" "}
+          {current + 1} / {result.steps.length} 手
+        </span>
+      </div>
+      <div style={{ display: "flex", gap: "16px", alignItems: "flex-start" }}>
+        <table style={{ borderCollapse: "collapse", fontFamily: "monospace" }}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>手</th>
+              <th style={cellStyle}>状態スタック</th>
+              <th style={cellStyle}>記号スタック</th>
+              <th style={cellStyle}>残りの入力</th>
+              <th style={cellStyle}>動作</th>
+            </tr>
+          </thead>
+          <tbody>
+            {result.steps.slice(0, current + 1).map((step, i) => (
+              <tr key={i} style={{ background: i === current ? "#ffd" : undefined, color: step.action === null ? "red" : undefined }}>
+                <td style={cellStyle}>{i}</td>
+                <td style={cellStyle}>{step.stateStack.join(" ")}</td>
+                <td style={cellStyle}>{step.symbolStack.join(" ")}</td>
+                <td style={cellStyle}>{step.input.join(" ")}</td>
+                <td style={cellStyle}>
+                  {step.description}
+                  {evaluation?.values[i] !== undefined && ` ($$ = ${evaluation.values[i]})`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {lexed && (
+          <table style={{ borderCollapse: "collapse", fontFamily: "monospace" }}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>番号</th>
+                <th style={cellStyle}>トークン</th>
+                <th style={cellStyle}>文字列</th>
+                <th style={cellStyle}>位置</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lexed.tokens.map((t, i) => (
+                <tr key={i} style={{ background: i === lookahead ? "#ffd" : undefined }}>
+                  <td style={cellStyle}>{i}</td>
+                  <td style={cellStyle}>{t.kind}</td>
+                  <td style={cellStyle}>{JSON.stringify(t.text)}</td>
+                  <td style={cellStyle}>{t.offset}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {current === last &&
+        result.errors.map((error, i) => (
+          <p key={i} style={{ color: "red" }}>
+            構文エラー: {error.position} 番目のトークン '{error.token}'
+            {lexed && error.position < lexed.tokens.length && `（${lexed.tokens[error.position].offset} 文字目）`}
+            {`: ${error.message}。期待されるトークン: ${error.expected.join(", ") || "なし"}`}
+          </p>
+        ))}
+      {hasActions && !lexed?.error && (
+        <div>
+          <Button text={evaluating ? "動作を実行中..." : "動作を実行する"} handler={evaluate} />
+          {evaluationError && <span style={{ color: "red" }}> {evaluationError}</span>}
+          {evaluation?.errors.map((error, i) => (
+            <p key={i} style={{ color: "red" }}>
+              {error.step} 手目: {error.message}
+            </p>
+          ))}
+          {evaluation && result.accepted && result.tree.step !== undefined && (
+            <p>
+              値: <span style={{ fontFamily: "monospace" }}>{evaluation.values[result.tree.step] ?? "undefined"}</span>
+            </p>
+          )}
+        </div>
+      )}
+      {current === last && !lexed?.error && (
+        <div>
+          <h3>{result.accepted ? "構文木" : "構文木（途中まで）"}</h3>
+          <ParseTreeView node={result.tree} values={evaluation?.values} />
+        </div>
+      )}
+      {!lexed?.error && (
+        <DerivationView
+          table={table}
+          itemSets={itemSets}
+          result={result}
+          currentStep={current}
+          onSelectStep={(step) => {
+            setPlaying(false);
+            setCurrent(step);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ParseTrace;
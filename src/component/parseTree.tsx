@@ -0,0 +1,30 @@
+import { quoteTerminal } from "../compiler/interface/bnf";
+import { ParseTreeNode } from "../compiler/parser";
+import { ActionEvaluation } from "../compiler/semantic";
+
+type ParseTreeViewProps = {
+  node: ParseTreeNode;
+  values?: ActionEvaluation["values"]; // 動作を実行したときの、還元した手ごとの値
+};
+
+// 構文木を入れ子のリストで表示する エラーからの回復で作った節は赤、動作で求めた値は緑で表示する
+const ParseTreeView = (props: ParseTreeViewProps) => {
+  const { node, values } = props;
+  const value = node.step !== undefined ? values?.[node.step] : undefined;
+  return (
+    <ul style={{ fontFamily: "monospace", margin: 0 }}>
+      <li>
+        <span style={{ color: node.error ? "red" : node.terminal ? "#06c" : undefined }}>
+          {node.terminal && !node.error ? quoteTerminal(node.symbol) : node.symbol}
+        </span>
+        {node.text !== undefined && <span style={{ color: "#999" }}> {JSON.stringify(node.text)}</span>}
+        {!node.terminal && value !== undefined && <span style={{ color: "#393" }}> = {value}</span>}
+        {node.children.map((child, i) => (
+          <ParseTreeView key={i} node={child} values={values} />
+        ))}
+      </li>
+    </ul>
+  );
+};
+
+export default ParseTreeView;
@@ -0,0 +1,121 @@
+import Button from "../atoms/button";
+import Select from "../atoms/select";
+
+import { BUILTIN_GRAMMARS, checkExerciseAnswer, Exercise, EXERCISE_KINDS, ExerciseFeedback, ExerciseKind, generateExercise } from "../compiler/exercises";
+
+import { useState } from "react";
+
+type PracticeViewProps = {
+  grammar: string; // 入力中の構文定義
+};
+
+// 入力中の構文定義を使うときの選択肢の値 それ以外は組み込みの文法の番号
+const USER_GRAMMAR = "user";
+
+const listStyle = { fontFamily: "monospace", margin: "4px 0" };
+
+// 練習問題 文法と問題の種類を選んで問題を作り、答えを採点する
+const PracticeView = (props: PracticeViewProps) => {
+  const { grammar } = props;
+  const [source, setSource] = useState<string>("0");
+  const [kind, setKind] = useState<ExerciseKind>("closure");
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [grammarText, setGrammarText] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const [answer, setAnswer] = useState<string>("");
+  const [feedback, setFeedback] = useState<ExerciseFeedback | null>(null);
+  const [showAnswer, setShowAnswer] = useState<boolean>(false);
+
+  const generate = () => {
+    const text = source === USER_GRAMMAR ? grammar : BUILTIN_GRAMMARS[Number(source)].text;
+    setAnswer("");
+    setFeedback(null);
+    setShowAnswer(false);
+    setGrammarText(text);
+    try {
+      const generated = generateExercise(text, kind);
+      setExercise(generated);
+      setError(generated === null ? "この文法ではこの種類の問題を作れません。" : null);
+    } catch (e) {
+      setExercise(null);
+      setError(`構文定義に誤りがあるため問題を作れません: ${(e as Error).message}`);
+    }
+  };
+
+  return (
+    <div>
+      <h2>練習問題</h2>
+      <div>
+        文法:{" "}
+        <Select
+          value={source}
+          options={[...BUILTIN_GRAMMARS.map((g, i) => ({ value: String(i), label: g.name })), { value: USER_GRAMMAR, label: "入力中の構文定義" }]}
+          handler={setSource}
+        />{" "}
+        問題:{" "}
+        <Select value={kind} options={EXERCISE_KINDS} handler={(v) => setKind(v as ExerciseKind)} />
+        <Button text="問題を作る" handler={generate} />
+      </div>
+      {error && <p style={{ color: "red" }}>{error}</p>}
+      {exercise && (
+        <div>
+          <pre style={{ background: "#f4f4f4", padding: "4px 8px" }}>{grammarText}</pre>
+          <p>{exercise.question}</p>
+          <ul style={listStyle}>
+            {exercise.context.map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+          <p style={{ color: "#666" }}>{exercise.format}</p>
+          <textarea
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            spellCheck="false"
+            style={{ width: "100%", height: "120px", fontFamily: "monospace", fontSize: "16px" }}
+          />
+          <Button text="答え合わせ" handler={() => setFeedback(checkExerciseAnswer(exercise, answer))} />
+          <Button text={showAnswer ? "正解を隠す" : "正解を見る"} handler={() => setShowAnswer((s) => !s)} />
+          {feedback &&
+            (feedback.correct ? (
+              <p style={{ color: "green" }}>正解です。</p>
+            ) : (
+              <div>
+                <p style={{ color: "red" }}>正解ではありません。</p>
+                {feedback.missing.length > 0 && (
+                  <div>
+                    足りないもの:
+                    <ul style={listStyle}>
+                      {feedback.missing.map((m, i) => (
+                        <li key={i}>{m}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {feedback.extra.length > 0 && (
+                  <div>
+                    余分なもの、または間違っているもの:
+                    <ul style={listStyle}>
+                      {feedback.extra.map((m, i) => (
+                        <li key={i} style={{ color: "red" }}>
+                          {m}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            ))}
+          {showAnswer && (
+            <ul style={{ ...listStyle, color: "green" }}>
+              {exercise.answer.map((a, i) => (
+                <li key={i}>{a}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PracticeView;
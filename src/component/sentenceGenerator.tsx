@@ -0,0 +1,107 @@
+import Button from "../atoms/button";
+import ParseTreeView from "./parseTree";
+
+import { BNFSet } from "../compiler/interface/bnf";
+import { AmbiguityCheck, checkAmbiguity, enumerateSentences, generateRandomSentence, SentenceEnumeration } from "../compiler/sentenceGenerator";
+
+import { useEffect, useState } from "react";
+
+type SentenceGeneratorViewProps = {
+  bnfSet: BNFSet;
+};
+
+// 一度に作るランダムな文の数
+const RANDOM_COUNT = 10;
+
+const numberInputStyle = { width: "4em", marginRight: "8px" };
+
+// 文法から文を作って確かめる ランダムな文、長さの上限以下のすべての文、2通りの導出を持つ文（あいまいさ）
+const SentenceGeneratorView = (props: SentenceGeneratorViewProps) => {
+  const { bnfSet } = props;
+  const [maxDepth, setMaxDepth] = useState<number>(8);
+  const [maxLength, setMaxLength] = useState<number>(5);
+  const [randomSentences, setRandomSentences] = useState<string[][] | null>(null);
+  const [enumeration, setEnumeration] = useState<SentenceEnumeration | null>(null);
+  const [ambiguity, setAmbiguity] = useState<AmbiguityCheck | null>(null);
+
+  // 文法が変わったら結果を消す
+  useEffect(() => {
+    setRandomSentences(null);
+    setEnumeration(null);
+    setAmbiguity(null);
+  }, [bnfSet]);
+
+  const formatSentence = (sentence: string[]) => (sentence.length === 0 ? "ε" : sentence.join(" "));
+
+  return (
+    <div>
+      <h2>文の生成とあいまいさの検査</h2>
+      <div>
+        構文木の深さの上限:{" "}
+        <input type="number" min={1} value={maxDepth} style={numberInputStyle} onChange={(e) => setMaxDepth(Math.max(1, Number(e.target.value)))} />
+        <Button
+          text="ランダムな文を作る"
+          handler={() => {
+            const generated = Array.from({ length: RANDOM_COUNT }, () => generateRandomSentence(bnfSet, { maxDepth }));
+            setRandomSentences(generated.flatMap((g) => (g === null ? [] : [g.sentence])));
+          }}
+        />
+      </div>
+      {randomSentences !== null &&
+        (randomSentences.length === 0 ? (
+          <p style={{ color: "red" }}>開始記号から終端記号だけの文を導出できません。</p>
+        ) : (
+          <ul style={{ fontFamily: "monospace" }}>
+            {randomSentences.map((s, i) => (
+              <li key={i}>{formatSentence(s)}</li>
+            ))}
+          </ul>
+        ))}
+      <div>
+        文の長さの上限:{" "}
+        <input type="number" min={0} value={maxLength} style={numberInputStyle} onChange={(e) => setMaxLength(Math.max(0, Number(e.target.value)))} />
+        <Button text="すべての文を列挙する" handler={() => setEnumeration(enumerateSentences(bnfSet, maxLength))} />
+        <Button text="あいまいさを検査する" handler={() => setAmbiguity(checkAmbiguity(bnfSet, maxLength))} />
+      </div>
+      {enumeration !== null && (
+        <div>
+          <p>
+            {enumeration.sentences.length} 個の文があります。
+            {!enumeration.complete && "（数が多いため途中で打ち切りました）"}
+          </p>
+          <ul style={{ fontFamily: "monospace", maxHeight: "20em", overflowY: "auto" }}>
+            {enumeration.sentences.map((s, i) => (
+              <li key={i}>{formatSentence(s)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {ambiguity !== null &&
+        (ambiguity.ambiguities.length === 0 ? (
+          <p>
+            長さ {maxLength} 以下の文には、2通りの導出を持つものは{ambiguity.complete ? "ありません" : "見つかりませんでした（途中で打ち切りました）"}。
+            より長い文があいまいな可能性は残ります。
+          </p>
+        ) : (
+          <div>
+            <p style={{ color: "red" }}>次の文には2通りの最左導出があり、文法があいまいです。LR法のどの構築法でも衝突が起きます。</p>
+            {ambiguity.ambiguities.map((a, i) => (
+              <div key={i}>
+                <h3 style={{ fontFamily: "monospace" }}>{formatSentence(a.sentence)}</h3>
+                <div style={{ display: "flex", gap: "24px" }}>
+                  {a.trees.map((tree, j) => (
+                    <div key={j}>
+                      <p>導出 {j + 1}</p>
+                      <ParseTreeView node={tree} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default SentenceGeneratorView;
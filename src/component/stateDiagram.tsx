@@ -0,0 +1,199 @@
+import { LRItemSet } from "../compiler/interface/itemSet";
+import { ParseTable } from "../compiler/interface/parseTable";
+import { END_MARKER } from "../compiler/interface/bnf";
+import { layoutLayeredGraph } from "../helper/graphLayout";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+
+type StateDiagramProps = {
+  itemSets: LRItemSet[];
+  table?: ParseTable; // 無ければ受理状態・衝突状態の強調をしない（構築途中の表示など）
+};
+
+const LINE_HEIGHT = 16;
+const CHAR_WIDTH = 7.5; // 12pxの等幅フォント1文字の幅の目安
+const PADDING = 8;
+
+const COLOR_DEFAULT = "#555";
+const COLOR_OUTGOING = "#d33";
+const COLOR_INCOMING = "#36c";
+
+// 同じ状態の組の間の遷移は1本にまとめ、ラベルを並べる
+type DiagramEdge = { from: number; to: number; labels: string[] };
+
+const StateDiagram = (props: StateDiagramProps) => {
+  const { itemSets, table } = props;
+  const [selected, setSelected] = useState<number | null>(null);
+  const [view, setView] = useState({ x: 20, y: 60, scale: 1 });
+  const dragging = useRef<{ x: number; y: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const { lines, edges, positions } = useMemo(() => {
+    const lines = itemSets.map((itemSet, i) => [`I${i}`, ...itemSet.getItems().map((item) => item.toString())]);
+
+    const edgeMap = new Map<string, DiagramEdge>();
+    itemSets.forEach((itemSet, from) => {
+      itemSet.getGotos().forEach((to, symbol) => {
+        const key = `${from}-${to}`;
+        const edge = edgeMap.get(key) ?? { from, to, labels: [] };
+        // ラベルは項のドットの直後の要素と同じ表記にする（終端記号ならクオーテーション付き）
+        const element = itemSet
+          .getItems()
+          .map((item) => item.getDotNextElement())
+          .find((e) => e !== undefined && e.getValue() === symbol);
+        edge.labels.push(element ? element.toString() : symbol);
+        edgeMap.set(key, edge);
+      });
+    });
+    const edges = Array.from(edgeMap.values());
+
+    const positions = layoutLayeredGraph(
+      lines.map((l) => ({
+        width: Math.max(...l.map((s) => s.length)) * CHAR_WIDTH + PADDING * 2,
+        height: l.length * LINE_HEIGHT + PADDING * 2,
+      })),
+      edges
+    );
+    return { lines, edges, positions };
+  }, [itemSets]);
+
+  const acceptStates = new Set(itemSets.map((_, i) => i).filter((i) => table?.getActions(i, END_MARKER).some((a) => a.type === "accept")));
+  const conflictStates = new Set(table?.getConflicts().map((c) => c.state));
+
+  // ホイールでの拡大縮小 ページがスクロールしないよう、passiveでないリスナーを付ける
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const cx = e.clientX - rect.left;
+      const cy = e.clientY - rect.top;
+      const factor = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+      // カーソルの位置を中心に拡大縮小する
+      setView((v) => ({ scale: v.scale * factor, x: cx - (cx - v.x) * factor, y: cy - (cy - v.y) * factor }));
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, []);
+
+  const edgeColor = (edge: DiagramEdge) => {
+    if (selected === null) return COLOR_DEFAULT;
+    if (edge.from === selected) return COLOR_OUTGOING;
+    if (edge.to === selected) return COLOR_INCOMING;
+    return "#ccc";
+  };
+
+  // 辺の経路とラベルの位置 前の層へ戻る辺や同じ層の辺は、下側に回り込ませる
+  const edgePath = (edge: DiagramEdge) => {
+    const s = positions[edge.from];
+    const t = positions[edge.to];
+    if (edge.from === edge.to) {
+      const x1 = s.x + s.width * 0.4;
+      const x2 = s.x + s.width * 0.6;
+      return { d: `M ${x1} ${s.y} C ${x1} ${s.y - 50} ${x2} ${s.y - 50} ${x2} ${s.y}`, lx: s.x + s.width / 2, ly: s.y - 40 };
+    }
+    if (t.layer > s.layer) {
+      const sx = s.x + s.width;
+      const sy = s.y + s.height / 2;
+      const tx = t.x;
+      const ty = t.y + t.height / 2;
+      return { d: `M ${sx} ${sy} C ${sx + 60} ${sy} ${tx - 60} ${ty} ${tx} ${ty}`, lx: (sx + tx) / 2, ly: (sy + ty) / 2 - 4 };
+    }
+    const sx = s.x + s.width / 2;
+    const sy = s.y + s.height;
+    const tx = t.x + t.width / 2;
+    const ty = t.y + t.height;
+    const depth = 60 + Math.abs(sx - tx) * 0.1;
+    return {
+      d: `M ${sx} ${sy} C ${sx} ${sy + depth} ${tx} ${ty + depth} ${tx} ${ty}`,
+      lx: (sx + tx) / 2,
+      ly: (sy + ty) / 2 + depth * 0.75,
+    };
+  };
+
+  return (
+    <div>
+      <h2>状態遷移図</h2>
+      <p>ドラッグで移動、ホイールで拡大縮小、状態をクリックすると出入りする遷移を強調します（赤: 出る遷移、青: 入る遷移）。</p>
+      <svg
+        ref={svgRef}
+        width="100%"
+        height="600"
+        style={{ border: "1px solid #999", cursor: "grab", userSelect: "none" }}
+        onMouseDown={(e) => (dragging.current = { x: e.clientX, y: e.clientY })}
+        onMouseMove={(e) => {
+          const start = dragging.current;
+          if (!start) return;
+          dragging.current = { x: e.clientX, y: e.clientY };
+          setView((v) => ({ ...v, x: v.x + e.clientX - start.x, y: v.y + e.clientY - start.y }));
+        }}
+        onMouseUp={() => (dragging.current = null)}
+        onMouseLeave={() => (dragging.current = null)}
+        onClick={() => setSelected(null)}
+      >
+        <defs>
+          {[COLOR_DEFAULT, COLOR_OUTGOING, COLOR_INCOMING, "#ccc"].map((color) => (
+            <marker key={color} id={`arrow-${color.slice(1)}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+            </marker>
+          ))}
+        </defs>
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {edges.map((edge, i) => {
+            const { d, lx, ly } = edgePath(edge);
+            const color = edgeColor(edge);
+            return (
+              <g key={i}>
+                <path d={d} fill="none" stroke={color} strokeWidth={color === COLOR_DEFAULT || color === "#ccc" ? 1 : 2} markerEnd={`url(#arrow-${color.slice(1)})`} />
+                <text x={lx} y={ly} fontSize="12" fontFamily="monospace" textAnchor="middle" fill={color}>
+                  {edge.labels.join(", ")}
+                </text>
+              </g>
+            );
+          })}
+          {positions.map((p, state) => (
+            <g
+              key={state}
+              transform={`translate(${p.x} ${p.y})`}
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                setSelected(state === selected ? null : state);
+              }}
+              style={{ cursor: "pointer" }}
+            >
+              <rect
+                width={p.width}
+                height={p.height}
+                rx="6"
+                fill={conflictStates.has(state) ? "#fdd" : acceptStates.has(state) ? "#dfd" : "#fff"}
+                stroke={conflictStates.has(state) ? "#d33" : acceptStates.has(state) ? "#393" : "#333"}
+                strokeWidth={state === selected ? 3 : 1}
+              />
+              {acceptStates.has(state) && <rect x="-4" y="-4" width={p.width + 8} height={p.height + 8} rx="8" fill="none" stroke="#393" />}
+              {lines[state].map((line, i) => (
+                <text
+                  key={i}
+                  x={PADDING}
+                  y={PADDING + (i + 1) * LINE_HEIGHT - 4}
+                  fontSize="12"
+                  fontFamily="monospace"
+                  fontWeight={i === 0 ? "bold" : undefined}
+                  style={{ whiteSpace: "pre" }}
+                >
+                  {line}
+                </text>
+              ))}
+            </g>
+          ))}
+        </g>
+      </svg>
+      <p>
+        <span style={{ color: "#393" }}>■ 受理状態</span> <span style={{ color: "#d33" }}>■ 衝突を含む状態</span>
+      </p>
+    </div>
+  );
+};
+
+export default StateDiagram;
@@ -0,0 +1,9 @@
+// 文字列をファイルとしてダウンロードさせる
+export const downloadText = (filename: string, text: string, mimeType: string = "text/plain") => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mimeType};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
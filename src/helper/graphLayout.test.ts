@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { layoutLayeredGraph } from "./graphLayout";
+
+const box = (width: number = 100) => ({ width, height: 50 });
+
+describe("layoutLayeredGraph", () => {
+  it("ノード0からの深さを層にし、層の幅は一番広いノードに合わせる", () => {
+    const positions = layoutLayeredGraph([box(), box(150), box(), box(), box()], [
+      { from: 0, to: 1 },
+      { from: 0, to: 2 },
+      { from: 1, to: 3 },
+      { from: 2, to: 4 },
+    ]);
+    expect(positions.map(({ x, y, layer }) => [layer, x, y])).toEqual([
+      [0, 0, 0],
+      [1, 220, 0],
+      [1, 220, 90],
+      [2, 490, 0],
+      [2, 490, 90],
+    ]);
+  });
+
+  it("層の中は、親の位置の平均の順に並べて交差を減らす", () => {
+    const positions = layoutLayeredGraph([box(), box(), box(), box(), box()], [
+      { from: 0, to: 1 },
+      { from: 0, to: 2 },
+      { from: 2, to: 3 },
+      { from: 1, to: 4 },
+    ]);
+    expect([positions[4].y, positions[3].y]).toEqual([0, 90]);
+  });
+
+  it("ノード0から到達できないノードは、最後の層の次に置く", () => {
+    const positions = layoutLayeredGraph([box(), box(), box()], [{ from: 0, to: 1 }]);
+    expect(positions.map((p) => p.layer)).toEqual([0, 1, 2]);
+  });
+
+  it("ノードがなければ空の配列を返す", () => {
+    expect(layoutLayeredGraph([], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+export type LayoutNode = { width: number; height: number };
+export type LayoutEdge = { from: number; to: number };
+export type NodePosition = { x: number; y: number; width: number; height: number; layer: number };
+
+const LAYER_GAP = 120; // 層と層の間（横方向）
+const NODE_GAP = 40; // 同じ層のノードの間（縦方向）
+
+/**
+ * 有向グラフを左から右へ層状に並べる簡単なレイアウト
+ * 1. ノード0からの幅優先探索の深さを層にする（到達できないノードは最後の層の次に置く）
+ * 2. 層の中の順番は、前の層にある親の位置の平均（重心）で並べ替えて交差を減らす
+ * 3. 層の幅は一番広いノードに合わせ、ノードは上から詰めて置く
+ * 外部のライブラリを使わず、ブラウザ内だけで計算する
+ */
+export const layoutLayeredGraph = (nodes: LayoutNode[], edges: LayoutEdge[]): NodePosition[] => {
+  const layerOf = new Array<number>(nodes.length).fill(-1);
+  const children = nodes.map(() => [] as number[]);
+  const parents = nodes.map(() => [] as number[]);
+  edges.forEach(({ from, to }) => {
+    children[from]?.push(to);
+    parents[to]?.push(from);
+  });
+
+  if (nodes.length > 0) {
+    layerOf[0] = 0;
+    const que = [0];
+    while (que.length > 0) {
+      const current = que.shift() as number;
+      children[current].forEach((next) => {
+        if (layerOf[next] === -1) {
+          layerOf[next] = layerOf[current] + 1;
+          que.push(next);
+        }
+      });
+    }
+  }
+  const maxLayer = Math.max(0, ...layerOf);
+  layerOf.forEach((layer, i) => {
+    if (layer === -1) layerOf[i] = maxLayer + 1;
+  });
+
+  const layers: number[][] = [];
+  layerOf.forEach((layer, i) => (layers[layer] ??= []).push(i));
+
+  // 重心法で層の中の順番を決める
+  const orderOf = new Array<number>(nodes.length).fill(0);
+  layers.forEach((layer) => {
+    if (!layer) return;
+    const barycenter = (n: number) => {
+      const ps = parents[n].filter((p) => layerOf[p] < layerOf[n]);
+      return ps.length === 0 ? orderOf[n] : ps.reduce((sum, p) => sum + orderOf[p], 0) / ps.length;
+    };
+    layer.sort((a, b) => barycenter(a) - barycenter(b) || a - b);
+    layer.forEach((n, i) => (orderOf[n] = i));
+  });
+
+  const positions: NodePosition[] = new Array(nodes.length);
+  let x = 0;
+  layers.forEach((layer, layerIndex) => {
+    if (!layer) return;
+    const width = Math.max(...layer.map((n) => nodes[n].width));
+    let y = 0;
+    layer.forEach((n) => {
+      positions[n] = { x, y, width: nodes[n].width, height: nodes[n].height, layer: layerIndex };
+      y += nodes[n].height + NODE_GAP;
+    });
+    x += width + LAYER_GAP;
+  });
+
+  return positions;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+
+import { algorithms } from "../compiler/algorithms";
+import { parseRawBnf } from "../compiler/parseBnf";
+import { getInternTables, Interner } from "./intern";
+
+describe("Interner", () => {
+  it("同じキーには同じIDを、新しいキーには次の番号を返す", () => {
+    const interner = new Interner();
+    expect([interner.intern("a"), interner.intern("b"), interner.intern("a")]).toEqual([0, 1, 0]);
+    expect(interner.size()).toBe(2);
+  });
+});
+
+describe("InternTables", () => {
+  it("構築を始めるたびに対応表を作り直し、前の文法のキーを残さない", () => {
+    const large = Array.from({ length: 30 }, (_, i) => `A${i} -> 'a${i}' A${i + 1}`).join("\n") + "\nA30 -> 'end'";
+    algorithms.lr1.build(parseRawBnf(large));
+    const afterLarge = getInternTables();
+    algorithms.lr1.build(parseRawBnf("S -> 'a'"));
+    const afterSmall = getInternTables();
+
+    expect(afterSmall.generation).toBeGreaterThan(afterLarge.generation);
+    expect(afterSmall.symbols.size()).toBeLessThan(10);
+    expect(afterSmall.items.size()).toBeLessThan(10);
+  });
+
+  it("前の世代で求めたIDは、世代が変わると作り直す", () => {
+    const first = algorithms.lr0.build(parseRawBnf("S -> 'a' S | 'b'"));
+    const other = algorithms.lr0.build(parseRawBnf("%start S\nX -> 'x'\nS -> 'a' S | 'b'"));
+    // 別々にパースした文法でも、同じ世代では同じ核の状態は同じキーになる
+    expect(first.itemSets.map((s) => s.getKernelKey())).toEqual(other.itemSets.map((s) => s.getKernelKey()));
+  });
+});
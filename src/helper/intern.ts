@@ -0,0 +1,41 @@
+/**
+ * 文字列のキーを、出てきた順に0, 1, 2, ... の整数IDに対応付ける
+ * 同じキーには常に同じIDを返すので、構造が同じものを整数の比較だけで同一視できる
+ */
+export class Interner {
+  private ids = new Map<string, number>();
+
+  intern(key: string): number {
+    let id = this.ids.get(key);
+    if (id === undefined) {
+      id = this.ids.size;
+      this.ids.set(key, id);
+    }
+    return id;
+  }
+
+  size() {
+    return this.ids.size;
+  }
+}
+
+/**
+ * 記号・生成規則・項のIDの対応表 文法を編集するたびにキーが増えるので、オートマトンの構築を始めるたびに作り直す
+ * 作り直すと世代が変わり、前の世代のIDは使えなくなる（別の世代のIDどうしは比べられない）
+ */
+export class InternTables {
+  readonly symbols = new Interner();
+  readonly productions = new Interner();
+  readonly cores = new Interner();
+  readonly items = new Interner();
+
+  constructor(readonly generation: number) {}
+}
+
+let tables = new InternTables(0);
+
+export const getInternTables = () => tables;
+
+export const resetInternTables = () => {
+  tables = new InternTables(tables.generation + 1);
+};
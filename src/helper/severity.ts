@@ -0,0 +1,5 @@
+import { BNFSeverity } from "../compiler/interface/bnf";
+
+// 構文定義の診断を表示するときの色とラベル
+export const SEVERITY_COLORS: { [severity in BNFSeverity]: string } = { error: "red", warning: "orange", info: "#36c" };
+export const SEVERITY_LABELS: { [severity in BNFSeverity]: string } = { error: "エラー", warning: "警告", info: "情報" };
@@ -1,35 +1,130 @@
 import Textarea from "../atoms/textarea";
 import Button from "../atoms/button";
+import Select from "../atoms/select";
+import ParseTableView from "../component/parseTable";
+import GrammarAnalysisView from "../component/grammarAnalysis";
+import ParseTrace from "../component/parseTrace";
+import GeneratedRules from "../component/generatedRules";
+import StateDiagram from "../component/stateDiagram";
+import ExportPanel from "../component/exportPanel";
+import ConstructionReplay from "../component/constructionReplay";
+import LL1AnalysisView from "../component/ll1Analysis";
+import AutomatonCheckView from "../component/automatonCheck";
+import GrammarImportView from "../component/grammarImport";
+import SentenceGeneratorView from "../component/sentenceGenerator";
+import PracticeView from "../component/practice";
 
-import { getRawBNFWarningThrows, parseRawBnf } from "../compiler/parseBnf";
-import lr0 from "../compiler/lr0";
+import { getRawBNFWarningThrows, parseBnfWithDiagnostics, parseRawBnf } from "../compiler/parseBnf";
+import { algorithms, AlgorithmName, LRAutomaton } from "../compiler/algorithms";
+import { importJson } from "../compiler/exporter";
+import { analyzeGrammar } from "../compiler/grammarAnalysis";
 import { BNFSet } from "../compiler/interface/bnf";
+import { SEVERITY_COLORS, SEVERITY_LABELS } from "../helper/severity";
+
+import { useMemo, useState } from "react";
 
-import { useEffect, useState } from "react";
 const MainPage = () => {
   // const [bnf, setBnf] = useState<string>("S->STMT 'EoF'\nSTMT->'Ex' EXP\nEXP->'NUM'");
   const [bnf, setBnf] = useState<string>("S->LIST 'EoF'\nLIST->'LPAR' SEQ 'RPAR' | 'NUM'\nSEQ -> LIST\nSEQ -> SEQ 'COMMA' LIST");
+  const [algorithm, setAlgorithm] = useState<AlgorithmName>("lr0");
+  // 構築ボタンを押した時点の構文定義 構築法を切り替えたときはこれから作り直す
+  const [builtBnf, setBuiltBnf] = useState<string | null>(null);
+  // JSONから読み込んだオートマトン これがあれば構文定義から構築せずにそのまま表示する
+  const [imported, setImported] = useState<{ bnfSet: BNFSet; automaton: LRAutomaton; algorithm: string } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // 入力中の構文定義 ?*+の展開結果を表示するのに使う（構文の誤りがある規則は除かれる）
+  const liveBnfSet = useMemo(() => parseBnfWithDiagnostics(bnf).bnfSet, [bnf]);
+
+  const result = useMemo(() => {
+    if (imported !== null) {
+      const { bnfSet: pbnf, automaton, algorithm: label } = imported;
+      const analysis = analyzeGrammar(pbnf, automaton.table.getStartConcatenation().getLeft());
+      return { pbnf, automaton, analysis, label };
+    }
+    if (builtBnf === null) {
+      return null;
+    }
+    // 警告や情報だけなら構築できる
+    const pbnf = getRawBNFWarningThrows(builtBnf).every((e) => e.severity !== "error") ? parseRawBnf(builtBnf) : new BNFSet();
+    const automaton = algorithms[algorithm].build(pbnf);
+    const analysis = analyzeGrammar(pbnf, automaton.table.getStartConcatenation().getLeft());
+    return { pbnf, automaton, analysis, label: algorithms[algorithm].label };
+  }, [builtBnf, algorithm, imported]);
+
   return (
     <div>
-      <h1>プログラミング言語処理系 LR(0)法 構文解析 支援サイト</h1>
+      <h1>プログラミング言語処理系 LR法 構文解析 支援サイト</h1>
       <Textarea text={bnf} handler={setBnf} />
-      <p>ε : 空集合記号（コピーして使ってください）</p>
+      <p>ε : 空集合記号（コピーして使ってください） # から行末まではコメント、行頭の | で前の行の規則の続きを書けます</p>
       <div>
         {/* エラーをそれぞれpタグで囲って表示 */}
         {getRawBNFWarningThrows(bnf).map((e, i) => (
-          <p key={i} style={{ color: e.isError ? "red" : "orange" }}>
-            (行: {e.line}) {e.error}
+          <p key={i} style={{ color: SEVERITY_COLORS[e.severity] }}>
+            [{SEVERITY_LABELS[e.severity]}] (行: {e.line}, 列: {e.range.column}) {e.error}
+            {e.explanation && <span style={{ display: "block", fontSize: "0.9em", color: "#666" }}>{e.explanation}</span>}
           </p>
         ))}
       </div>
+      <GrammarImportView
+        onImport={(text) => {
+          setBnf(text);
+          setImported(null);
+        }}
+      />
+      <GeneratedRules bnfSet={liveBnfSet} />
+      <Select
+        value={algorithm}
+        options={Object.entries(algorithms).map(([value, a]) => ({ value, label: a.label }))}
+        handler={(v) => {
+          setAlgorithm(v as AlgorithmName);
+          setImported(null);
+        }}
+      />
       <Button
         handler={() => {
-          const pbnf = getRawBNFWarningThrows(bnf).length === 0 ? parseRawBnf(bnf) : new BNFSet();
-          console.log(lr0(pbnf));
+          setBuiltBnf(bnf);
+          setImported(null);
         }}
         text="この構文定義で構築を開始する"
       />
-      <div></div>
+      {result && (
+        <div>
+          {imported && <p>読み込んだJSON（{imported.algorithm}）を表示しています。</p>}
+          <ParseTableView table={result.automaton.table} bnfSet={result.pbnf} itemSets={result.automaton.itemSets} />
+        </div>
+      )}
+      <div>
+        JSONを読み込む:{" "}
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            if (!file) return;
+            try {
+              setImported(importJson(await file.text()));
+              setImportError(null);
+            } catch (err) {
+              setImportError((err as Error).message);
+            }
+          }}
+        />
+        {importError && <span style={{ color: "red", whiteSpace: "pre-line" }}> {importError}</span>}
+      </div>
+      <PracticeView grammar={bnf} />
+      {result && (
+        <div>
+          <ExportPanel bnfSet={result.pbnf} automaton={result.automaton} algorithm={result.label} />
+          <GrammarAnalysisView nonterminals={result.pbnf.getNonterminals()} analysis={result.analysis} />
+          <SentenceGeneratorView bnfSet={result.pbnf} />
+          <StateDiagram itemSets={result.automaton.itemSets} table={result.automaton.table} />
+          <AutomatonCheckView itemSets={result.automaton.itemSets} />
+          <ConstructionReplay events={result.automaton.events} />
+          <ParseTrace table={result.automaton.table} bnfSet={result.pbnf} itemSets={result.automaton.itemSets} />
+          <LL1AnalysisView bnfSet={result.pbnf} />
+        </div>
+      )}
     </div>
   );
 };